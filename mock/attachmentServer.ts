@@ -0,0 +1,102 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { randomUUID } from 'node:crypto';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { Plugin } from 'vite';
+
+// 開発用に、添付ファイルAPIをViteの開発サーバー上で模擬する。
+// VITE_MOCK_ATTACHMENTS=true のとき、クライアントは添付ファイルのリクエストを /mock-api に送る。
+// アップロードされたファイルは .mock-attachments/ に保存し、開発サーバーを再起動しても参照できるようにする。
+const MOUNT_PATH = '/mock-api/attachments';
+const STORAGE_DIR = path.resolve(__dirname, '../.mock-attachments');
+
+type StoredAttachment = {
+    attachment_id: string;
+    item_id: string | null;
+    file_name: string;
+    content_type: string;
+    size: number;
+    url: string;
+};
+
+const readBody = (req: IncomingMessage) => new Promise<Buffer>((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+});
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+    res.statusCode = status;
+    res.setHeader('Content-Type', 'application/json');
+    res.end(JSON.stringify(body));
+};
+
+const metaPath = (id: string) => path.join(STORAGE_DIR, `${id}.json`);
+const filePath = (id: string) => path.join(STORAGE_DIR, id);
+
+// POST / : multipart/form-data の file（と任意の item_id）を保存する
+const handleUpload = async (req: IncomingMessage, res: ServerResponse) => {
+    const body = await readBody(req);
+    // multipartの解析はNode標準のRequestに任せる
+    const form = await new Request('http://localhost', {
+        method: 'POST',
+        headers: { 'Content-Type': req.headers['content-type'] ?? '' },
+        body,
+    }).formData();
+    const file = form.get('file');
+    if (!(file instanceof File)) {
+        sendJson(res, 400, { error: 'file is required' });
+        return;
+    }
+
+    const id = randomUUID();
+    const attachment: StoredAttachment = {
+        attachment_id: id,
+        item_id: (form.get('item_id') as string | null) || null,
+        file_name: file.name,
+        content_type: file.type || 'application/octet-stream',
+        size: file.size,
+        url: `${MOUNT_PATH}/${id}`,
+    };
+    await fs.mkdir(STORAGE_DIR, { recursive: true });
+    await fs.writeFile(filePath(id), Buffer.from(await file.arrayBuffer()));
+    await fs.writeFile(metaPath(id), JSON.stringify(attachment));
+    sendJson(res, 201, attachment);
+};
+
+// GET /:id : ファイル本体を返す
+const handleDownload = async (id: string, res: ServerResponse) => {
+    const attachment: StoredAttachment = JSON.parse(await fs.readFile(metaPath(id), 'utf-8'));
+    res.statusCode = 200;
+    res.setHeader('Content-Type', attachment.content_type);
+    res.setHeader('Content-Disposition', `inline; filename*=UTF-8''${encodeURIComponent(attachment.file_name)}`);
+    res.end(await fs.readFile(filePath(id)));
+};
+
+/**
+ * 添付ファイルAPIのモックを開発サーバーに追加するViteプラグイン。`vite build`には含まれない。
+ */
+export const mockAttachmentServer = (): Plugin => ({
+    name: 'mock-attachment-server',
+    apply: 'serve',
+    configureServer(server) {
+        server.middlewares.use(MOUNT_PATH, (req, res) => {
+            // マウント先のパスは取り除かれ、req.urlは "/" または "/:id" になる
+            const id = (req.url ?? '/').split('?')[0].replace(/^\//, '');
+            const handle = async () => {
+                if (req.method === 'POST' && !id) return handleUpload(req, res);
+                if (!/^[0-9a-f-]{36}$/.test(id)) return sendJson(res, 404, { error: 'not found' });
+                if (req.method === 'GET') return handleDownload(id, res);
+                sendJson(res, 405, { error: 'method not allowed' });
+            };
+            handle().catch((err: NodeJS.ErrnoException) => {
+                if (err.code === 'ENOENT') {
+                    sendJson(res, 404, { error: 'not found' });
+                } else {
+                    sendJson(res, 500, { error: err.message });
+                }
+            });
+        });
+    },
+});
@@ -0,0 +1,51 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import type { Plugin } from 'vite';
+
+// Service Workerがインストール時に読み込む、事前キャッシュするファイルの一覧
+const MANIFEST_FILE = 'precache-manifest.json';
+// アプリ本体の表示に必要なファイルだけを対象にする（ソースマップなどは除く）
+const PRECACHE_PATTERN = /\.(js|css|html|svg|png|woff2)$/;
+// public/sw.js の中で、ビルドごとのバージョンに置き換える文字列
+const VERSION_PLACEHOLDER = '__PRECACHE_VERSION__';
+
+/**
+ * ビルド結果のファイル一覧を precache-manifest.json として出力するViteプラグイン。
+ * public/sw.js はこの一覧をインストール時にキャッシュし、回線が遅くてもアプリ本体をすぐに表示できるようにする。
+ * 一覧から求めたバージョンを出力先の sw.js に埋め込むため、ビルドが変わるとService Workerも更新され、古いキャッシュは削除される。
+ */
+export const precacheManifest = (): Plugin => {
+    let outDir = 'dist';
+    let version = '';
+
+    return {
+        name: 'precache-manifest',
+        apply: 'build',
+        // index.htmlが出力された後に一覧を作る
+        enforce: 'post',
+        configResolved(config) {
+            outDir = path.resolve(config.root, config.build.outDir);
+        },
+        generateBundle(_options, bundle) {
+            const files = Object.keys(bundle).filter((fileName) => PRECACHE_PATTERN.test(fileName)).sort();
+            // ファイル名にハッシュが含まれるため、一覧のハッシュをバージョンとして使う
+            const key = files.join('|');
+            let hash = 0;
+            for (let i = 0; i < key.length; i++) {
+                hash = (hash * 31 + key.charCodeAt(i)) | 0;
+            }
+            version = (hash >>> 0).toString(16);
+            this.emitFile({
+                type: 'asset',
+                fileName: MANIFEST_FILE,
+                source: JSON.stringify({ version, files: files.map((fileName) => `/${fileName}`) }),
+            });
+        },
+        // publicディレクトリのコピーが終わった後に、sw.js にバージョンを埋め込む
+        async closeBundle() {
+            const swPath = path.join(outDir, 'sw.js');
+            const source = await fs.readFile(swPath, 'utf-8');
+            await fs.writeFile(swPath, source.split(VERSION_PLACEHOLDER).join(version));
+        },
+    };
+};
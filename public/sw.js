@@ -0,0 +1,113 @@
+// オフラインや回線が遅いときでもアプリを開けるようにするService Worker。
+// インストール時にビルド結果のファイル（precache-manifest.json）を事前キャッシュし、アプリ本体はキャッシュから表示する。
+// APIのデータはReact QueryのキャッシュとしてIndexedDBに保存しているため、ここでは扱わない。
+// また、今日の復習のリマインダー通知のクリックを処理する。
+
+// ビルド時にprecache-manifest.jsonのバージョンに置き換わる。ビルドごとにこのファイルが変わるため、Service Workerも更新される
+const PRECACHE_VERSION = '__PRECACHE_VERSION__';
+const CACHE_PREFIX = 'review-setter-shell-';
+const CACHE_NAME = `${CACHE_PREFIX}${PRECACHE_VERSION}`;
+const APP_SHELL = ['/', '/index.html', '/manifest.webmanifest', '/icons/icon.svg', '/icons/icon-192.png', '/icons/icon-512.png'];
+// ページ遷移でこの時間内にネットワークから応答がなければ、キャッシュしたアプリ本体を表示する
+const NAVIGATION_TIMEOUT_MS = 3000;
+
+const loadPrecacheFiles = async () => {
+    try {
+        const response = await fetch('/precache-manifest.json', { cache: 'no-store' });
+        if (!response.ok) return [];
+        const manifest = await response.json();
+        return manifest.files || [];
+    } catch {
+        return [];
+    }
+};
+
+self.addEventListener('install', (event) => {
+    event.waitUntil(
+        Promise.all([caches.open(CACHE_NAME), loadPrecacheFiles()]).then(([cache, files]) =>
+            cache.addAll(Array.from(new Set([...APP_SHELL, ...files])))
+        )
+    );
+    self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+    event.waitUntil(
+        caches.keys().then((keys) => Promise.all(keys.filter((key) => key !== CACHE_NAME).map((key) => caches.delete(key))))
+    );
+    self.clients.claim();
+});
+
+const putInCache = (request, response) => {
+    if (!response.ok) return;
+    const copy = response.clone();
+    caches.open(CACHE_NAME).then((cache) => cache.put(request, copy));
+};
+
+// ネットワーク優先。失敗したらキャッシュを返す
+const networkFirst = async (request) => {
+    try {
+        const response = await fetch(request);
+        putInCache(request, response);
+        return response;
+    } catch {
+        const cached = await caches.match(request);
+        return cached || Response.error();
+    }
+};
+
+// ファイル名にハッシュを含むビルド結果は内容が変わらないため、キャッシュ優先
+const cacheFirst = async (request) => {
+    const cached = await caches.match(request);
+    if (cached) return cached;
+    const response = await fetch(request);
+    putInCache(request, response);
+    return response;
+};
+
+// ページ遷移（SPAのため常にindex.html）。ネットワークが遅い・つながらない場合はキャッシュしたアプリ本体を返し、
+// ネットワークの応答は次回のためにキャッシュだけ更新する
+const navigate = async (request) => {
+    const network = fetch(request).then((response) => {
+        putInCache('/index.html', response);
+        return response;
+    });
+    // 先にキャッシュを返した後でネットワークが失敗しても、未処理のエラーにしない
+    network.catch(() => {});
+    const timedOut = new Promise((resolve) => setTimeout(() => resolve(null), NAVIGATION_TIMEOUT_MS));
+    try {
+        const response = await Promise.race([network, timedOut]);
+        if (response) return response;
+    } catch {
+        // ネットワークにつながらない
+    }
+    const cached = await caches.match('/index.html');
+    return cached || network.catch(() => Response.error());
+};
+
+self.addEventListener('fetch', (event) => {
+    const { request } = event;
+    const url = new URL(request.url);
+    if (request.method !== 'GET' || url.origin !== self.location.origin) return;
+
+    if (request.mode === 'navigate') {
+        event.respondWith(navigate(request));
+    } else if (url.pathname.startsWith('/assets/')) {
+        event.respondWith(cacheFirst(request));
+    } else {
+        event.respondWith(networkFirst(request));
+    }
+});
+
+// 今日の復習のリマインダー通知をクリックしたら、開いているアプリのタブを復習ページに切り替える（なければ新しく開く）
+self.addEventListener('notificationclick', (event) => {
+    event.notification.close();
+    const url = new URL(event.notification.data?.url || '/', self.location.origin).href;
+    event.waitUntil(
+        self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+            const client = clients.find((c) => new URL(c.url).origin === self.location.origin);
+            if (client) return client.focus().then((focused) => focused.navigate(url));
+            return self.clients.openWindow(url);
+        })
+    );
+});
@@ -22,6 +22,9 @@ import HomePage from './pages/App/HomePage';
 import BoxAndCategoryPage from './pages/App/BoxAndCategoryPage';
 import TodaysReviewPage from './pages/App/TodaysReviewPage';
 import PatternsPage from './pages/App/PatternsPage';
+import CalendarPage from './pages/App/CalendarPage';
+import StatsPage from './pages/App/StatsPage';
+import OverduePage from './pages/App/OverduePage';
 import NotFoundPage from './pages/NotFoundPage';
 import LoadingPage from './pages/LoadingPage';
 
@@ -68,7 +71,12 @@ const App = () => {
 
   useEffect(() => {
     const initializeApp = async () => {
-      await setupCsrfToken();
+      try {
+        await setupCsrfToken();
+      } catch (err) {
+        // オフライン時はトークンを取得できないが、キャッシュ済みのデータで起動する（再接続時に取り直す）
+        if (navigator.onLine) throw err;
+      }
       setIsCsrfReady(true);
     };
     initializeApp();
@@ -103,6 +111,9 @@ const App = () => {
           <Route path="/categories/:categoryId" element={<BoxAndCategoryPage />} />
           <Route path="/categories/:categoryId/boxes/:boxId" element={<BoxAndCategoryPage />} />
           <Route path="/today" element={<TodaysReviewPage />} />
+          <Route path="/calendar" element={<CalendarPage />} />
+          <Route path="/stats" element={<StatsPage />} />
+          <Route path="/overdue" element={<OverduePage />} />
         </Route>
 
         {/* ルートが存在しない場合 */}
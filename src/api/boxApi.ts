@@ -1,14 +1,15 @@
-import api from './index';
+import api, { keepaliveConfig } from './index';
 import { GetBoxOutput, CreateBoxInput, UpdateBoxInput } from '@/types';
+import { excludePendingDeletions } from '@/lib/undo';
 
 /**
  * 特定のカテゴリーに属する全てのボックス（復習物ボックス）を取得する
  * @param categoryId - ボックスを取得したいカテゴリーのID
- * @returns ボックスの配列
+ * @returns ボックスの配列。取り消し期間中で削除を確定していないボックスは除く
  */
 export const fetchBoxes = async (categoryId: string): Promise<GetBoxOutput[]> => {
     const response = await api.get<GetBoxOutput[]>(`/${categoryId}/boxes`);
-    return response.data;
+    return excludePendingDeletions(response.data, (box) => box.id);
 };
 
 /**
@@ -38,7 +39,8 @@ export const updateBox = async ({ categoryId, boxId, data }: { categoryId: strin
  * 指定したIDのボックスを削除する
  * @param categoryId - 削除対象ボックスが属するカテゴリーのID
  * @param boxId - 削除対象のボックスID
+ * @param keepalive - ページを閉じる間際に送る場合はtrue
  */
-export const deleteBox = async ({ categoryId, boxId }: { categoryId: string; boxId: string }): Promise<void> => {
-    await api.delete(`/${categoryId}/boxes/${boxId}`);
+export const deleteBox = async ({ categoryId, boxId, keepalive = false }: { categoryId: string; boxId: string; keepalive?: boolean }): Promise<void> => {
+    await api.delete(`/${categoryId}/boxes/${boxId}`, keepalive ? keepaliveConfig : undefined);
 };
\ No newline at end of file
@@ -1,10 +1,12 @@
 // カテゴリーリソースに関するAPI関数をまとめたファイル。
-import api from './index';
+import api, { keepaliveConfig } from './index';
 import { GetCategoryOutput, CreateCategoryInput, UpdateCategoryInput } from '@/types';
+import { excludePendingDeletions } from '@/lib/undo';
 
+// 取り消し期間中で削除を確定していないカテゴリーは除く
 export const fetchCategories = async (): Promise<GetCategoryOutput[]> => {
     const response = await api.get<GetCategoryOutput[]>('/categories');
-    return response.data;
+    return excludePendingDeletions(response.data, (category) => category.id);
 };
 
 export const createCategory = async (data: CreateCategoryInput): Promise<GetCategoryOutput> => {
@@ -17,6 +19,7 @@ export const updateCategory = async ({ id, data }: { id: string; data: UpdateCat
     return response.data;
 };
 
-export const deleteCategory = async (id: string): Promise<void> => {
-    await api.delete(`/categories/${id}`);
+// keepaliveはページを閉じる間際に送る場合にtrueにする
+export const deleteCategory = async (id: string, { keepalive = false }: { keepalive?: boolean } = {}): Promise<void> => {
+    await api.delete(`/categories/${id}`, keepalive ? keepaliveConfig : undefined);
 };
\ No newline at end of file
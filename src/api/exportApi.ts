@@ -0,0 +1,44 @@
+import { fetchCategories } from './categoryApi';
+import { fetchBoxes } from './boxApi';
+import { fetchPatterns } from './patternApi';
+import { fetchAllFinishedItems, fetchAllItems } from './itemApi';
+import { GetBoxOutput, GetCategoryOutput, ItemResponse, PatternResponse } from '@/types';
+
+// エクスポートファイルの形式を識別するための名前とバージョン。構造を変えたらバージョンを上げる
+export const ACCOUNT_EXPORT_FORMAT = 'review-setter-export';
+export const ACCOUNT_EXPORT_VERSION = 1;
+
+export type AccountExport = {
+    format: typeof ACCOUNT_EXPORT_FORMAT;
+    version: number;
+    exported_at: string;
+    categories: GetCategoryOutput[];
+    boxes: GetBoxOutput[];
+    patterns: PatternResponse[];
+    // 復習中・完了済みの両方を含む。復習日(review_dates)も各復習物に含まれる
+    items: ItemResponse[];
+};
+
+/**
+ * アカウントの全データ（カテゴリー・ボックス・パターン・復習物）を取得してひとつにまとめる。
+ * 復習物は、復習中・完了済みそれぞれの全件取得を使う。
+ */
+export const fetchAccountExport = async (): Promise<AccountExport> => {
+    const [categories, patterns, items, finishedItems] = await Promise.all([
+        fetchCategories(),
+        fetchPatterns(),
+        fetchAllItems(),
+        fetchAllFinishedItems(),
+    ]);
+    const boxesByCategory = await Promise.all(categories.map((category) => fetchBoxes(category.id)));
+
+    return {
+        format: ACCOUNT_EXPORT_FORMAT,
+        version: ACCOUNT_EXPORT_VERSION,
+        exported_at: new Date().toISOString(),
+        categories,
+        boxes: boxesByCategory.flat(),
+        patterns,
+        items: [...items, ...finishedItems],
+    };
+};
@@ -1,4 +1,4 @@
-import axios from 'axios';
+import axios, { AxiosRequestConfig } from 'axios';
 
 /**
  * アプリケーション全体で共有されるaxiosインスタンス。
@@ -25,4 +25,13 @@ export const setupCsrfToken = async () => {
     api.defaults.headers.common['X-CSRF-Token'] = data.csrf_token;
 };
 
+/**
+ * ページを閉じる間際に送るリクエストの設定。
+ * XHRはページの破棄とともにブラウザに中断されるため、fetchのkeepaliveで送る。
+ */
+export const keepaliveConfig: AxiosRequestConfig = {
+    adapter: 'fetch',
+    fetchOptions: { keepalive: true },
+};
+
 export default api;
\ No newline at end of file
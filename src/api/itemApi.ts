@@ -1,15 +1,18 @@
 // 復習物に関する、最も多機能なAPI関数をまとめたファイル
-import api from './index';
-import { ItemResponse, CreateItemRequest, UpdateItemRequest, UpdateReviewDatesRequest, UpdateItemAsUnFinishedForceRequest, GetDailyReviewDatesResponse, UpdateReviewDateAsCompletedRequest, UpdateReviewDateAsInCompletedRequest } from '@/types';
+import api, { keepaliveConfig } from './index';
+import { sendOrQueue } from './offlineQueue';
+import { AttachmentResponse, ItemResponse, CreateItemRequest, UpdateItemRequest, UpdateReviewDatesRequest, UpdateItemAsUnFinishedForceRequest, GetDailyReviewDatesResponse, UpdateReviewDateAsCompletedRequest, UpdateReviewDateAsInCompletedRequest } from '@/types';
 import { format } from 'date-fns';
+import { excludePendingDeletions } from '@/lib/undo';
+import { fetchCategories } from './categoryApi';
+import { fetchBoxes } from './boxApi';
 
 // --- 復習物のCRUD ---
+/**
+ * 復習物を作成する。オフライン時はキューに積み、nullを返す。
+ */
 export const createItem = async (data: CreateItemRequest) => {
-
-    const response = await api.post<ItemResponse>('/items', data);
-
-
-    return response.data;
+    return sendOrQueue<ItemResponse>({ kind: 'createItem', method: 'post', url: '/items', data, label: data.name });
 }
 
 export const updateItem = async ({ itemId, data }: { itemId: string, data: UpdateItemRequest }) => {
@@ -20,24 +23,71 @@ export const updateItem = async ({ itemId, data }: { itemId: string, data: Updat
     return response.data;
 }
 
-export const deleteItem = async (itemId: string): Promise<void> => {
-    await api.delete(`/items/${itemId}`);
+/**
+ * 復習物を別のカテゴリー・ボックスに移動する。名前や学習日などは現在の値のまま更新する。
+ * @param patternId - 移動後のパターン。未指定の場合は現在のパターンを引き継ぐ
+ */
+export const moveItem = async ({ item, categoryId, boxId, patternId }: { item: ItemResponse, categoryId: string | null, boxId: string | null, patternId?: string | null }) => {
+    return updateItem({
+        itemId: item.item_id,
+        data: {
+            name: item.name,
+            detail: item.detail,
+            tags: item.tags,
+            category_id: categoryId,
+            box_id: boxId,
+            pattern_id: patternId === undefined ? item.pattern_id : patternId,
+            learned_date: format(new Date(item.learned_date), 'yyyy-MM-dd'),
+            today: format(new Date(), 'yyyy-MM-dd'),
+            is_mark_overdue_as_completed: false,
+        },
+    });
+}
+
+/**
+ * 復習物を削除する。
+ * @param keepalive - ページを閉じる間際に送る場合はtrue
+ */
+export const deleteItem = async (itemId: string, { keepalive = false }: { keepalive?: boolean } = {}): Promise<void> => {
+    await api.delete(`/items/${itemId}`, keepalive ? keepaliveConfig : undefined);
 }
 
 // --- 復習物のリスト取得 ---
+// 一覧の取得結果からは、取り消し期間中で削除を確定していない復習物を除く
+const excludePendingItems = (items: ItemResponse[]) => excludePendingDeletions(items, (item) => item.item_id);
+
 export const fetchUnclassifiedItems = async (): Promise<ItemResponse[]> => {
     const response = await api.get<ItemResponse[]>('/items/unclassified');
-    return response.data;
+    return excludePendingItems(response.data);
 }
 
 export const fetchItemsByBox = async (boxId: string): Promise<ItemResponse[]> => {
     const response = await api.get<ItemResponse[]>(`/items/${boxId}`);
-    return response.data;
+    return excludePendingItems(response.data);
 }
 
 export const fetchUnclassifiedItemsByCategory = async (categoryId: string): Promise<ItemResponse[]> => {
     const response = await api.get<ItemResponse[]>(`/items/unclassified/${categoryId}`);
-    return response.data;
+    return excludePendingItems(response.data);
+}
+
+/**
+ * ユーザーの全ての(未完了の)復習物を取得する。
+ * 全件取得用のエンドポイントが無いため、カテゴリー → ボックスの順に既存のAPIを組み合わせて集約する。
+ * カレンダーのように、ボックスを横断して復習日を扱う画面で使う。
+ */
+export const fetchAllItems = async (): Promise<ItemResponse[]> => {
+    const categories = await fetchCategories();
+    const itemsByCategory = await Promise.all(categories.map(async (category) => {
+        const boxes = await fetchBoxes(category.id);
+        const [itemsByBox, unclassifiedItems] = await Promise.all([
+            Promise.all(boxes.map((box) => fetchItemsByBox(box.id))),
+            fetchUnclassifiedItemsByCategory(category.id),
+        ]);
+        return [...itemsByBox.flat(), ...unclassifiedItems];
+    }));
+    const unclassifiedItems = await fetchUnclassifiedItems();
+    return [...itemsByCategory.flat(), ...unclassifiedItems];
 }
 
 /**
@@ -46,22 +96,51 @@ export const fetchUnclassifiedItemsByCategory = async (categoryId: string): Prom
 export const fetchTodaysReviews = async (): Promise<GetDailyReviewDatesResponse> => {
     const today = format(new Date(), 'yyyy-MM-dd');
     const response = await api.get<GetDailyReviewDatesResponse>(`/items/today?today=${today}`);
-    return response.data;
+    // 取り消し期間中の削除対象（カテゴリー・ボックス・復習物）の復習日を除く
+    const excludeReviewDates = <T extends { item_id: string }>(reviewDates: T[]) => excludePendingDeletions(reviewDates, (rd) => rd.item_id);
+    const { categories, daily_review_dates_grouped_by_user } = response.data;
+    return {
+        categories: excludePendingDeletions(categories, (category) => category.category_id).map((category) => ({
+            ...category,
+            boxes: excludePendingDeletions(category.boxes, (box) => box.box_id)
+                .map((box) => ({ ...box, review_dates: excludeReviewDates(box.review_dates) })),
+            unclassified_daily_review_dates_by_category: excludeReviewDates(category.unclassified_daily_review_dates_by_category),
+        })),
+        daily_review_dates_grouped_by_user: excludeReviewDates(daily_review_dates_grouped_by_user),
+    };
 }
 
 export const fetchFinishedItemsByBox = async (boxId: string): Promise<ItemResponse[]> => {
     const response = await api.get<ItemResponse[]>(`/items/finished/${boxId}`);
-    return response.data;
+    return excludePendingItems(response.data);
 }
 
 export const fetchFinishedUnclassifiedItems = async (): Promise<ItemResponse[]> => {
     const response = await api.get<ItemResponse[]>('/items/finished/unclassified');
-    return response.data;
+    return excludePendingItems(response.data);
 }
 
 export const fetchFinishedUnclassifiedItemsByCategory = async (categoryId: string): Promise<ItemResponse[]> => {
     const response = await api.get<ItemResponse[]>(`/items/finished/unclassified/${categoryId}`);
-    return response.data;
+    return excludePendingItems(response.data);
+}
+
+/**
+ * 全ての完了済み復習物を取得する。
+ * fetchAllItemsと同様に、カテゴリー → ボックスの順に既存のAPIを組み合わせて集約する。
+ */
+export const fetchAllFinishedItems = async (): Promise<ItemResponse[]> => {
+    const categories = await fetchCategories();
+    const itemsByCategory = await Promise.all(categories.map(async (category) => {
+        const boxes = await fetchBoxes(category.id);
+        const [itemsByBox, unclassifiedItems] = await Promise.all([
+            Promise.all(boxes.map((box) => fetchFinishedItemsByBox(box.id))),
+            fetchFinishedUnclassifiedItemsByCategory(category.id),
+        ]);
+        return [...itemsByBox.flat(), ...unclassifiedItems];
+    }));
+    const unclassifiedItems = await fetchFinishedUnclassifiedItems();
+    return [...itemsByCategory.flat(), ...unclassifiedItems];
 }
 
 export const markItemAsFinished = async (itemId: string) => {
@@ -79,16 +158,34 @@ export const updateReviewDate = async ({ itemId, reviewDateId, data }: { itemId:
     return response.data;
 }
 
+// 復習日の完了・未完了は、オフライン時はキューに積み、再接続時に再送する
 export const completeReviewDate = async ({ itemId, reviewDateId, data }: { itemId: string, reviewDateId: string, data: UpdateReviewDateAsCompletedRequest }) => {
-    const response = await api.patch(`/items/${itemId}/review-dates/${reviewDateId}/complete`, data);
-    return response.data;
+    return sendOrQueue({ kind: 'completeReviewDate', method: 'patch', url: `/items/${itemId}/review-dates/${reviewDateId}/complete`, data });
 };
 
 export const incompleteReviewDate = async ({ itemId, reviewDateId, data }: { itemId: string, reviewDateId: string, data: UpdateReviewDateAsInCompletedRequest }) => {
-    const response = await api.patch(`/items/${itemId}/review-dates/${reviewDateId}/incomplete`, data);
-    return response.data;
+    return sendOrQueue({ kind: 'incompleteReviewDate', method: 'patch', url: `/items/${itemId}/review-dates/${reviewDateId}/incomplete`, data });
 };
 
+// --- 添付ファイル ---
+// VITE_MOCK_ATTACHMENTSがtrueの場合は、開発サーバーのモック(mock/attachmentServer.ts)に送る
+const attachmentConfig = import.meta.env.VITE_MOCK_ATTACHMENTS === 'true' ? { baseURL: '/mock-api' } : {};
+
+/**
+ * 添付ファイルをアップロードする。作成前の復習物に貼り付ける場合はitemIdを省略する。
+ * @returns 詳細(Markdown)から参照するためのURLを含む添付ファイル情報
+ */
+export const uploadAttachment = async ({ file, itemId }: { file: File, itemId?: string }): Promise<AttachmentResponse> => {
+    const formData = new FormData();
+    formData.append('file', file);
+    if (itemId) formData.append('item_id', itemId);
+    const response = await api.post<AttachmentResponse>('/attachments', formData, {
+        ...attachmentConfig,
+        headers: { 'Content-Type': 'multipart/form-data' },
+    });
+    return response.data;
+}
+
 // ... summary endpoints
 export const fetchItemCountByBox = async () => {
     const response = await api.get(`/summary/items/count/by-box`);
@@ -0,0 +1,142 @@
+// オフライン中の更新リクエストをIndexedDBにキューイングし、再接続時に順番に再送するためのファイル
+import axios from 'axios';
+import api, { setupCsrfToken } from './index';
+import { idbClear, idbDelete, idbGetAll, idbPut, MUTATION_STORE } from '@/lib/offlineDb';
+import { queryClient } from '@/lib/queryClient';
+import { useOfflineStore, QueuedMutation, QueuedMutationKind } from '@/store/offlineStore';
+import { GetDailyReviewDatesResponse, ItemResponse } from '@/types';
+
+type QueueableRequest = {
+    kind: QueuedMutationKind;
+    method: QueuedMutation['method'];
+    url: string;
+    data: unknown;
+    label?: string;
+};
+
+// レスポンスが返ってこなかった（＝通信できなかった）エラーかどうか
+const isNetworkError = (error: unknown) => axios.isAxiosError(error) && !error.response;
+
+// IndexedDBの内容をストアに反映する
+const syncQueueToStore = async () => {
+    const queue = await idbGetAll<QueuedMutation>(MUTATION_STORE);
+    queue.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    useOfflineStore.getState().setQueue(queue);
+    return queue;
+};
+
+export const loadQueuedMutations = () => syncQueueToStore();
+
+/**
+ * キャッシュ上の復習日の完了状態を書き換える（オフライン時の楽観的更新用）
+ * 再接続後の再取得でサーバーの値に置き換わる
+ */
+const patchReviewDateInCache = (reviewDateId: string, isCompleted: boolean) => {
+    const patch = <T extends { review_date_id: string; is_completed: boolean }>(rd: T): T =>
+        rd.review_date_id === reviewDateId ? { ...rd, is_completed: isCompleted } : rd;
+
+    queryClient.setQueriesData<GetDailyReviewDatesResponse>({ queryKey: ['todaysReviews'] }, (data) => data && ({
+        categories: data.categories.map((category) => ({
+            ...category,
+            boxes: category.boxes.map((box) => ({ ...box, review_dates: box.review_dates.map(patch) })),
+            unclassified_daily_review_dates_by_category: category.unclassified_daily_review_dates_by_category.map(patch),
+        })),
+        daily_review_dates_grouped_by_user: data.daily_review_dates_grouped_by_user.map(patch),
+    }));
+
+    queryClient.setQueriesData<ItemResponse[]>({ queryKey: ['items'] }, (data) =>
+        Array.isArray(data) ? data.map((item) => ({ ...item, review_dates: item.review_dates.map(patch) })) : data
+    );
+};
+
+const enqueue = async (request: QueueableRequest) => {
+    const mutation: QueuedMutation = {
+        ...request,
+        id: crypto.randomUUID(),
+        createdAt: new Date().toISOString(),
+        status: 'pending',
+    };
+    await idbPut(MUTATION_STORE, mutation);
+    await syncQueueToStore();
+
+    if (request.kind === 'completeReviewDate' || request.kind === 'incompleteReviewDate') {
+        const reviewDateId = request.url.split('/review-dates/')[1]?.split('/')[0];
+        if (reviewDateId) patchReviewDateInCache(reviewDateId, request.kind === 'completeReviewDate');
+    }
+};
+
+/**
+ * 更新リクエストを送信する。オフライン、または通信できなかった場合はキューに積んでnullを返す。
+ * @returns サーバーからのレスポンス。キューに積んだ場合はnull。
+ */
+export const sendOrQueue = async <T>(request: QueueableRequest): Promise<T | null> => {
+    if (!navigator.onLine) {
+        await enqueue(request);
+        return null;
+    }
+    try {
+        const response = await api.request<T>({ method: request.method, url: request.url, data: request.data });
+        return response.data;
+    } catch (error) {
+        if (isNetworkError(error)) {
+            await enqueue(request);
+            return null;
+        }
+        throw error;
+    }
+};
+
+/**
+ * キューに積まれた更新リクエストを作成順に再送する。
+ * 通信できなかった場合はその時点で中断し、残りは次回の再接続時に再送する。
+ * 再送後は楽観的更新をサーバーの最新状態で置き換えるため、関連するクエリを無効化する。
+ * @param ids - 指定した場合はそのリクエストのみ再送する（失敗分の再試行用）
+ */
+export const replayQueuedMutations = async (ids?: string[]) => {
+    const { isSyncing, setSyncing } = useOfflineStore.getState();
+    if (isSyncing) return;
+    setSyncing(true);
+    try {
+        // オフライン中に復元したCSRFトークンは古い可能性があるため、再送前に取り直す
+        await setupCsrfToken();
+        const queue = await syncQueueToStore();
+        const targets = ids ? queue.filter((m) => ids.includes(m.id)) : queue.filter((m) => m.status === 'pending');
+        for (const mutation of targets) {
+            try {
+                await api.request({ method: mutation.method, url: mutation.url, data: mutation.data });
+                await idbDelete(MUTATION_STORE, mutation.id);
+            } catch (error) {
+                if (isNetworkError(error)) break;
+                const status = axios.isAxiosError(error) ? error.response?.status ?? 0 : 0;
+                const message = axios.isAxiosError(error) ? error.response?.data?.error || error.message : String(error);
+                await idbPut(MUTATION_STORE, {
+                    ...mutation,
+                    status: status >= 400 && status < 500 ? 'conflict' : 'failed',
+                    error: message,
+                });
+            }
+        }
+    } catch (error) {
+        // CSRFトークンの取得に失敗した（まだ通信できない）場合は、次回の再接続時に再送する
+        console.error('Failed to replay queued mutations: ', error);
+    } finally {
+        await syncQueueToStore();
+        setSyncing(false);
+        queryClient.invalidateQueries({ queryKey: ['todaysReviews'] });
+        queryClient.invalidateQueries({ queryKey: ['items'] });
+        queryClient.invalidateQueries({ queryKey: ['allItems'] });
+        queryClient.invalidateQueries({ queryKey: ['summary'] });
+    }
+};
+
+// 失敗したリクエストを破棄する
+export const discardQueuedMutation = async (id: string) => {
+    await idbDelete(MUTATION_STORE, id);
+    await syncQueueToStore();
+};
+
+// ログアウト時に、他のユーザーのリクエストとして再送されないようキューを空にする
+export const clearQueuedMutations = async () => {
+    await idbClear(MUTATION_STORE);
+    await syncQueueToStore();
+};
@@ -1,5 +1,14 @@
 import api from './index';
-import { PatternResponse, CreatePatternRequest, UpdatePatternRequest } from '@/types';
+import { fetchCategories } from './categoryApi';
+import { fetchBoxes } from './boxApi';
+import { fetchAllItems } from './itemApi';
+import { PatternResponse, CreatePatternRequest, UpdatePatternRequest, GetBoxOutput, ItemResponse } from '@/types';
+
+// パターンを使っているボックスと（未完了の）復習物
+export type PatternUsage = {
+    boxes: GetBoxOutput[];
+    items: ItemResponse[];
+};
 
 /**
  * ユーザーが作成した全てのパターンを取得する
@@ -37,4 +46,18 @@ export const updatePattern = async ({ id, data }: { id: string, data: UpdatePatt
  */
 export const deletePattern = async (id: string): Promise<void> => {
     await api.delete(`/patterns/${id}`);
-};
\ No newline at end of file
+};
+
+/**
+ * 指定したパターンを使っているボックスと未完了の復習物を取得する。
+ * @param id - 対象のパターンID
+ */
+export const fetchPatternUsage = async (id: string): Promise<PatternUsage> => {
+    const [categories, items] = await Promise.all([fetchCategories(), fetchAllItems()]);
+    const boxesByCategory = await Promise.all(categories.map((category) => fetchBoxes(category.id)));
+
+    return {
+        boxes: boxesByCategory.flat().filter((box) => box.pattern_id === id),
+        items: items.filter((item) => item.pattern_id === id),
+    };
+};
@@ -1,27 +1,37 @@
 import * as React from 'react';
-import { useParams } from 'react-router-dom';
+import { useParams, useSearchParams } from 'react-router-dom';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
-import { ColumnDef } from '@tanstack/react-table';
+import { ColumnDef, RowSelectionState } from '@tanstack/react-table';
 import { format } from 'date-fns';
 import { toast } from 'sonner';
 import { useTranslation } from 'react-i18next';
 
 // API & Store
-import { deleteItem, completeReviewDate, incompleteReviewDate } from '@/api/itemApi';
+import { completeReviewDate, incompleteReviewDate, fetchItemsByBox } from '@/api/itemApi';
 import { useItemStore } from '@/store';
-import { ItemResponse, ReviewDateResponse, GetCategoryOutput, GetBoxOutput } from '@/types';
+import { ItemResponse, ReviewDateResponse, GetCategoryOutput, GetBoxOutput, RecallGrade } from '@/types';
 import { cn } from '@/lib/utils';
 import { usePatternStore } from '@/store/patternStore';
+import { setItemDragData } from '@/hooks/useItemDrop';
+import { useItemUndo } from '@/hooks/useItemUndo';
+import { useReviewUndo } from '@/hooks/useReviewUndo';
+import { toAnkiText } from '@/lib/anki';
+import { downloadTextFile } from '@/lib/accountExport';
+import { defaultGradeFor, isAdaptiveItem } from '@/lib/sm2';
+import { collectTags, hasAllTags } from '@/lib/tags';
 
 // UI
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
-import { Cog6ToothIcon, InformationCircleIcon, PencilIcon, DocumentTextIcon, ChevronDoubleLeftIcon, InboxIcon, ChevronDownIcon } from '@heroicons/react/24/outline';
-import { DataTable } from '@/components/shared/DataTable/DataTable';
+import { Cog6ToothIcon, InformationCircleIcon, PencilIcon, DocumentTextIcon, ChevronDoubleLeftIcon, InboxIcon, ChevronDownIcon, ArrowsUpDownIcon } from '@heroicons/react/24/outline';
+import { DataTable, DataTableKeyboardShortcuts } from '@/components/shared/DataTable/DataTable';
+import { createSelectColumn } from '@/components/shared/DataTable/DataTableSelectColumn';
 import { TableSkeleton } from '@/components/shared/SkeletonLoader';
 import NameCell from '@/components/shared/NameCell';
 import { SortDropdown } from '@/components/shared/SortDropdown';
+import { RecallGradePicker } from '@/components/shared/RecallGradePicker';
+import { TagFilter } from '@/components/shared/TagFilter';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 
 // モーダル
@@ -33,6 +43,8 @@ import { EditBoxModal } from '@/components/modals/EditBoxModal';
 import { FinishedItemsModal } from '@/components/modals/FinishedItemsModal';
 import { ScrollArea, ScrollBar } from '@/components/ui/scroll-area';
 import { CreateItemModal } from '@/components/modals/CreateItemModal';
+import { AnkiImportModal } from '@/components/modals/AnkiImportModal';
+import { BoxBatchToolbar } from './BoxBatchToolbar';
 
 interface BoxProps {
     items: ItemResponse[];
@@ -41,6 +53,12 @@ interface BoxProps {
     currentBox: GetBoxOutput | null | undefined;
 }
 
+// 予定日が今日の復習日
+const findTodaysReviewDate = (item: ItemResponse) => {
+    const today = format(new Date(), 'yyyy-MM-dd');
+    return item.review_dates.find((rd) => format(new Date(rd.scheduled_date), 'yyyy-MM-dd') === today);
+};
+
 /**
  * ボックス詳細ページのメインコンテンツ。
  * 復習物の一覧テーブルと、関連する操作を担当する。
@@ -49,10 +67,15 @@ export const Box = ({ items, isLoading, currentCategory, currentBox }: BoxProps)
     const { t } = useTranslation();
     // --- Hooks ---
     const { categoryId, boxId } = useParams<{ categoryId: string; boxId: string }>();
+    // コマンドパレットの検索結果から開いた場合に強調表示する復習物
+    const [searchParams] = useSearchParams();
+    const highlightedItemId = searchParams.get('item');
     const queryClient = useQueryClient();
 
     // --- Zustandストア ---
-    const { getItemsForBox, removeItemFromBox } = useItemStore();
+    const { getItemsForBox } = useItemStore();
+    const { deleteItems } = useItemUndo();
+    const { recordCompleted, recordIncompleted } = useReviewUndo();
 
     // --- State (モーダル管理) ---
     const [detailItem, setDetailItem] = React.useState<ItemResponse | null>(null);
@@ -63,6 +86,7 @@ export const Box = ({ items, isLoading, currentCategory, currentBox }: BoxProps)
     const [isEditBoxModalOpen, setEditBoxModalOpen] = React.useState(false);
     const [isFinishedItemsModalOpen, setFinishedItemsModalOpen] = React.useState(false);
     const [isCreateItemModalOpen, setCreateItemModalOpen] = React.useState(false);
+    const [isAnkiImportModalOpen, setAnkiImportModalOpen] = React.useState(false);
 
     // --- State (復習物名列の幅調整) ---
     const [nameColumnWidth, setNameColumnWidth] = React.useState(430);
@@ -71,6 +95,14 @@ export const Box = ({ items, isLoading, currentCategory, currentBox }: BoxProps)
     const [startX, setStartX] = React.useState(0);
     const [startWidth, setStartWidth] = React.useState(0);
 
+    // --- State (一括操作の行選択) ---
+    const [rowSelection, setRowSelection] = React.useState<RowSelectionState>({});
+
+    // ボックスを切り替えたら選択を解除する
+    React.useEffect(() => {
+        setRowSelection({});
+    }, [boxId, categoryId]);
+
     // --- State (ソート) ---
     const [itemSortOrder, setItemSortOrder] = React.useState('registered_at_desc');
     const itemSortOptions = [
@@ -86,24 +118,37 @@ export const Box = ({ items, isLoading, currentCategory, currentBox }: BoxProps)
 
     // --- State (絞り込み) ---
     const [filterType, setFilterType] = React.useState<'all' | 'today'>('all');
+    // タグでの絞り込み
+    const [selectedTags, setSelectedTags] = React.useState<string[]>([]);
     const filterTypeLabel = filterType === 'all' ? t('common.all') : t('home.todaysReview');
 
+    // 強調表示する復習物が絞り込みで隠れないようにする
+    React.useEffect(() => {
+        if (highlightedItemId) setFilterType('all');
+    }, [highlightedItemId]);
+
     // --- Mutations ---
-    const deleteMutation = useMutation({
-        mutationFn: (itemId: string) => deleteItem(itemId),
-        onSuccess: (_, itemId) => {
-            toast.success(t('notification.itemDeleted'));
-            if (boxId) removeItemFromBox(boxId, itemId);
-            queryClient.invalidateQueries({ queryKey: ['items', boxId, categoryId] });
+    // 削除は取り消し期間が過ぎてからサーバーに反映される
+    const handleDeleteItem = (item: ItemResponse) => {
+        setDeletingItem(null);
+        deleteItems([item]);
+    };
+
+    // ボックスの復習物をAnkiで読み込めるテキストとしてダウンロードする
+    const ankiExportMutation = useMutation({
+        mutationFn: async (box: GetBoxOutput) => {
+            const boxItems = await fetchItemsByBox(box.id);
+            downloadTextFile(`${box.name}.txt`, toAnkiText(boxItems.map((item) => ({ front: item.name, back: item.detail ?? '' })), box.name), 'text/plain');
+            return boxItems.length;
         },
-        onError: (err: any) => toast.error(t('error.deleteFailed', { message: err.message })),
-        onSettled: () => setDeletingItem(null),
+        onSuccess: (count) => toast.success(t('anki.exported', { count })),
+        onError: (err) => toast.error(t('export.error', { message: err.message })),
     });
 
     const completeReviewMutation = useMutation({
-        mutationFn: ({ itemId, reviewDateId, stepNumber }: { itemId: string; reviewDateId: string; stepNumber: number; }) => completeReviewDate({ itemId, reviewDateId, data: { step_number: stepNumber } }),
-        onSuccess: (_, _variables) => {
-            toast.success(t('notification.reviewCompleted'));
+        mutationFn: ({ itemId, reviewDateId, stepNumber, grade }: { itemId: string; reviewDateId: string; stepNumber: number; grade?: RecallGrade; }) => completeReviewDate({ itemId, reviewDateId, data: { step_number: stepNumber, grade } }),
+        onSuccess: (_, variables) => {
+            recordCompleted([variables], t('notification.reviewCompleted'));
             queryClient.invalidateQueries({ queryKey: ['items', boxId, categoryId] });
             // 完了済み復習物一覧のキャッシュも無効化
             queryClient.invalidateQueries({ queryKey: ['finishedItems', { boxId, categoryId }] });
@@ -113,8 +158,8 @@ export const Box = ({ items, isLoading, currentCategory, currentBox }: BoxProps)
 
     const incompleteReviewMutation = useMutation({
         mutationFn: ({ itemId, reviewDateId, stepNumber }: { itemId: string; reviewDateId: string; stepNumber: number; }) => incompleteReviewDate({ itemId, reviewDateId, data: { step_number: stepNumber } }),
-        onSuccess: () => {
-            toast.success(t('notification.reviewMarkedIncomplete'));
+        onSuccess: (_, variables) => {
+            recordIncompleted([variables], t('notification.reviewMarkedIncomplete'));
             queryClient.invalidateQueries({ queryKey: ['items', boxId, categoryId] });
             // 完了済み復習物一覧のキャッシュも無効化
             queryClient.invalidateQueries({ queryKey: ['finishedItems', { boxId, categoryId }] });
@@ -209,12 +254,34 @@ export const Box = ({ items, isLoading, currentCategory, currentBox }: BoxProps)
 
 
     // テーブル全体の幅を動的に計算
-    const baseWidth = 60 + 50 + nameColumnWidth + 50 + 100; // 状態+操作+復習物名+詳細+学習日
+    const baseWidth = 40 + 60 + 50 + nameColumnWidth + 50 + 100; // 選択+状態+操作+復習物名+詳細+学習日
     const reviewColumnWidth = maxColumns * 130;
     const tableWidth = baseWidth + reviewColumnWidth;
 
+    // 一覧のキーボード操作。完了・取り消しは今日の復習日に対して行う
+    const completeTodaysReview = (item: ItemResponse, grade?: RecallGrade) => {
+        const reviewDate = findTodaysReviewDate(item);
+        if (!reviewDate || reviewDate.is_completed || completeReviewMutation.isPending) return;
+        completeReviewMutation.mutate({ itemId: item.item_id, reviewDateId: reviewDate.review_date_id, stepNumber: reviewDate.step_number, grade });
+    };
+    const keyboardShortcuts: DataTableKeyboardShortcuts<ItemResponse> = {
+        // adaptiveパターンは評価を「good」として完了する
+        onComplete: (item) => completeTodaysReview(item, defaultGradeFor(item, patterns)),
+        onGrade: (item, grade) => {
+            if (isAdaptiveItem(item, patterns)) completeTodaysReview(item, grade);
+        },
+        onUndo: (item) => {
+            const reviewDate = findTodaysReviewDate(item);
+            if (!reviewDate?.is_completed || incompleteReviewMutation.isPending) return;
+            incompleteReviewMutation.mutate({ itemId: item.item_id, reviewDateId: reviewDate.review_date_id, stepNumber: reviewDate.step_number });
+        },
+        onOpenDetail: setDetailItem,
+        onEdit: setEditingItem,
+    };
+
     // テーブルのカラム定義
     const columns = React.useMemo<ColumnDef<ItemResponse>[]>(() => [
+        createSelectColumn<ItemResponse>({ selectAll: t('batch.selectAll'), selectRow: t('batch.selectRow') }),
         {
             accessorKey: 'is_finished',
             header: () => (
@@ -223,10 +290,7 @@ export const Box = ({ items, isLoading, currentCategory, currentBox }: BoxProps)
             size: 70,
 
             cell: ({ row }) => {
-                const today = format(new Date(), 'yyyy-MM-dd');
-                const todaysReviewDate = row.original.review_dates.find(
-                    (rd) => format(new Date(rd.scheduled_date), 'yyyy-MM-dd') === today,
-                );
+                const todaysReviewDate = findTodaysReviewDate(row.original);
 
                 if (!todaysReviewDate) {
                     return <span className="text-muted-foreground flex justify-center">-</span>;
@@ -242,6 +306,14 @@ export const Box = ({ items, isLoading, currentCategory, currentBox }: BoxProps)
                             {t('common.cancel')}
                         </Button>
                     );
+                } else if (isAdaptiveItem(row.original, patterns)) {
+                    // adaptiveパターンでは評価を選んでから完了させる
+                    return (
+                        <RecallGradePicker
+                            onSelect={(grade) => completeReviewMutation.mutate({ itemId: row.original.item_id, reviewDateId: todaysReviewDate.review_date_id, stepNumber: todaysReviewDate.step_number, grade })}
+                            disabled={completeReviewMutation.isPending}
+                        />
+                    );
                 } else {
                     return (
                         <Button
@@ -287,7 +359,7 @@ export const Box = ({ items, isLoading, currentCategory, currentBox }: BoxProps)
                 </div>
             ),
             size: nameColumnWidth,
-            cell: ({ row }) => <NameCell name={row.original.name} />,
+            cell: ({ row }) => <NameCell name={row.original.name} tags={row.original.tags} />,
         },
         {
             id: 'detail',
@@ -383,19 +455,21 @@ export const Box = ({ items, isLoading, currentCategory, currentBox }: BoxProps)
                 );
             },
         })),
-    ], [zustandItems, items, maxColumns, completeReviewMutation, incompleteReviewMutation, t]);
+    ], [zustandItems, items, maxColumns, completeReviewMutation, incompleteReviewMutation, patterns, t]);
 
     // --- フィルタリング処理 ---
+    const availableTags = React.useMemo(() => collectTags(displayItems), [displayItems]);
     const filteredDisplayItems = React.useMemo(() => {
-        if (filterType === 'all') return displayItems;
+        const taggedItems = displayItems.filter((item) => hasAllTags(item.tags, selectedTags));
+        if (filterType === 'all') return taggedItems;
         // 今日の復習: 今日のscheduled_dateを持つreview_dateが1つでもある復習物のみ
         const todayStr = format(new Date(), 'yyyy-MM-dd');
-        return displayItems.filter(item =>
+        return taggedItems.filter(item =>
             item.review_dates.some(rd =>
                 format(new Date(rd.scheduled_date), 'yyyy-MM-dd') === todayStr
             )
         );
-    }, [displayItems, filterType]);
+    }, [displayItems, filterType, selectedTags]);
 
     // --- ソート済み復習物リスト ---
     const sortedDisplayItems = React.useMemo(() => {
@@ -423,6 +497,12 @@ export const Box = ({ items, isLoading, currentCategory, currentBox }: BoxProps)
         }
     }, [filteredDisplayItems, itemSortOrder]);
 
+    // 選択中の復習物（絞り込みで非表示になったものは対象外）
+    const selectedItems = React.useMemo(
+        () => sortedDisplayItems.filter((item) => rowSelection[item.item_id]),
+        [sortedDisplayItems, rowSelection],
+    );
+
     return (
         <div className="h-screen flex flex-col overflow-hidden ">
             <div className="flex-1 flex flex-col overflow-hidden p-0">
@@ -463,12 +543,33 @@ export const Box = ({ items, isLoading, currentCategory, currentBox }: BoxProps)
                                 </DropdownMenuItem>
                             </DropdownMenuContent>
                         </DropdownMenu>
+                        <TagFilter tags={availableTags} selected={selectedTags} onChange={setSelectedTags} className="max-w-[160px]" />
                         <SortDropdown
                             options={itemSortOptions}
                             value={itemSortOrder}
                             onValueChange={setItemSortOrder}
                             className="w-[175px]"
                         />
+                        {/* Ankiとの取り込み・書き出し */}
+                        {(currentBox || boxId === 'unclassified' || (boxId && boxId.startsWith('unclassified-'))) && (
+                            <DropdownMenu>
+                                <DropdownMenuTrigger asChild>
+                                    <Button variant="ghost" size="icon" title="Anki">
+                                        <ArrowsUpDownIcon className="h-5 w-5" />
+                                    </Button>
+                                </DropdownMenuTrigger>
+                                <DropdownMenuContent align="end">
+                                    <DropdownMenuItem onClick={() => setAnkiImportModalOpen(true)}>
+                                        {t('anki.importTitle')}
+                                    </DropdownMenuItem>
+                                    {currentBox && (
+                                        <DropdownMenuItem onClick={() => ankiExportMutation.mutate(currentBox)} disabled={ankiExportMutation.isPending}>
+                                            {t('anki.exportTitle')}
+                                        </DropdownMenuItem>
+                                    )}
+                                </DropdownMenuContent>
+                            </DropdownMenu>
+                        )}
                         {currentBox && (
                             <>
                                 <Button variant="ghost" size="icon" onClick={() => setSummaryModalOpen(true)}>
@@ -482,6 +583,13 @@ export const Box = ({ items, isLoading, currentCategory, currentBox }: BoxProps)
                     </div>
                 </div>
 
+                {/* --- 一括操作ツールバー（選択中のみ表示） --- */}
+                <BoxBatchToolbar
+                    selectedItems={selectedItems}
+                    onSelectionChange={(itemIds) => setRowSelection(Object.fromEntries(itemIds.map((id) => [id, true])))}
+                    storeBoxId={storeBoxId || ''}
+                />
+
                 {/* --- スクロール可能なテーブル領域 --- */}
                 <Card className="flex-1 min-h-0 p-0 py-0">
                     <CardContent className="p-0 h-full ">
@@ -495,10 +603,17 @@ export const Box = ({ items, isLoading, currentCategory, currentBox }: BoxProps)
                                     data={sortedDisplayItems}
                                     enablePagination={false}
                                     maxHeight="100%"
-                                    fixedColumns={5}
+                                    fixedColumns={6}
                                     tableWidth={tableWidth}
+                                    rowSelection={rowSelection}
+                                    onRowSelectionChange={setRowSelection}
+                                    getRowId={(item) => item.item_id}
+                                    highlightedRowId={highlightedItemId}
+                                    keyboardShortcuts={keyboardShortcuts}
+                                    // 選択中の行をドラッグした場合は、選択中の復習物をまとめてサイドバーのボックスへ移動できる
+                                    onRowDragStart={(item, e) => setItemDragData(e, rowSelection[item.item_id] ? selectedItems : [item])}
                                     resizableColumn={{
-                                        index: 2, // 復習物名列（0: 状態, 1: 操作, 2: 復習物名）
+                                        index: 3, // 復習物名列（0: 選択, 1: 状態, 2: 操作, 3: 復習物名）
                                         onResizeStart: handleResizeStart,
                                         isResizing: isResizing,
                                         isHovering: isHovering,
@@ -529,8 +644,8 @@ export const Box = ({ items, isLoading, currentCategory, currentBox }: BoxProps)
                             <AlertDialogDescription>{t('item.itemDescription')}</AlertDialogDescription>
                             <AlertDialogFooter>
                                 <AlertDialogCancel>{t('common.cancel')}</AlertDialogCancel>
-                                <AlertDialogAction onClick={() => deleteMutation.mutate(deletingItem.item_id)} disabled={deleteMutation.isPending}>
-                                    {deleteMutation.isPending ? t('loading.deleting') : t('common.delete')}
+                                <AlertDialogAction onClick={() => handleDeleteItem(deletingItem)}>
+                                    {t('common.delete')}
                                 </AlertDialogAction>
                             </AlertDialogFooter>
                         </AlertDialogContent>
@@ -549,6 +664,12 @@ export const Box = ({ items, isLoading, currentCategory, currentBox }: BoxProps)
                         defaultBoxId={currentBox ? currentBox.id : boxId || ''}
                     />
                 )}
+                <AnkiImportModal
+                    isOpen={isAnkiImportModalOpen}
+                    onClose={() => setAnkiImportModalOpen(false)}
+                    defaultCategoryId={currentBox ? currentBox.category_id : categoryId !== 'unclassified' ? categoryId : null}
+                    defaultBoxId={currentBox?.id}
+                />
             </div>
         </div>
     );
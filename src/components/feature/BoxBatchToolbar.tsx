@@ -0,0 +1,245 @@
+import * as React from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import axios from 'axios';
+import { format } from 'date-fns';
+import { useTranslation } from 'react-i18next';
+import { CheckCircleIcon, ArchiveBoxArrowDownIcon, TrashIcon, ArrowsRightLeftIcon, XMarkIcon } from '@heroicons/react/24/outline';
+
+import { completeReviewDate, markItemAsFinished, moveItem } from '@/api/itemApi';
+import { useItemStore, usePatternStore } from '@/store';
+import { useItemUndo } from '@/hooks/useItemUndo';
+import { useReviewUndo } from '@/hooks/useReviewUndo';
+import { defaultGradeFor } from '@/lib/sm2';
+import { GetBoxOutput, ItemResponse } from '@/types';
+
+// UI
+import { Button } from '@/components/ui/button';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ScrollArea, ScrollBar } from '@/components/ui/scroll-area';
+import { MoveItemsModal } from '@/components/modals/MoveItemsModal';
+
+type BatchAction = 'complete' | 'finish' | 'move';
+
+// 一括操作の結果
+type BatchReport = {
+    action: BatchAction;
+    succeeded: number;
+    // 対象外としてスキップした復習物（例: 今日の復習日がない）
+    skipped: number;
+    failures: { item: ItemResponse; message: string }[];
+};
+
+interface BoxBatchToolbarProps {
+    selectedItems: ItemResponse[];
+    // 選択状態を置き換える。失敗した復習物だけを選択したままにして再実行しやすくするために使う
+    onSelectionChange: (itemIds: string[]) => void;
+    // Zustandストア上のボックスのキー
+    storeBoxId: string;
+}
+
+// 今日の未完了の復習日を探す
+const findTodaysOpenReviewDate = (item: ItemResponse) => {
+    const today = format(new Date(), 'yyyy-MM-dd');
+    return item.review_dates.find(
+        (rd) => !rd.is_completed && format(new Date(rd.scheduled_date), 'yyyy-MM-dd') === today,
+    );
+};
+
+/**
+ * ボックスのテーブルで選択した復習物に対する一括操作のツールバー。
+ * 1件ずつ順番にAPIを呼び出して進捗を表示し、終了後に成功・失敗の内訳を報告する。
+ */
+export const BoxBatchToolbar = ({ selectedItems, onSelectionChange, storeBoxId }: BoxBatchToolbarProps) => {
+    const { t } = useTranslation();
+    const queryClient = useQueryClient();
+    const { patterns } = usePatternStore();
+    const { removeItemFromBox } = useItemStore();
+    const { deleteItems, recordFinished, recordMoved } = useItemUndo();
+    const { recordCompleted } = useReviewUndo();
+
+    const [progress, setProgress] = React.useState<{ action: BatchAction; done: number; total: number } | null>(null);
+    const [report, setReport] = React.useState<BatchReport | null>(null);
+    const [isDeleteConfirmOpen, setDeleteConfirmOpen] = React.useState(false);
+    const [isMoveModalOpen, setMoveModalOpen] = React.useState(false);
+
+    const isRunning = progress !== null;
+
+    /**
+     * 対象の復習物に順番に処理を実行する。
+     * 一部が失敗しても残りの処理は続け、最後にまとめて報告する。
+     * @param removesFromList - 成功した復習物を現在のボックスの一覧から取り除くかどうか
+     * @returns 処理に成功した復習物
+     */
+    const runBatch = async (
+        action: BatchAction,
+        targets: ItemResponse[],
+        run: (item: ItemResponse) => Promise<unknown>,
+        { skipped = 0, removesFromList = false } = {},
+    ) => {
+        const failures: BatchReport['failures'] = [];
+        const succeededItems: ItemResponse[] = [];
+        setProgress({ action, done: 0, total: targets.length });
+
+        for (const [index, item] of targets.entries()) {
+            try {
+                await run(item);
+                succeededItems.push(item);
+                if (removesFromList) removeItemFromBox(storeBoxId, item.item_id);
+            } catch (err) {
+                const message = axios.isAxiosError(err) ? err.response?.data?.error || err.message : String(err);
+                failures.push({ item, message });
+            }
+            setProgress({ action, done: index + 1, total: targets.length });
+        }
+
+        setProgress(null);
+        setReport({ action, succeeded: succeededItems.length, skipped, failures });
+        onSelectionChange(failures.map((f) => f.item.item_id));
+
+        queryClient.invalidateQueries({ queryKey: ['items'] });
+        queryClient.invalidateQueries({ queryKey: ['todaysReviews'] });
+        queryClient.invalidateQueries({ queryKey: ['summary'] });
+        queryClient.invalidateQueries({ queryKey: ['finishedItems'] });
+        queryClient.invalidateQueries({ queryKey: ['allItems'] });
+        return succeededItems;
+    };
+
+    const handleComplete = async () => {
+        const targets = selectedItems.filter((item) => findTodaysOpenReviewDate(item));
+        const completedItems = await runBatch('complete', targets, (item) => {
+            const reviewDate = findTodaysOpenReviewDate(item)!;
+            return completeReviewDate({ itemId: item.item_id, reviewDateId: reviewDate.review_date_id, data: { step_number: reviewDate.step_number, grade: defaultGradeFor(item, patterns) } });
+        }, { skipped: selectedItems.length - targets.length });
+        recordCompleted(completedItems.map((item) => {
+            const reviewDate = findTodaysOpenReviewDate(item)!;
+            return { itemId: item.item_id, reviewDateId: reviewDate.review_date_id, stepNumber: reviewDate.step_number, grade: defaultGradeFor(item, patterns) };
+        }), t('undo.reviewsCompleted', { count: completedItems.length }));
+    };
+
+    const handleFinish = async () => {
+        const finishedItems = await runBatch('finish', selectedItems, (item) => markItemAsFinished(item.item_id), { removesFromList: true });
+        recordFinished(finishedItems, t('undo.itemsFinished', { count: finishedItems.length }));
+    };
+
+    // 削除は一覧からすぐに隠し、取り消し期間が過ぎてからまとめてサーバーに反映する
+    const handleDelete = () => {
+        setDeleteConfirmOpen(false);
+        deleteItems(selectedItems);
+        onSelectionChange([]);
+    };
+
+    const handleMove = async ({ categoryId, box }: { categoryId: string | null; box: GetBoxOutput | null }) => {
+        const boxId = box?.id ?? null;
+        // ボックスに移動する場合はそのボックスのパターンに合わせ、未分類の場合は現在のパターンを引き継ぐ
+        const getPatternId = (item: ItemResponse) => (box ? box.pattern_id : item.pattern_id);
+        const movedItems = await runBatch('move', selectedItems, (item) => moveItem({
+            item,
+            categoryId,
+            boxId,
+            patternId: getPatternId(item),
+        }), { removesFromList: true });
+        recordMoved(
+            movedItems.map((item) => ({ item, categoryId, boxId, patternId: getPatternId(item) })),
+            t('undo.itemsMoved', { count: movedItems.length }),
+        );
+    };
+
+    return (
+        <>
+            {(selectedItems.length > 0 || isRunning) && (
+                <div className="mb-2 flex flex-wrap items-center gap-2 rounded-md border bg-muted/40 px-3 py-2 text-sm">
+                    {isRunning ? (
+                        <div className="flex flex-1 items-center gap-3">
+                            <span>{t(`batch.running.${progress.action}`)}</span>
+                            <div className="h-2 flex-1 max-w-64 overflow-hidden rounded bg-muted">
+                                <div className="h-full bg-primary transition-all" style={{ width: `${(progress.done / Math.max(progress.total, 1)) * 100}%` }} />
+                            </div>
+                            <span className="tabular-nums text-muted-foreground">{progress.done} / {progress.total}</span>
+                        </div>
+                    ) : (
+                        <>
+                            <span className="font-medium">{t('batch.selected', { count: selectedItems.length })}</span>
+                            <div className="flex flex-1 flex-wrap items-center gap-2">
+                                <Button variant="outline" size="sm" onClick={handleComplete}>
+                                    <CheckCircleIcon className="h-4 w-4" />
+                                    {t('batch.complete')}
+                                </Button>
+                                <Button variant="outline" size="sm" onClick={handleFinish}>
+                                    <ArchiveBoxArrowDownIcon className="h-4 w-4" />
+                                    {t('batch.finish')}
+                                </Button>
+                                <Button variant="outline" size="sm" onClick={() => setMoveModalOpen(true)}>
+                                    <ArrowsRightLeftIcon className="h-4 w-4" />
+                                    {t('batch.move')}
+                                </Button>
+                                <Button variant="outline" size="sm" className="text-red-500 hover:text-red-600" onClick={() => setDeleteConfirmOpen(true)}>
+                                    <TrashIcon className="h-4 w-4" />
+                                    {t('common.delete')}
+                                </Button>
+                            </div>
+                            <Button variant="ghost" size="sm" onClick={() => onSelectionChange([])}>
+                                <XMarkIcon className="h-4 w-4" />
+                                {t('batch.clearSelection')}
+                            </Button>
+                        </>
+                    )}
+                </div>
+            )}
+
+            <AlertDialog open={isDeleteConfirmOpen} onOpenChange={setDeleteConfirmOpen}>
+                <AlertDialogContent>
+                    <AlertDialogHeader>
+                        <AlertDialogTitle>{t('batch.deleteConfirm', { count: selectedItems.length })}</AlertDialogTitle>
+                    </AlertDialogHeader>
+                    <AlertDialogDescription>{t('common.confirmDeleteDescription')}</AlertDialogDescription>
+                    <AlertDialogFooter>
+                        <AlertDialogCancel>{t('common.cancel')}</AlertDialogCancel>
+                        <AlertDialogAction onClick={handleDelete}>{t('common.delete')}</AlertDialogAction>
+                    </AlertDialogFooter>
+                </AlertDialogContent>
+            </AlertDialog>
+
+            <MoveItemsModal
+                isOpen={isMoveModalOpen}
+                onClose={() => setMoveModalOpen(false)}
+                onConfirm={handleMove}
+                itemCount={selectedItems.length}
+            />
+
+            {/* 一括操作の結果報告 */}
+            <Dialog open={!!report} onOpenChange={() => setReport(null)}>
+                <DialogContent className="sm:max-w-md">
+                    <DialogHeader>
+                        <DialogTitle>{report && t(`batch.reportTitle.${report.action}`)}</DialogTitle>
+                        <DialogDescription>
+                            {report && t('batch.reportSummary', { succeeded: report.succeeded, failed: report.failures.length })}
+                            {report && report.skipped > 0 && ` ${t('batch.reportSkipped', { count: report.skipped })}`}
+                        </DialogDescription>
+                    </DialogHeader>
+                    {report && report.failures.length > 0 && (
+                        <div className="space-y-2">
+                            <p className="text-sm text-red-500">{t('batch.failuresStillSelected')}</p>
+                            <ScrollArea className="max-h-60 rounded-md border">
+                                <ul className="divide-y text-sm">
+                                    {report.failures.map(({ item, message }) => (
+                                        <li key={item.item_id} className="p-2">
+                                            <p className="truncate font-medium" title={item.name}>{item.name}</p>
+                                            {message && <p className="break-words text-xs text-muted-foreground">{message}</p>}
+                                        </li>
+                                    ))}
+                                </ul>
+                                <ScrollBar orientation="vertical" className="!bg-transparent [&>div]:!bg-gray-600" />
+                            </ScrollArea>
+                        </div>
+                    )}
+                    <DialogFooter>
+                        <Button type="button" variant="secondary" onClick={() => setReport(null)}>
+                            {t('common.close')}
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </>
+    );
+};
@@ -0,0 +1,179 @@
+import * as React from 'react';
+import { useTranslation } from 'react-i18next';
+import { CheckCircleIcon, XCircleIcon, ForwardIcon, EyeIcon, ArrowUturnLeftIcon } from '@heroicons/react/24/outline';
+
+import { DailyReviewDate, RecallGrade } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { ScrollArea, ScrollBar } from '@/components/ui/scroll-area';
+import MarkdownContent from '@/components/shared/MarkdownContent';
+import { RecallGradeButtons } from '@/components/shared/RecallGradePicker';
+
+type SessionResult = 'done' | 'skipped';
+
+interface ReviewSessionProps {
+    // セッション開始時点の復習日リスト（完了済みは開始時に除外する）
+    reviews: DailyReviewDate[];
+    // カードから復習を完了させる。失敗時はrejectすることでカードを進めない。
+    // adaptiveパターンの復習日では、選ばれた評価がgradeとして渡される。
+    onComplete: (review: DailyReviewDate, grade?: RecallGrade) => Promise<unknown>;
+    // 復習日が評価を必要とする（adaptiveパターンの）ものかどうか
+    isAdaptive?: (review: DailyReviewDate) => boolean;
+    // セッションを終了してテーブル表示に戻る
+    onExit: () => void;
+}
+
+/**
+ * 今日の復習をフラッシュカード形式で1件ずつ進めるセッション表示。
+ * 復習物名を先に表示し、詳細は「答えを見る」で表示する。
+ * セッション中に一覧が再取得されても進行がずれないよう、開始時点のリストを保持して進める。
+ */
+export const ReviewSession = ({ reviews, onComplete, isAdaptive, onExit }: ReviewSessionProps) => {
+    const { t } = useTranslation();
+
+    // --- State ---
+    const [queue, setQueue] = React.useState<DailyReviewDate[]>(() => reviews.filter((r) => !r.is_completed));
+    const [currentIndex, setCurrentIndex] = React.useState(0);
+    const [isRevealed, setIsRevealed] = React.useState(false);
+    const [isCompleting, setIsCompleting] = React.useState(false);
+    // review_date_idをキーとして、各カードの結果を保持する
+    const [results, setResults] = React.useState<Record<string, SessionResult>>({});
+
+    const current = queue[currentIndex];
+    const isFinished = currentIndex >= queue.length;
+
+    // --- セッションのサマリー ---
+    const doneCount = Object.values(results).filter((r) => r === 'done').length;
+    const skippedCount = Object.values(results).filter((r) => r === 'skipped').length;
+    const leftCount = queue.filter((r) => !results[r.review_date_id]).length;
+
+    const goNext = () => {
+        setIsRevealed(false);
+        setCurrentIndex((prev) => prev + 1);
+    };
+
+    // --- イベントハンドラ ---
+    const handleComplete = async (grade?: RecallGrade) => {
+        if (!current) return;
+        setIsCompleting(true);
+        try {
+            await onComplete(current, grade);
+            setResults((prev) => ({ ...prev, [current.review_date_id]: 'done' }));
+            goNext();
+        } catch {
+            // エラー通知は呼び出し元のmutationで行うため、ここではカードを進めないだけ
+        } finally {
+            setIsCompleting(false);
+        }
+    };
+
+    const handleSkip = () => {
+        if (!current) return;
+        setResults((prev) => ({ ...prev, [current.review_date_id]: 'skipped' }));
+        goNext();
+    };
+
+    // スキップしたカードだけをもう一周する
+    const handleRetrySkipped = () => {
+        const skipped = queue.filter((r) => results[r.review_date_id] === 'skipped');
+        setResults((prev) => {
+            const next = { ...prev };
+            skipped.forEach((r) => delete next[r.review_date_id]);
+            return next;
+        });
+        setQueue([...queue.filter((r) => results[r.review_date_id] === 'done'), ...skipped]);
+        setCurrentIndex(queue.length - skipped.length);
+        setIsRevealed(false);
+    };
+
+    return (
+        <div className="h-full flex flex-col gap-3 p-4">
+            {/* セッションのサマリー */}
+            <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-4 text-sm">
+                    <span className="flex items-center gap-1">
+                        <CheckCircleIcon className="h-5 w-5 text-green-600" />
+                        {t('session.done')}: {doneCount}
+                    </span>
+                    <span className="flex items-center gap-1">
+                        <ForwardIcon className="h-5 w-5 text-muted-foreground" />
+                        {t('session.skipped')}: {skippedCount}
+                    </span>
+                    <span className="flex items-center gap-1">
+                        <XCircleIcon className="h-5 w-5 text-muted-foreground" />
+                        {t('session.left')}: {leftCount}
+                    </span>
+                </div>
+                <Button variant="outline" size="sm" onClick={onExit}>
+                    {t('session.exit')}
+                </Button>
+            </div>
+
+            {isFinished ? (
+                <Card className="flex-1 min-h-0 items-center justify-center text-center">
+                    <CardHeader className="w-full">
+                        <CardTitle>{t('session.finishedTitle')}</CardTitle>
+                        <CardDescription>
+                            {t('session.finishedDescription', { done: doneCount, skipped: skippedCount })}
+                        </CardDescription>
+                    </CardHeader>
+                    <CardFooter className="gap-2">
+                        {skippedCount > 0 && (
+                            <Button variant="secondary" onClick={handleRetrySkipped}>
+                                <ArrowUturnLeftIcon className="h-5 w-5 mr-2" />
+                                {t('session.retrySkipped')}
+                            </Button>
+                        )}
+                        <Button onClick={onExit}>{t('session.backToList')}</Button>
+                    </CardFooter>
+                </Card>
+            ) : (
+                <Card className="flex-1 min-h-0">
+                    <CardHeader>
+                        <CardDescription>
+                            {t('session.progress', { current: currentIndex + 1, total: queue.length })}
+                            {' / '}
+                            {t('pattern.step')} {current.step_number}
+                        </CardDescription>
+                        <CardTitle className="text-2xl break-words">{current.item_name}</CardTitle>
+                    </CardHeader>
+                    <CardContent className="flex-1 min-h-0">
+                        {isRevealed ? (
+                            <ScrollArea className="h-full max-h-[calc(100vh-420px)] rounded-md bg-muted">
+                                <div className="p-4">
+                                    <MarkdownContent content={current.detail || t('item.noDetail')} />
+                                </div>
+                                <ScrollBar orientation="vertical" className="!bg-transparent [&>div]:!bg-gray-600" />
+                            </ScrollArea>
+                        ) : (
+                            <div className="h-full flex items-center justify-center">
+                                <Button variant="outline" onClick={() => setIsRevealed(true)}>
+                                    <EyeIcon className="h-5 w-5 mr-2" />
+                                    {t('session.reveal')}
+                                </Button>
+                            </div>
+                        )}
+                    </CardContent>
+                    <CardFooter className="justify-end gap-2">
+                        <Button variant="secondary" onClick={handleSkip} disabled={isCompleting}>
+                            <ForwardIcon className="h-5 w-5 mr-2" />
+                            {t('session.skip')}
+                        </Button>
+                        {isAdaptive?.(current) ? (
+                            <RecallGradeButtons onSelect={handleComplete} disabled={isCompleting} />
+                        ) : (
+                            <Button
+                                className="bg-green-700 hover:bg-green-800 text-white"
+                                onClick={() => handleComplete()}
+                                disabled={isCompleting}
+                            >
+                                <CheckCircleIcon className="h-5 w-5 mr-2" />
+                                {isCompleting ? t('loading.updating') : t('common.finish')}
+                            </Button>
+                        )}
+                    </CardFooter>
+                </Card>
+            )}
+        </div>
+    );
+};
@@ -7,19 +7,42 @@ import Sidebar from './Sidebar';
 import { CreateItemModal } from '../modals/CreateItemModal';
 import { CreatePatternModal } from '../modals/CreatePatternModal';
 import { SettingsModal } from '../modals/SettingsModal';
+import { ImportItemsModal } from '../modals/ImportItemsModal';
+
+import { OfflineStatus } from '../shared/OfflineStatus';
+import { CommandPalette } from '../shared/CommandPalette';
+import { KeyboardShortcuts } from '../shared/KeyboardShortcuts';
 
 import { ModalProvider } from '@/contexts/ModalContext';
+import { useOfflineSync } from '@/hooks/useOfflineSync';
+import { useReviewReminder } from '@/hooks/useReviewReminder';
+import { useAppBadge } from '@/hooks/useAppBadge';
+import { flushPendingDeletions } from '@/lib/undo';
 
 const AppLayout = () => {
     const [isCreateItemModalOpen, setCreateItemModalOpen] = React.useState(false);
     const [modalContext, setModalContext] = React.useState<{ categoryId?: string; boxId?: string }>({});
     const [isCreatePatternModalOpen, setCreatePatternModalOpen] = React.useState(false);
     const [isSettingsModalOpen, setSettingsModalOpen] = React.useState(false);
+    const [isImportItemsModalOpen, setImportItemsModalOpen] = React.useState(false);
     const [sidebarOpen, setSidebarOpen] = useState(true);
     const [sidebarWidth, setSidebarWidth] = useState(220);
     const [isMobile, setIsMobile] = useState(false);
     const [isDragging, setIsDragging] = useState(false);
 
+    // オフライン中に積まれた更新リクエストを再接続時に再送する
+    useOfflineSync();
+    // 設定した時刻に今日の復習をブラウザ通知で知らせる
+    useReviewReminder();
+    // アプリのアイコンに今日の残りの復習件数を表示する
+    useAppBadge();
+
+    // ページを閉じるときに、取り消し期間中の削除を確定して送る
+    useEffect(() => {
+        window.addEventListener('pagehide', flushPendingDeletions);
+        return () => window.removeEventListener('pagehide', flushPendingDeletions);
+    }, []);
+
     useEffect(() => {
         const checkIsMobile = () => {
             setIsMobile(window.innerWidth < 640);
@@ -90,7 +113,26 @@ const AppLayout = () => {
             <SettingsModal
                 isOpen={isSettingsModalOpen}
                 onClose={() => setSettingsModalOpen(false)}
+                onOpenImportItems={() => {
+                    setSettingsModalOpen(false);
+                    setImportItemsModalOpen(true);
+                }}
+            />
+
+            <ImportItemsModal
+                isOpen={isImportItemsModalOpen}
+                onClose={() => setImportItemsModalOpen(false)}
+            />
+
+            <OfflineStatus />
+
+            <CommandPalette
+                onOpenCreateItem={() => openCreateItemModal()}
+                onOpenCreatePattern={() => setCreatePatternModalOpen(true)}
+                onOpenSettings={() => setSettingsModalOpen(true)}
+                onOpenImportItems={() => setImportItemsModalOpen(true)}
             />
+            <KeyboardShortcuts />
         </div>
     );
 };
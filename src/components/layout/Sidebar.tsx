@@ -1,10 +1,12 @@
 import { NavLink, useLocation } from 'react-router-dom';
-import { HomeIcon, DocumentPlusIcon, UserCircleIcon, ArrowRightOnRectangleIcon, InboxStackIcon, InboxIcon, SquaresPlusIcon, ChevronLeftIcon, ChevronDoubleLeftIcon, ChevronRightIcon, QuestionMarkCircleIcon, ArrowTopRightOnSquareIcon } from '@heroicons/react/24/outline';
+import { HomeIcon, DocumentPlusIcon, UserCircleIcon, ArrowRightOnRectangleIcon, InboxStackIcon, InboxIcon, SquaresPlusIcon, ChevronLeftIcon, ChevronDoubleLeftIcon, ChevronRightIcon, QuestionMarkCircleIcon, ArrowTopRightOnSquareIcon, CalendarDaysIcon, ChartBarIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
 import { Button } from '@/components/ui/button';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { ScrollArea, ScrollBar } from '@/components/ui/scroll-area';
 import { useAuth } from '@/hooks/useAuth';
+import { ITEM_DRAG_TYPE, useItemDrop } from '@/hooks/useItemDrop';
 import { useCategoryStore, useBoxStore } from '@/store';
+import { buildCategoryTree, CategoryTreeNode } from '@/lib/categoryTree';
 import { useNavigate } from 'react-router-dom';
 import { ChevronDown } from 'lucide-react';
 import React, { useState, useCallback, useRef, useEffect } from 'react';
@@ -37,6 +39,8 @@ const Sidebar = ({ onOpenCreateItem, onOpenCreatePattern, onOpenSettings, open,
     const { logout, isLoggingOut } = useAuth();
     const { categories } = useCategoryStore();
     const { boxesByCategoryId } = useBoxStore();
+    // Box画面の復習物をドラッグしてボックス・カテゴリーへ移動するためのドロップ先
+    const { dropTargetKey, getDropTargetProps } = useItemDrop();
     const navigate = useNavigate();
     const location = useLocation();
     const [expandedCategoryIds, setExpandedCategoryIds] = useState<string[]>([]);
@@ -84,6 +88,17 @@ const Sidebar = ({ onOpenCreateItem, onOpenCreatePattern, onOpenSettings, open,
         }
     }, [open]);
 
+    // 復習物のドラッグが始まったら、ドロップ先のボックス一覧が見えるようにEditセクションを開く
+    useEffect(() => {
+        const handleDragStart = (e: DragEvent) => {
+            if (e.dataTransfer?.types.includes(ITEM_DRAG_TYPE)) {
+                setEditOpen(true);
+            }
+        };
+        window.addEventListener('dragstart', handleDragStart);
+        return () => window.removeEventListener('dragstart', handleDragStart);
+    }, []);
+
     // 現在のcategoryId, boxIdをパスから抽出
     const pathParts = location.pathname.split('/');
     let currentCategoryId: string | null = null;
@@ -123,6 +138,225 @@ const Sidebar = ({ onOpenCreateItem, onOpenCreatePattern, onOpenSettings, open,
         navigate(`/today?category=${categoryId}&box=${boxId}`);
     };
 
+    // カテゴリーのツリー（サイドバーの並び順はストアの順番のまま）
+    const categoryTree = buildCategoryTree(categories);
+    // 展開時の高さの上限。サブカテゴリーを全て展開した場合の行数から求める
+    const getExpandedMaxHeight = (category: CategoryTreeNode): number =>
+        ((boxesByCategoryId[category.id]?.length || 0) + 1) * 32 + 8 + // +1 for '未分類'
+        category.children.reduce((sum, child) => sum + 36 + getExpandedMaxHeight(child), 0);
+
+    // カテゴリーと、展開時にその配下のサブカテゴリー・ボックスを再帰的に描画する
+    const renderEditCategory = (category: CategoryTreeNode): React.ReactNode => {
+        return (
+            <div key={category.id}>
+                {/* カテゴリボタン */}
+                <button
+                    className={`flex items-center w-full gap-1 mb-1 px-2 py-1 rounded transition-colors text-sm justify-start ${dropTargetKey === `category-${category.id}` ? 'ring-2 ring-inset ring-primary ' : ''}${((currentCategoryId === category.id) && (!currentBoxId || currentBoxId === undefined))
+                        ? 'text-accent-foreground bg-accent'
+                        : 'text-muted-foreground hover:bg-accent/50'
+                        }`}
+                    style={{ minHeight: 28, position: 'relative' }}
+                    onMouseEnter={() => setHoveredCategoryId(category.id)}
+                    onMouseLeave={() => setHoveredCategoryId(null)}
+                    // カテゴリーへのドロップはそのカテゴリーの未分類に移動する。ドラッグ中は配下のボックスを展開する
+                    {...getDropTargetProps(`category-${category.id}`, { categoryId: category.id, boxId: null }, () =>
+                        setExpandedCategoryIds(prev => prev.includes(category.id) ? prev : [...prev, category.id])
+                    )}
+                >
+                    <span
+                        className="flex items-center"
+                        onClick={e => {
+                            e.stopPropagation();
+                            setExpandedCategoryIds(prev =>
+                                prev.includes(category.id)
+                                    ? prev.filter(id => id !== category.id)
+                                    : [...prev, category.id]
+                            );
+                        }}
+                        style={{ minWidth: 24 }}
+                    >
+                        {hoveredCategoryId === category.id ? (
+                            expandedCategoryIds.includes(category.id) ? <ChevronDown className="w-4 h-4 mr-1" /> : <ChevronRightIcon className="w-4 h-4 mr-1" />
+                        ) : (
+                            <InboxStackIcon className="w-4 h-4 mr-1" />
+                        )}
+                    </span>
+                    <span
+                        className="flex-1 truncate cursor-pointer text-sm transition-all duration-200 overflow-hidden whitespace-nowrap text-ellipsis text-left"
+                        onClick={() => handleCategoryClick(category.id)}
+                        style={{
+                            flex: open ? 1 : 0,
+                            opacity: open ? 1 : 0,
+                            transition: 'flex 0.25s, opacity 0.25s',
+                            display: 'inline-block',
+                        }}
+                    >
+                        {category.name}
+                    </span>
+                </button>
+                <div
+                    className="ml-6 flex flex-col gap-1 transition-all duration-300 overflow-hidden"
+                    style={{ maxHeight: expandedCategoryIds.includes(category.id) ? getExpandedMaxHeight(category) : 0 }}
+                >
+                    {/* サブカテゴリー */}
+                    {category.children.map(renderEditCategory)}
+                    {/* 未分類ボックス */}
+                    <button
+                        className={`text-sm px-2 py-1 rounded transition-colors text-left relative flex items-center justify-start ${dropTargetKey === `unclassified-${category.id}` ? 'ring-2 ring-inset ring-primary ' : ''}${currentCategoryId === category.id && currentBoxId === 'unclassified'
+                            ? 'text-accent-foreground bg-accent'
+                            : 'text-muted-foreground hover:bg-accent/50'
+                            }`}
+                        onClick={() => handleBoxClick(category.id, 'unclassified')}
+                        style={{ minHeight: 28 }}
+                        {...getDropTargetProps(`unclassified-${category.id}`, { categoryId: category.id, boxId: null })}
+                    >
+                        <InboxIcon className="w-4 h-4 mr-1 flex-shrink-0" />
+                        <span
+                            className="truncate text-sm transition-all duration-200 overflow-hidden whitespace-nowrap text-ellipsis"
+                            style={{
+                                flex: open ? 1 : 0,
+                                opacity: open ? 1 : 0,
+                                transition: 'flex 0.25s, opacity 0.25s',
+                                display: 'inline-block',
+                            }}
+                        >
+                            {t('common.unclassified')}
+                        </span>
+                    </button>
+                    {/* 通常ボックス */}
+                    {(boxesByCategoryId[category.id] || []).map(box => (
+                        <button
+                            key={box.id}
+                            className={`text-sm px-2 py-1 rounded transition-colors text-left relative flex items-center justify-start ${dropTargetKey === box.id ? 'ring-2 ring-inset ring-primary ' : ''}${currentCategoryId === category.id && currentBoxId === box.id
+                                ? 'text-accent-foreground bg-accent'
+                                : 'text-muted-foreground hover:bg-accent/50'
+                                }`}
+                            onClick={() => handleBoxClick(category.id, box.id)}
+                            style={{ minHeight: 28 }}
+                            {...getDropTargetProps(box.id, { categoryId: category.id, boxId: box.id })}
+                        >
+                            <InboxIcon className="w-4 h-4 mr-1 flex-shrink-0" />
+                            <span
+                                className="truncate text-sm transition-all duration-200 overflow-hidden whitespace-nowrap text-ellipsis"
+                                style={{
+                                    flex: open ? 1 : 0,
+                                    opacity: open ? 1 : 0,
+                                    transition: 'flex 0.25s, opacity 0.25s',
+                                    display: 'inline-block',
+                                }}
+                            >
+                                {box.name}
+                            </span>
+                        </button>
+                    ))}
+                </div>
+            </div>
+        );
+    };
+
+    // 今日の復習セクションのカテゴリーを、サブカテゴリーも含めて再帰的に描画する
+    const renderTodayCategory = (category: CategoryTreeNode): React.ReactNode => {
+        return (
+            <div key={category.id}>
+                {/* カテゴリボタン */}
+                <button
+                    className={`flex items-center w-full gap-1 mb-1 px-2 py-1 rounded transition-colors text-sm justify-start ${location.pathname === '/today' && todayCategoryParam === category.id && (!todayBoxParam || todayBoxParam === 'all')
+                        ? 'text-accent-foreground bg-accent'
+                        : 'text-muted-foreground hover:bg-accent/50'
+                        }`}
+                    style={{ minHeight: 28, position: 'relative' }}
+                    onMouseEnter={() => setTodayHoveredCategoryId(category.id)}
+                    onMouseLeave={() => setTodayHoveredCategoryId(null)}
+                >
+                    <span
+                        className="flex items-center"
+                        onClick={e => {
+                            e.stopPropagation();
+                            setTodayExpandedCategoryIds(prev =>
+                                prev.includes(category.id)
+                                    ? prev.filter(id => id !== category.id)
+                                    : [...prev, category.id]
+                            );
+                        }}
+                        style={{ minWidth: 24 }}
+                    >
+                        {todayHoveredCategoryId === category.id ? (
+                            todayExpandedCategoryIds.includes(category.id) ? <ChevronDown className="w-4 h-4 mr-1" /> : <ChevronRightIcon className="w-4 h-4 mr-1" />
+                        ) : (
+                            <InboxStackIcon className="w-4 h-4 mr-1" />
+                        )}
+                    </span>
+                    <span
+                        className="flex-1 truncate cursor-pointer text-sm transition-all duration-200 overflow-hidden whitespace-nowrap text-ellipsis text-left"
+                        onClick={() => handleTodayCategoryClick(category.id)}
+                        style={{
+                            flex: open ? 1 : 0,
+                            opacity: open ? 1 : 0,
+                            transition: 'flex 0.25s, opacity 0.25s',
+                            display: 'inline-block',
+                        }}
+                    >
+                        {category.name}
+                    </span>
+                </button>
+                <div
+                    className="ml-6 flex flex-col gap-1 transition-all duration-300 overflow-hidden"
+                    style={{ maxHeight: todayExpandedCategoryIds.includes(category.id) ? getExpandedMaxHeight(category) : 0 }}
+                >
+                    {/* サブカテゴリー */}
+                    {category.children.map(renderTodayCategory)}
+                    {/* 未分類ボックス */}
+                    <button
+                        className={`text-sm px-2 py-1 rounded transition-colors text-left relative flex items-center justify-start ${location.pathname === '/today' && todayCategoryParam === category.id && todayBoxParam === 'unclassified'
+                            ? 'text-accent-foreground bg-accent'
+                            : 'text-muted-foreground hover:bg-accent/50'
+                            }`}
+                        onClick={() => handleTodayBoxClick(category.id, 'unclassified')}
+                        style={{ minHeight: 28 }}
+                    >
+                        <InboxIcon className="w-4 h-4 mr-1 flex-shrink-0" />
+                        <span
+                            className="truncate text-sm transition-all duration-200 overflow-hidden whitespace-nowrap text-ellipsis"
+                            style={{
+                                flex: open ? 1 : 0,
+                                opacity: open ? 1 : 0,
+                                transition: 'flex 0.25s, opacity 0.25s',
+                                display: 'inline-block',
+                            }}
+                        >
+                            {t('common.unclassified')}
+                        </span>
+                    </button>
+                    {/* 通常ボックス */}
+                    {(boxesByCategoryId[category.id] || []).map(box => (
+                        <button
+                            key={box.id}
+                            className={`text-sm px-2 py-1 rounded transition-colors text-left relative flex items-center justify-start ${location.pathname === '/today' && todayCategoryParam === category.id && todayBoxParam === box.id
+                                ? 'text-accent-foreground bg-accent'
+                                : 'text-muted-foreground hover:bg-accent/50'
+                                }`}
+                            onClick={() => handleTodayBoxClick(category.id, box.id)}
+                            style={{ minHeight: 28 }}
+                        >
+                            <InboxIcon className="w-4 h-4 mr-1 flex-shrink-0" />
+                            <span
+                                className="truncate text-sm transition-all duration-200 overflow-hidden whitespace-nowrap text-ellipsis"
+                                style={{
+                                    flex: open ? 1 : 0,
+                                    opacity: open ? 1 : 0,
+                                    transition: 'flex 0.25s, opacity 0.25s',
+                                    display: 'inline-block',
+                                }}
+                            >
+                                {box.name}
+                            </span>
+                        </button>
+                    ))}
+                </div>
+            </div>
+        );
+    };
+
     const handleContactClick = () => {
         const contactUrl = i18n.language === 'ja'
             ? 'https://docs.google.com/forms/d/e/1FAIpQLSfFw5rrigVARCM_B8T_dCaZagSenX-xjp41QUkqW2IncrgVEA/viewform?usp=header'
@@ -273,6 +507,84 @@ const Sidebar = ({ onOpenCreateItem, onOpenCreatePattern, onOpenSettings, open,
                             </TooltipTrigger>
                             {!open && !suppressTooltips && <TooltipContent side="right">{t('sidebar.home')}</TooltipContent>}
                         </Tooltip>
+                        <Tooltip>
+                            <TooltipTrigger asChild>
+                                <NavLink
+                                    to="/calendar"
+                                    className={({ isActive }) =>
+                                        [
+                                            "h-9 w-full flex items-center rounded pt-1 pb-1 transition-color hover:bg-accent/50 h-10",
+                                            isActive ? "bg-accent text-accent-foreground" : "text-muted-foreground hover:text-foreground h-10"
+                                        ].join(" ")
+                                    }
+                                >
+                                    <span className="flex items-center w-full h-10">
+                                        <span className="flex justify-center items-center min-w-[32px]">
+                                            <CalendarDaysIcon className="h-5 w-5" />
+                                        </span>
+                                        <span
+                                            className={`ml-2 text-sm transition-all duration-200 overflow-hidden whitespace-nowrap text-ellipsis text-muted-foreground ${open ? 'flex-1' : 'max-w-0 opacity-0'} pl-0`}
+                                            style={{ height: '20px', display: 'flex', alignItems: 'center' }}
+                                        >
+                                            {t('sidebar.calendar')}
+                                        </span>
+                                    </span>
+                                </NavLink>
+                            </TooltipTrigger>
+                            {!open && !suppressTooltips && <TooltipContent side="right">{t('sidebar.calendar')}</TooltipContent>}
+                        </Tooltip>
+                        <Tooltip>
+                            <TooltipTrigger asChild>
+                                <NavLink
+                                    to="/overdue"
+                                    className={({ isActive }) =>
+                                        [
+                                            "h-9 w-full flex items-center rounded pt-1 pb-1 transition-color hover:bg-accent/50 h-10",
+                                            isActive ? "bg-accent text-accent-foreground" : "text-muted-foreground hover:text-foreground h-10"
+                                        ].join(" ")
+                                    }
+                                >
+                                    <span className="flex items-center w-full h-10">
+                                        <span className="flex justify-center items-center min-w-[32px]">
+                                            <ExclamationTriangleIcon className="h-5 w-5" />
+                                        </span>
+                                        <span
+                                            className={`ml-2 text-sm transition-all duration-200 overflow-hidden whitespace-nowrap text-ellipsis text-muted-foreground ${open ? 'flex-1' : 'max-w-0 opacity-0'} pl-0`}
+                                            style={{ height: '20px', display: 'flex', alignItems: 'center' }}
+                                        >
+                                            {t('sidebar.overdue')}
+                                        </span>
+                                    </span>
+                                </NavLink>
+                            </TooltipTrigger>
+                            {!open && !suppressTooltips && <TooltipContent side="right">{t('sidebar.overdue')}</TooltipContent>}
+                        </Tooltip>
+                        <Tooltip>
+                            <TooltipTrigger asChild>
+                                <NavLink
+                                    to="/stats"
+                                    className={({ isActive }) =>
+                                        [
+                                            "h-9 w-full flex items-center rounded pt-1 pb-1 transition-color hover:bg-accent/50 h-10",
+                                            isActive ? "bg-accent text-accent-foreground" : "text-muted-foreground hover:text-foreground h-10"
+                                        ].join(" ")
+                                    }
+                                >
+                                    <span className="flex items-center w-full h-10">
+                                        <span className="flex justify-center items-center min-w-[32px]">
+                                            <ChartBarIcon className="h-5 w-5" />
+                                        </span>
+                                        <span
+                                            className={`ml-2 text-sm transition-all duration-200 overflow-hidden whitespace-nowrap text-ellipsis text-muted-foreground ${open ? 'flex-1' : 'max-w-0 opacity-0'} pl-0`}
+                                            style={{ height: '20px', display: 'flex', alignItems: 'center' }}
+                                        >
+                                            {t('sidebar.stats')}
+                                        </span>
+                                    </span>
+                                </NavLink>
+                            </TooltipTrigger>
+                            {!open && !suppressTooltips && <TooltipContent side="right">{t('sidebar.stats')}</TooltipContent>}
+                        </Tooltip>
                     </nav>
                 </div>
                 {/* 中央スクロール可能エリア */}
@@ -314,12 +626,13 @@ const Sidebar = ({ onOpenCreateItem, onOpenCreatePattern, onOpenSettings, open,
                                     <div className="flex flex-col gap-1 pl-2">
                                         {/* 未分類ボックス */}
                                         <button
-                                            className={`text-sm px-2 mt-1 rounded transition-colors text-left relative flex items-center ${currentCategoryId === 'unclassified' && currentBoxId === 'unclassified'
+                                            className={`text-sm px-2 mt-1 rounded transition-colors text-left relative flex items-center ${dropTargetKey === 'unclassified' ? 'ring-2 ring-inset ring-primary ' : ''}${currentCategoryId === 'unclassified' && currentBoxId === 'unclassified'
                                                 ? 'text-accent-foreground bg-accent'
                                                 : 'text-muted-foreground hover:bg-accent/50'
                                                 }`}
                                             onClick={() => handleBoxClick('unclassified', 'unclassified')}
                                             style={{ minHeight: 28, position: 'relative' }}
+                                            {...getDropTargetProps('unclassified', { categoryId: null, boxId: null })}
                                         >
                                             <InboxIcon className="w-4 h-4 mr-1 flex-shrink-0" />
                                             <span
@@ -334,106 +647,7 @@ const Sidebar = ({ onOpenCreateItem, onOpenCreatePattern, onOpenSettings, open,
                                                 {t('common.unclassified')}
                                             </span>
                                         </button>
-                                        {categories.map(category => {
-                                            const boxCount = (boxesByCategoryId[category.id]?.length || 0) + 1; // +1 for '未分類'
-                                            return (
-                                                <div key={category.id}>
-                                                    {/* カテゴリボタン */}
-                                                    <button
-                                                        className={`flex items-center w-full gap-1 mb-1 px-2 py-1 rounded transition-colors text-sm justify-start ${((currentCategoryId === category.id) && (!currentBoxId || currentBoxId === undefined))
-                                                            ? 'text-accent-foreground bg-accent'
-                                                            : 'text-muted-foreground hover:bg-accent/50'
-                                                            }`}
-                                                        style={{ minHeight: 28, position: 'relative' }}
-                                                        onMouseEnter={() => setHoveredCategoryId(category.id)}
-                                                        onMouseLeave={() => setHoveredCategoryId(null)}
-                                                    >
-                                                        <span
-                                                            className="flex items-center"
-                                                            onClick={e => {
-                                                                e.stopPropagation();
-                                                                setExpandedCategoryIds(prev =>
-                                                                    prev.includes(category.id)
-                                                                        ? prev.filter(id => id !== category.id)
-                                                                        : [...prev, category.id]
-                                                                );
-                                                            }}
-                                                            style={{ minWidth: 24 }}
-                                                        >
-                                                            {hoveredCategoryId === category.id ? (
-                                                                expandedCategoryIds.includes(category.id) ? <ChevronDown className="w-4 h-4 mr-1" /> : <ChevronRightIcon className="w-4 h-4 mr-1" />
-                                                            ) : (
-                                                                <InboxStackIcon className="w-4 h-4 mr-1" />
-                                                            )}
-                                                        </span>
-                                                        <span
-                                                            className="flex-1 truncate cursor-pointer text-sm transition-all duration-200 overflow-hidden whitespace-nowrap text-ellipsis text-left"
-                                                            onClick={() => handleCategoryClick(category.id)}
-                                                            style={{
-                                                                flex: open ? 1 : 0,
-                                                                opacity: open ? 1 : 0,
-                                                                transition: 'flex 0.25s, opacity 0.25s',
-                                                                display: 'inline-block',
-                                                            }}
-                                                        >
-                                                            {category.name}
-                                                        </span>
-                                                    </button>
-                                                    <div
-                                                        className="ml-6 flex flex-col gap-1 transition-all duration-300 overflow-hidden"
-                                                        style={{ maxHeight: expandedCategoryIds.includes(category.id) ? (boxCount * 32 + 8) : 0 }}
-                                                    >
-                                                        {/* 未分類ボックス */}
-                                                        <button
-                                                            className={`text-sm px-2 py-1 rounded transition-colors text-left relative flex items-center justify-start ${currentCategoryId === category.id && currentBoxId === 'unclassified'
-                                                                ? 'text-accent-foreground bg-accent'
-                                                                : 'text-muted-foreground hover:bg-accent/50'
-                                                                }`}
-                                                            onClick={() => handleBoxClick(category.id, 'unclassified')}
-                                                            style={{ minHeight: 28 }}
-                                                        >
-                                                            <InboxIcon className="w-4 h-4 mr-1 flex-shrink-0" />
-                                                            <span
-                                                                className="truncate text-sm transition-all duration-200 overflow-hidden whitespace-nowrap text-ellipsis"
-                                                                style={{
-                                                                    flex: open ? 1 : 0,
-                                                                    opacity: open ? 1 : 0,
-                                                                    transition: 'flex 0.25s, opacity 0.25s',
-                                                                    display: 'inline-block',
-                                                                }}
-                                                            >
-                                                                {t('common.unclassified')}
-                                                            </span>
-                                                        </button>
-                                                        {/* 通常ボックス */}
-                                                        {(boxesByCategoryId[category.id] || []).map(box => (
-                                                            <button
-                                                                key={box.id}
-                                                                className={`text-sm px-2 py-1 rounded transition-colors text-left relative flex items-center justify-start ${currentCategoryId === category.id && currentBoxId === box.id
-                                                                    ? 'text-accent-foreground bg-accent'
-                                                                    : 'text-muted-foreground hover:bg-accent/50'
-                                                                    }`}
-                                                                onClick={() => handleBoxClick(category.id, box.id)}
-                                                                style={{ minHeight: 28 }}
-                                                            >
-                                                                <InboxIcon className="w-4 h-4 mr-1 flex-shrink-0" />
-                                                                <span
-                                                                    className="truncate text-sm transition-all duration-200 overflow-hidden whitespace-nowrap text-ellipsis"
-                                                                    style={{
-                                                                        flex: open ? 1 : 0,
-                                                                        opacity: open ? 1 : 0,
-                                                                        transition: 'flex 0.25s, opacity 0.25s',
-                                                                        display: 'inline-block',
-                                                                    }}
-                                                                >
-                                                                    {box.name}
-                                                                </span>
-                                                            </button>
-                                                        ))}
-                                                    </div>
-                                                </div>
-                                            );
-                                        })}
+                                        {categoryTree.map(renderEditCategory)}
                                     </div>
                                 </div>
                             </div>
@@ -515,106 +729,7 @@ const Sidebar = ({ onOpenCreateItem, onOpenCreatePattern, onOpenSettings, open,
                                                 {t('common.unclassified')}
                                             </span>
                                         </button>
-                                        {categories.map(category => {
-                                            const boxCount = (boxesByCategoryId[category.id]?.length || 0) + 1; // +1 for '未分類'
-                                            return (
-                                                <div key={category.id}>
-                                                    {/* カテゴリボタン */}
-                                                    <button
-                                                        className={`flex items-center w-full gap-1 mb-1 px-2 py-1 rounded transition-colors text-sm justify-start ${location.pathname === '/today' && todayCategoryParam === category.id && (!todayBoxParam || todayBoxParam === 'all')
-                                                            ? 'text-accent-foreground bg-accent'
-                                                            : 'text-muted-foreground hover:bg-accent/50'
-                                                            }`}
-                                                        style={{ minHeight: 28, position: 'relative' }}
-                                                        onMouseEnter={() => setTodayHoveredCategoryId(category.id)}
-                                                        onMouseLeave={() => setTodayHoveredCategoryId(null)}
-                                                    >
-                                                        <span
-                                                            className="flex items-center"
-                                                            onClick={e => {
-                                                                e.stopPropagation();
-                                                                setTodayExpandedCategoryIds(prev =>
-                                                                    prev.includes(category.id)
-                                                                        ? prev.filter(id => id !== category.id)
-                                                                        : [...prev, category.id]
-                                                                );
-                                                            }}
-                                                            style={{ minWidth: 24 }}
-                                                        >
-                                                            {todayHoveredCategoryId === category.id ? (
-                                                                todayExpandedCategoryIds.includes(category.id) ? <ChevronDown className="w-4 h-4 mr-1" /> : <ChevronRightIcon className="w-4 h-4 mr-1" />
-                                                            ) : (
-                                                                <InboxStackIcon className="w-4 h-4 mr-1" />
-                                                            )}
-                                                        </span>
-                                                        <span
-                                                            className="flex-1 truncate cursor-pointer text-sm transition-all duration-200 overflow-hidden whitespace-nowrap text-ellipsis text-left"
-                                                            onClick={() => handleTodayCategoryClick(category.id)}
-                                                            style={{
-                                                                flex: open ? 1 : 0,
-                                                                opacity: open ? 1 : 0,
-                                                                transition: 'flex 0.25s, opacity 0.25s',
-                                                                display: 'inline-block',
-                                                            }}
-                                                        >
-                                                            {category.name}
-                                                        </span>
-                                                    </button>
-                                                    <div
-                                                        className="ml-6 flex flex-col gap-1 transition-all duration-300 overflow-hidden"
-                                                        style={{ maxHeight: todayExpandedCategoryIds.includes(category.id) ? (boxCount * 32 + 8) : 0 }}
-                                                    >
-                                                        {/* 未分類ボックス */}
-                                                        <button
-                                                            className={`text-sm px-2 py-1 rounded transition-colors text-left relative flex items-center justify-start ${location.pathname === '/today' && todayCategoryParam === category.id && todayBoxParam === 'unclassified'
-                                                                ? 'text-accent-foreground bg-accent'
-                                                                : 'text-muted-foreground hover:bg-accent/50'
-                                                                }`}
-                                                            onClick={() => handleTodayBoxClick(category.id, 'unclassified')}
-                                                            style={{ minHeight: 28 }}
-                                                        >
-                                                            <InboxIcon className="w-4 h-4 mr-1 flex-shrink-0" />
-                                                            <span
-                                                                className="truncate text-sm transition-all duration-200 overflow-hidden whitespace-nowrap text-ellipsis"
-                                                                style={{
-                                                                    flex: open ? 1 : 0,
-                                                                    opacity: open ? 1 : 0,
-                                                                    transition: 'flex 0.25s, opacity 0.25s',
-                                                                    display: 'inline-block',
-                                                                }}
-                                                            >
-                                                                {t('common.unclassified')}
-                                                            </span>
-                                                        </button>
-                                                        {/* 通常ボックス */}
-                                                        {(boxesByCategoryId[category.id] || []).map(box => (
-                                                            <button
-                                                                key={box.id}
-                                                                className={`text-sm px-2 py-1 rounded transition-colors text-left relative flex items-center justify-start ${location.pathname === '/today' && todayCategoryParam === category.id && todayBoxParam === box.id
-                                                                    ? 'text-accent-foreground bg-accent'
-                                                                    : 'text-muted-foreground hover:bg-accent/50'
-                                                                    }`}
-                                                                onClick={() => handleTodayBoxClick(category.id, box.id)}
-                                                                style={{ minHeight: 28 }}
-                                                            >
-                                                                <InboxIcon className="w-4 h-4 mr-1 flex-shrink-0" />
-                                                                <span
-                                                                    className="truncate text-sm transition-all duration-200 overflow-hidden whitespace-nowrap text-ellipsis"
-                                                                    style={{
-                                                                        flex: open ? 1 : 0,
-                                                                        opacity: open ? 1 : 0,
-                                                                        transition: 'flex 0.25s, opacity 0.25s',
-                                                                        display: 'inline-block',
-                                                                    }}
-                                                                >
-                                                                    {box.name}
-                                                                </span>
-                                                            </button>
-                                                        ))}
-                                                    </div>
-                                                </div>
-                                            );
-                                        })}
+                                        {categoryTree.map(renderTodayCategory)}
                                     </div>
                                 </div>
                             </div>
@@ -0,0 +1,333 @@
+import * as React from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import axios from 'axios';
+import { format } from 'date-fns';
+import { useTranslation } from 'react-i18next';
+import { ArrowUpTrayIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+
+import { createItem } from '@/api/itemApi';
+import { fetchCategories } from '@/api/categoryApi';
+import { fetchBoxes } from '@/api/boxApi';
+import { fetchPatterns } from '@/api/patternApi';
+import { AnkiNote, parseAnkiText } from '@/lib/anki';
+
+// UI
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ScrollArea, ScrollBar } from '../ui/scroll-area';
+
+const UNCLASSIFIED = 'UNCLASSIFIED';
+
+// 一度に並行して作成する件数
+const IMPORT_BATCH_SIZE = 5;
+
+type ImportReport = {
+    created: number;
+    // オフラインのためキューに積み、再接続時に作成するもの
+    queued: number;
+    failures: { index: number; name: string; message: string }[];
+    skipped: number;
+};
+
+type AnkiImportModalProps = {
+    isOpen: boolean;
+    onClose: () => void;
+    // 取り込み先の初期値（ボックス画面から開いた場合はそのボックス）
+    defaultCategoryId?: string | null;
+    defaultBoxId?: string | null;
+};
+
+/**
+ * Ankiから書き出したノート（タブ区切りテキスト）を復習物として取り込むモーダル。
+ * 表面を復習物名、裏面を詳細とし、選択したカテゴリー・ボックスに今日を学習日として作成する。
+ */
+export const AnkiImportModal = ({ isOpen, onClose, defaultCategoryId, defaultBoxId }: AnkiImportModalProps) => {
+    const { t } = useTranslation();
+    const queryClient = useQueryClient();
+
+    const [step, setStep] = React.useState<'upload' | 'review' | 'importing' | 'done'>('upload');
+    const [pastedText, setPastedText] = React.useState('');
+    const [notes, setNotes] = React.useState<AnkiNote[]>([]);
+    const [categoryId, setCategoryId] = React.useState(UNCLASSIFIED);
+    const [boxId, setBoxId] = React.useState(UNCLASSIFIED);
+    const [patternId, setPatternId] = React.useState(UNCLASSIFIED);
+    const [progress, setProgress] = React.useState({ done: 0, total: 0 });
+    const [report, setReport] = React.useState<ImportReport | null>(null);
+    // ファイルの読み込みに失敗した理由
+    const [uploadError, setUploadError] = React.useState<string | null>(null);
+    const fileInputRef = React.useRef<HTMLInputElement>(null);
+
+    // 開くたびに最初のステップに戻す
+    React.useEffect(() => {
+        if (isOpen) {
+            setStep('upload');
+            setPastedText('');
+            setNotes([]);
+            setReport(null);
+            setUploadError(null);
+            setCategoryId(defaultCategoryId || UNCLASSIFIED);
+            setBoxId(defaultBoxId || UNCLASSIFIED);
+            setPatternId(UNCLASSIFIED);
+        }
+    }, [isOpen, defaultCategoryId, defaultBoxId]);
+
+    const { data: categories = [] } = useQuery({ queryKey: ['categories'], queryFn: fetchCategories, enabled: isOpen });
+    const { data: patterns = [] } = useQuery({ queryKey: ['patterns'], queryFn: fetchPatterns, enabled: isOpen });
+    const { data: boxes = [] } = useQuery({
+        queryKey: ['boxes', categoryId],
+        queryFn: () => fetchBoxes(categoryId),
+        enabled: isOpen && categoryId !== UNCLASSIFIED,
+    });
+    const box = boxes.find((b) => b.id === boxId);
+
+    // 表面が空のノートは復習物名が無いため取り込まない。番号はプレビューの行番号（1始まり）
+    const validNotes = notes
+        .map((note, i) => ({ ...note, index: i + 1 }))
+        .filter((note) => note.front !== '');
+    const skippedCount = notes.length - validNotes.length;
+
+    const loadText = (text: string) => {
+        setUploadError(null);
+        try {
+            const parsed = parseAnkiText(text);
+            if (parsed.length === 0) {
+                setUploadError(t('import.errors.empty'));
+                return;
+            }
+            setNotes(parsed);
+            setStep('review');
+        } catch (err) {
+            setUploadError(t('import.errors.parseFailed', { message: err instanceof Error ? err.message : String(err) }));
+        }
+    };
+
+    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        // .apkgはSQLiteを含むZIPのため、ブラウザ上では読み込まない
+        if (file.name.toLowerCase().endsWith('.apkg')) {
+            setUploadError(t('anki.errors.apkgNotSupported'));
+            return;
+        }
+        loadText(await file.text());
+    };
+
+    const handleImport = async () => {
+        const today = format(new Date(), 'yyyy-MM-dd');
+        // ボックスに入れる場合はボックスのパターンを使う
+        const selectedPatternId = box ? box.pattern_id : patternId === UNCLASSIFIED ? null : patternId;
+
+        setStep('importing');
+        setProgress({ done: 0, total: validNotes.length });
+        const failures: ImportReport['failures'] = [];
+        let created = 0;
+        let queued = 0;
+
+        for (let i = 0; i < validNotes.length; i += IMPORT_BATCH_SIZE) {
+            const batch = validNotes.slice(i, i + IMPORT_BATCH_SIZE);
+            const results = await Promise.allSettled(batch.map((note) => createItem({
+                category_id: categoryId === UNCLASSIFIED ? null : categoryId,
+                box_id: box?.id ?? null,
+                name: note.front,
+                detail: note.back,
+                learned_date: today,
+                today,
+                is_mark_overdue_as_completed: true,
+                ...(selectedPatternId && { pattern_id: selectedPatternId }),
+            })));
+            results.forEach((result, j) => {
+                if (result.status === 'fulfilled') {
+                    // オフライン時はキューに積まれ、nullが返る
+                    if (result.value) created += 1;
+                    else queued += 1;
+                } else {
+                    const err = result.reason;
+                    const message = axios.isAxiosError(err) ? err.response?.data?.error || err.message : String(err);
+                    failures.push({ index: batch[j].index, name: batch[j].front, message });
+                }
+            });
+            setProgress({ done: Math.min(i + IMPORT_BATCH_SIZE, validNotes.length), total: validNotes.length });
+        }
+
+        setReport({ created, queued, failures, skipped: skippedCount });
+        setStep('done');
+
+        queryClient.invalidateQueries({ queryKey: ['items'] });
+        queryClient.invalidateQueries({ queryKey: ['todaysReviews'] });
+        queryClient.invalidateQueries({ queryKey: ['summary'] });
+        queryClient.invalidateQueries({ queryKey: ['allItems'] });
+    };
+
+    return (
+        <Dialog open={isOpen} onOpenChange={step === 'importing' ? undefined : onClose}>
+            <DialogContent className="w-[95vw] sm:max-w-2xl max-h-[95vh] flex flex-col">
+                <DialogHeader>
+                    <DialogTitle>{t('anki.importTitle')}</DialogTitle>
+                    <DialogDescription>{t(`anki.stepDescription.${step}`)}</DialogDescription>
+                </DialogHeader>
+
+                {step === 'upload' && (
+                    <div className="space-y-4">
+                        <input ref={fileInputRef} type="file" accept=".txt,.tsv,.csv,.apkg,text/plain,text/tab-separated-values" className="hidden" onChange={handleFileChange} />
+                        <Button type="button" variant="outline" className="h-24 w-full border-dashed" onClick={() => fileInputRef.current?.click()}>
+                            <ArrowUpTrayIcon className="h-5 w-5" />
+                            {t('anki.chooseFile')}
+                        </Button>
+                        <div className="space-y-2">
+                            <Label>{t('anki.pasteLabel')}</Label>
+                            <Textarea
+                                value={pastedText}
+                                onChange={(e) => setPastedText(e.target.value)}
+                                placeholder={'#separator:tab\n#html:true\napple\tりんご'}
+                                className="h-32 font-mono text-xs"
+                            />
+                        </div>
+                        <p className="text-xs text-muted-foreground">{t('anki.formatHint')}</p>
+                        {uploadError && <p className="text-sm text-red-500">{uploadError}</p>}
+                    </div>
+                )}
+
+                {step === 'review' && (
+                    <div className="flex min-h-0 flex-1 flex-col gap-4">
+                        {/* 取り込み先 */}
+                        <div className="grid grid-cols-1 gap-3 sm:grid-cols-3">
+                            <div className="space-y-1">
+                                <Label className="text-xs">{t('category.label')}</Label>
+                                <Select
+                                    value={categoryId}
+                                    onValueChange={(value) => {
+                                        setCategoryId(value);
+                                        setBoxId(UNCLASSIFIED);
+                                    }}
+                                >
+                                    <SelectTrigger size="sm" className="w-full">
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value={UNCLASSIFIED}>{t('common.unclassified')}</SelectItem>
+                                        {categories.map((c) => <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>)}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            <div className="space-y-1">
+                                <Label className="text-xs">{t('box.label')}</Label>
+                                <Select value={boxId} onValueChange={setBoxId} disabled={categoryId === UNCLASSIFIED}>
+                                    <SelectTrigger size="sm" className="w-full">
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value={UNCLASSIFIED}>{t('common.unclassified')}</SelectItem>
+                                        {boxes.map((b) => <SelectItem key={b.id} value={b.id}>{b.name}</SelectItem>)}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            <div className="space-y-1">
+                                <Label className="text-xs">{t('pattern.reviewPattern')}</Label>
+                                {/* ボックスに入れる場合はボックスのパターンが使われる */}
+                                <Select value={box ? box.pattern_id ?? UNCLASSIFIED : patternId} onValueChange={setPatternId} disabled={!!box}>
+                                    <SelectTrigger size="sm" className="w-full">
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value={UNCLASSIFIED}>{t('pattern.unset')}</SelectItem>
+                                        {patterns.map((p) => <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>)}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                        </div>
+
+                        <p className="text-sm">
+                            {t('anki.previewSummary', { total: notes.length, valid: validNotes.length, invalid: skippedCount })}
+                        </p>
+
+                        {/* プレビュー */}
+                        <ScrollArea className="min-h-0 flex-1 max-h-[45vh] rounded-md border">
+                            <Table>
+                                <TableHeader>
+                                    <TableRow>
+                                        <TableHead className="w-12">#</TableHead>
+                                        <TableHead>{t('anki.front')}</TableHead>
+                                        <TableHead>{t('anki.back')}</TableHead>
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {notes.map((note, index) => (
+                                        <TableRow key={index} className={note.front === '' ? 'bg-red-500/5' : undefined}>
+                                            <TableCell className="text-muted-foreground">{index + 1}</TableCell>
+                                            <TableCell className="max-w-56 truncate" title={note.front}>
+                                                {note.front || <span className="text-xs text-red-500">{t('validation.itemNameRequired')}</span>}
+                                            </TableCell>
+                                            <TableCell className="max-w-72 truncate text-muted-foreground" title={note.back}>{note.back || '-'}</TableCell>
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                            <ScrollBar orientation="vertical" className="!bg-transparent [&>div]:!bg-gray-600" />
+                        </ScrollArea>
+                    </div>
+                )}
+
+                {step === 'importing' && (
+                    <div className="space-y-2 py-6">
+                        <div className="h-2 w-full overflow-hidden rounded bg-muted">
+                            <div className="h-full bg-primary transition-all" style={{ width: `${(progress.done / Math.max(progress.total, 1)) * 100}%` }} />
+                        </div>
+                        <p className="text-center text-sm text-muted-foreground tabular-nums">{progress.done} / {progress.total}</p>
+                    </div>
+                )}
+
+                {step === 'done' && report && (
+                    <div className="space-y-3">
+                        <p className="text-sm">{t('import.reportSummary', { created: report.created, failed: report.failures.length, skipped: report.skipped })}</p>
+                        {report.queued > 0 && (
+                            <p className="text-sm text-muted-foreground">{t('import.reportQueued', { count: report.queued })}</p>
+                        )}
+                        {report.failures.length > 0 && (
+                            <ScrollArea className="max-h-60 rounded-md border">
+                                <ul className="divide-y text-sm">
+                                    {report.failures.map((failure) => (
+                                        <li key={failure.index} className="flex gap-2 p-2">
+                                            <ExclamationTriangleIcon className="h-4 w-4 shrink-0 text-red-500" />
+                                            <div className="min-w-0">
+                                                <p className="truncate font-medium">#{failure.index} {failure.name}</p>
+                                                <p className="break-words text-xs text-muted-foreground">{failure.message}</p>
+                                            </div>
+                                        </li>
+                                    ))}
+                                </ul>
+                                <ScrollBar orientation="vertical" className="!bg-transparent [&>div]:!bg-gray-600" />
+                            </ScrollArea>
+                        )}
+                    </div>
+                )}
+
+                <DialogFooter>
+                    {step === 'upload' && (
+                        <>
+                            <Button type="button" variant="outline" onClick={onClose}>{t('common.cancel')}</Button>
+                            <Button type="button" onClick={() => loadText(pastedText)} disabled={!pastedText.trim()}>
+                                {t('import.next')}
+                            </Button>
+                        </>
+                    )}
+                    {step === 'review' && (
+                        <>
+                            <Button type="button" variant="outline" onClick={() => setStep('upload')}>{t('import.back')}</Button>
+                            <Button type="button" onClick={handleImport} disabled={validNotes.length === 0}>
+                                {t('import.importRows', { count: validNotes.length })}
+                            </Button>
+                        </>
+                    )}
+                    {step === 'done' && (
+                        <Button type="button" onClick={onClose}>{t('common.close')}</Button>
+                    )}
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+};
@@ -18,6 +18,7 @@ import {
 import { Separator } from '@/components/ui/separator';
 import { Skeleton } from '../ui/skeleton';
 import { ScrollArea, ScrollBar } from '../ui/scroll-area';
+import { ExportCalendarModal } from './ExportCalendarModal';
 
 type BoxSummaryModalProps = {
     isOpen: boolean;
@@ -30,6 +31,7 @@ export const BoxSummaryModal = ({ isOpen, onClose, box, itemCount }: BoxSummaryM
     const { t } = useTranslation();
     const { categories } = useCategoryStore();
     const { patterns, setPatterns } = usePatternStore();
+    const [isExportCalendarModalOpen, setExportCalendarModalOpen] = React.useState(false);
 
     const { data: fetchedPatterns, isSuccess, isLoading } = useQuery({
         queryKey: ['patterns'],
@@ -119,12 +121,21 @@ export const BoxSummaryModal = ({ isOpen, onClose, box, itemCount }: BoxSummaryM
                     </ScrollArea>
                     <DialogFooter className="justify-end">
                         <div className="flex gap-3 absolute right-3 bottom-3">
+                            <Button type="button" variant="outline" onClick={() => setExportCalendarModalOpen(true)}>
+                                {t('calendarExport.open')}
+                            </Button>
                             <Button type="button" variant="outline" onClick={onClose}>
                                 {t('common.close')}
                             </Button>
                         </div>
                     </DialogFooter>
                 </div>
+                <ExportCalendarModal
+                    isOpen={isExportCalendarModalOpen}
+                    onClose={() => setExportCalendarModalOpen(false)}
+                    defaultCategoryId={box.category_id}
+                    defaultBoxId={box.id}
+                />
             </DialogContent>
         </Dialog>
     );
@@ -1,3 +1,4 @@
+import * as React from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
@@ -29,30 +30,39 @@ import {
     FormMessage,
 } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
+import { ParentCategorySelect } from '@/components/shared/ParentCategorySelect';
 import { ScrollArea, ScrollBar } from '../ui/scroll-area';
 
 const createCategorySchema = (t: TFunction) => z.object({
     name: z.string().min(1, t('validation.categoryNameRequired')),
+    parent_id: z.string().nullable(),
 });
 
 type CreateCategoryModalProps = {
     isOpen: boolean;
     onClose: () => void;
+    // サブカテゴリーとして作成する場合の親カテゴリー
+    parentId?: string | null;
 };
 
 /**
  * 新しいカテゴリーを作成するためのモーダルコンポーネント。
  */
-export const CreateCategoryModal = ({ isOpen, onClose }: CreateCategoryModalProps) => {
+export const CreateCategoryModal = ({ isOpen, onClose, parentId = null }: CreateCategoryModalProps) => {
     const { t } = useTranslation();
     const queryClient = useQueryClient();
     const addCategoryToStore = useCategoryStore((state) => state.addCategory);
 
     const form = useForm<z.infer<ReturnType<typeof createCategorySchema>>>({
         resolver: zodResolver(createCategorySchema(t)),
-        defaultValues: { name: '' },
+        defaultValues: { name: '', parent_id: parentId },
     });
 
+    // 開くたびに、指定された親カテゴリーで初期化する
+    React.useEffect(() => {
+        if (isOpen) form.reset({ name: '', parent_id: parentId });
+    }, [isOpen, parentId, form]);
+
     // カテゴリー作成APIを呼び出すためのmutationを定義
     const mutation = useMutation({
         mutationFn: (data: CreateCategoryInput) => createCategory(data),
@@ -77,7 +87,7 @@ export const CreateCategoryModal = ({ isOpen, onClose }: CreateCategoryModalProp
 
     return (
         <Dialog open={isOpen} onOpenChange={onClose}>
-            <DialogContent className="w-[95vw] max-w-lg h-[250px] max-h-[95vh] flex flex-col">
+            <DialogContent className="w-[95vw] max-w-lg h-[330px] max-h-[95vh] flex flex-col">
                 <div className="h-full flex flex-col ">
                     <div className="flex-1 flex flex-col ">
                         <DialogHeader>
@@ -105,6 +115,17 @@ export const CreateCategoryModal = ({ isOpen, onClose }: CreateCategoryModalProp
                                                 </FormItem>
                                             )}
                                         />
+                                        <FormField
+                                            control={form.control}
+                                            name="parent_id"
+                                            render={({ field }) => (
+                                                <FormItem>
+                                                    <FormLabel className="inline-block pointer-events-none select-none">{t('category.parent')}</FormLabel>
+                                                    <ParentCategorySelect value={field.value} onChange={field.onChange} />
+                                                    <FormMessage />
+                                                </FormItem>
+                                            )}
+                                        />
                                     </div>
                                     <ScrollBar orientation="vertical" className="!bg-transparent [&>div]:!bg-gray-600" />
                                 </ScrollArea>
@@ -22,6 +22,7 @@ import { useItemStore } from '@/store/itemStore';
 
 // 型定義とユーティリティ
 import { cn } from '@/lib/utils';
+import { createItemSchema } from '@/lib/itemSchema';
 import { CreateItemRequest } from '@/types';
 
 // 定数
@@ -32,27 +33,15 @@ import { Button } from '@/components/ui/button';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
-import { Textarea } from '@/components/ui/textarea';
+import { MarkdownEditor } from '@/components/shared/MarkdownEditor';
+import { TagInput } from '@/components/shared/TagInput';
+import { collectTags } from '@/lib/tags';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Calendar } from '@/components/ui/calendar';
 import { ScrollArea, ScrollBar } from '../ui/scroll-area';
 import { SelectPatternModal } from './SelectPatternModal';
-
-const createItemSchema = (t: (key: string) => string) => z.object({
-    name: z.string().min(1, t('validation.itemNameRequired')),
-    detail: z.string().optional(),
-    learned_date: z.date({ required_error: t('validation.learningDateRequired') }),
-    category_id: z.union([
-        z.string().uuid(t('validation.selectValidCategory')),
-        z.literal("UNCLASSIFIED")
-    ]).nullable().optional(),
-    box_id: z.union([
-        z.string().uuid(t('validation.selectValidBox')),
-        z.literal("UNCLASSIFIED")
-    ]).nullable().optional(),
-    pattern_id: z.string().uuid(t('validation.selectValidPattern')).nullable().optional(),
-});
+import { WorkloadForecast } from '@/components/shared/WorkloadForecast';
 
 type CreateItemModalProps = {
     isOpen: boolean;
@@ -70,6 +59,7 @@ export const CreateItemModal = ({ isOpen, onClose, defaultCategoryId, defaultBox
         defaultValues: {
             name: '',
             detail: '',
+            tags: [],
             learned_date: new Date(),
             category_id: (defaultCategoryId && defaultCategoryId !== UNCLASSIFIED_ID) ? defaultCategoryId : 'UNCLASSIFIED',
             box_id: (defaultBoxId && defaultBoxId !== UNCLASSIFIED_ID) ? defaultBoxId : 'UNCLASSIFIED',
@@ -83,6 +73,9 @@ export const CreateItemModal = ({ isOpen, onClose, defaultCategoryId, defaultBox
     const { categories, setCategories } = useCategoryStore();
     const { boxesByCategoryId, setBoxesForCategory } = useBoxStore();
     const { patterns, setPatterns } = usePatternStore();
+    // タグの入力候補として、読み込み済みの復習物のタグを使う
+    const itemsByBoxId = useItemStore((state) => state.itemsByBoxId);
+    const tagSuggestions = React.useMemo(() => collectTags(Object.values(itemsByBoxId).flat()), [itemsByBoxId]);
 
     // watchedCategoryIdに紐づくボックスリストをストアから取得
     // 未分類選択（UNCLASSIFIED）の場合は空配列を返す（未分類ボックスはAPI経由で別途管理）
@@ -148,6 +141,12 @@ export const CreateItemModal = ({ isOpen, onClose, defaultCategoryId, defaultBox
         },
 
         onSuccess: (createdItem, variables) => {
+            // オフライン時はキューに積まれ、再接続時に作成される
+            if (!createdItem) {
+                toast.info(t('offline.queued'));
+                onClose();
+                return;
+            }
             toast.success(t('notification.itemCreated'));
             // --- invalidate & zustand即時反映 ---
             // 通常ボックス
@@ -176,6 +175,7 @@ export const CreateItemModal = ({ isOpen, onClose, defaultCategoryId, defaultBox
             }
             queryClient.invalidateQueries({ queryKey: ['todaysReviews'] });
             queryClient.invalidateQueries({ queryKey: ['summary'] });
+            queryClient.invalidateQueries({ queryKey: ['allItems'] });
             onClose();
         },
         onError: (err) => {
@@ -194,6 +194,7 @@ export const CreateItemModal = ({ isOpen, onClose, defaultCategoryId, defaultBox
             box_id: values.box_id === 'UNCLASSIFIED' ? null : values.box_id,
             name: values.name,
             detail: values.detail,
+            tags: values.tags,
             learned_date: format(values.learned_date, "yyyy-MM-dd"),
             today: format(new Date(), "yyyy-MM-dd"),
             // 過去の復習日を完了扱いにするかどうかのフラグ
@@ -211,6 +212,7 @@ export const CreateItemModal = ({ isOpen, onClose, defaultCategoryId, defaultBox
             form.reset({
                 name: '',
                 detail: '',
+                tags: [],
                 learned_date: new Date(),
                 category_id: (defaultCategoryId && defaultCategoryId !== UNCLASSIFIED_ID) ? defaultCategoryId : 'UNCLASSIFIED',
                 box_id: (defaultBoxId && defaultBoxId !== UNCLASSIFIED_ID) ? defaultBoxId : 'UNCLASSIFIED',
@@ -221,6 +223,7 @@ export const CreateItemModal = ({ isOpen, onClose, defaultCategoryId, defaultBox
             form.reset({
                 name: '',
                 detail: '',
+                tags: [],
                 learned_date: new Date(),
                 category_id: 'UNCLASSIFIED',
                 box_id: 'UNCLASSIFIED',
@@ -244,6 +247,7 @@ export const CreateItemModal = ({ isOpen, onClose, defaultCategoryId, defaultBox
 
     // pattern_idのwatch
     const watchedPatternId = form.watch('pattern_id');
+    const watchedLearnedDate = form.watch('learned_date');
 
     // pattern_idが変わったらパターン名を更新
     React.useEffect(() => {
@@ -257,7 +261,7 @@ export const CreateItemModal = ({ isOpen, onClose, defaultCategoryId, defaultBox
 
     return (
         <Dialog open={isOpen} onOpenChange={onClose}>
-            <DialogContent className="w-[95vw] max-w-lg h-[700px] max-h-[95vh] flex flex-col">
+            <DialogContent className="w-[95vw] max-w-lg md:max-w-3xl h-[700px] max-h-[95vh] flex flex-col">
                 <div className="h-full flex flex-col overflow-hidden">
                     <div className="flex-1 flex flex-col overflow-hidden p-0">
                         <DialogHeader>
@@ -285,7 +289,18 @@ export const CreateItemModal = ({ isOpen, onClose, defaultCategoryId, defaultBox
                                                 <FormLabel className="inline-block pointer-events-none select-none">{t('item.detailOptional')}</FormLabel>
                                                 <div className="w-full">
                                                     <FormControl>
-                                                        <Textarea {...field} />
+                                                        <MarkdownEditor {...field} value={field.value ?? ''} />
+                                                    </FormControl>
+                                                </div>
+                                                <FormMessage />
+                                            </FormItem>
+                                        )} />
+                                        <FormField name="tags" control={form.control} render={({ field }) => (
+                                            <FormItem>
+                                                <FormLabel className="inline-block pointer-events-none select-none">{t('tags.label')}</FormLabel>
+                                                <div className="w-full">
+                                                    <FormControl>
+                                                        <TagInput value={field.value ?? []} onChange={field.onChange} suggestions={tagSuggestions} />
                                                     </FormControl>
                                                 </div>
                                                 <FormMessage />
@@ -422,7 +437,12 @@ export const CreateItemModal = ({ isOpen, onClose, defaultCategoryId, defaultBox
                                                 />
                                             </FormItem>
                                         )} />
-
+                                        {/* 選択中のパターンを適用した場合の負荷予測 */}
+                                        <WorkloadForecast
+                                            patternId={watchedPatternId}
+                                            learnedDate={watchedLearnedDate || new Date()}
+                                            onSelectPattern={isPatternDisabled ? undefined : (pattern) => form.setValue('pattern_id', pattern.id)}
+                                        />
                                     </div>
                                     <ScrollBar orientation="vertical" className="!bg-transparent [&>div]:!bg-gray-600" />
                                 </ScrollArea>
@@ -8,6 +8,9 @@ import { NumberInput } from "@heroui/number-input";
 import { createPattern } from '@/api/patternApi';
 import { usePatternStore } from '@/store';
 import { CreatePatternRequest, TargetWeight } from '@/types';
+import { DEFAULT_EASE_FACTOR } from '@/lib/sm2';
+import { adaptivePatternSchemaFields, MAX_INTERVAL_DAYS } from '@/lib/patternSchema';
+import { PATTERN_TEMPLATES } from '@/constants';
 import { useTranslation } from 'react-i18next';
 
 // UI
@@ -18,11 +21,14 @@ import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { FaPlusCircle, FaTrashAlt } from "react-icons/fa";
 import { ScrollArea, ScrollBar } from '../ui/scroll-area';
+import { PatternTimeline } from '@/components/shared/PatternTimeline';
+import { AdaptivePatternFields } from '@/components/shared/AdaptivePatternFields';
 import { TFunction } from 'i18next';
 
 const patternSchema = (t: TFunction) => z.object({
     name: z.string().min(1, t('validation.patternNameRequired')),
     target_weight: z.enum(['heavy', 'normal', 'light', 'unset']),
+    ...adaptivePatternSchemaFields,
     // `steps`はオブジェクトの配列として定義する
     steps: z.array(z.object({
         // `coerce`を使い、入力された文字列を数値に変換してからバリデーションする
@@ -33,13 +39,25 @@ const patternSchema = (t: TFunction) => z.object({
 type CreatePatternModalProps = {
     isOpen: boolean;
     onClose: () => void;
+    // 既存パターンの複製などで、フォームに事前に入力しておく値
+    initialValues?: CreatePatternRequest;
 };
 
+// フォームの初期値。指定が無い場合はステップを1つだけ表示しておく。
+const toFormValues = (initialValues?: CreatePatternRequest) => ({
+    name: initialValues?.name ?? '',
+    target_weight: initialValues?.target_weight ?? 'normal',
+    kind: initialValues?.kind ?? 'fixed',
+    initial_ease_factor: initialValues?.initial_ease_factor ?? DEFAULT_EASE_FACTOR,
+    steps: initialValues ? initialValues.steps.map((step) => ({ interval_days: step.interval_days })) : [{ interval_days: 1 }],
+});
+
 /**
  * 新しいパターンを作成するためのモーダル。
  * react-hook-formのuseFieldArrayを使い、動的にステップの数を増減させる機能を持つ。
+ * 組み込みのテンプレートからステップを読み込むこともできる。
  */
-export const CreatePatternModal = ({ isOpen, onClose }: CreatePatternModalProps) => {
+export const CreatePatternModal = ({ isOpen, onClose, initialValues }: CreatePatternModalProps) => {
     const { t } = useTranslation();
 
     const schema = patternSchema(t);
@@ -49,20 +67,28 @@ export const CreatePatternModal = ({ isOpen, onClose }: CreatePatternModalProps)
 
     const form = useForm<z.infer<typeof schema>>({
         resolver: zodResolver(schema),
-        // フォームの初期値。ステップは最低1つ表示しておく。
-        defaultValues: {
-            name: '',
-            target_weight: 'normal',
-            steps: [{ interval_days: 1 }],
-        },
+        defaultValues: toFormValues(initialValues),
     });
 
     // 動的なフォームフィールド（ステップ）を管理するためのフック
-    const { fields, append, remove, insert } = useFieldArray({
+    const { fields, append, remove, insert, replace } = useFieldArray({
         control: form.control,
         name: "steps", // 'steps'という名前のフィールド配列を操作する
     });
 
+    const watchedSteps = form.watch('steps');
+    // 種類によってステップの見出しを切り替える
+    const kind = form.watch('kind');
+
+    // テンプレートのステップと重さを読み込む。名前が未入力の場合はテンプレート名を入れる
+    const applyTemplate = (template: typeof PATTERN_TEMPLATES[number]) => {
+        replace(template.steps.map((days) => ({ interval_days: days })));
+        form.setValue('target_weight', template.target_weight);
+        if (!form.getValues('name')) {
+            form.setValue('name', t(`patternTemplate.${template.id}.name`));
+        }
+    };
+
     // ステップ間に追加する関数
     function insertStepBetween(index: number) {
         insert(index + 1, { interval_days: 1 });
@@ -102,16 +128,19 @@ export const CreatePatternModal = ({ isOpen, onClose }: CreatePatternModalProps)
             return;
         }
 
-        // ステップサイズチェック（32768以上）
-        const hasLargeStep = stepValues.some((value) => value >= 32768);
+        // ステップサイズチェック（上限を超えるもの）
+        const hasLargeStep = stepValues.some((value) => value > MAX_INTERVAL_DAYS);
         if (hasLargeStep) {
             toast.error(t('pattern.steoSizeError'));
             return;
         }
 
         // APIが要求する形式にデータを整形する
+        const { initial_ease_factor, ...rest } = values;
         const data: CreatePatternRequest = {
-            ...values,
+            ...rest,
+            // 容易度はadaptiveの場合のみ送る
+            ...(values.kind === 'adaptive' && { initial_ease_factor }),
             target_weight: values.target_weight as TargetWeight,
             steps: values.steps.map((step, index) => ({
                 // step_numberは配列のインデックスから生成する
@@ -122,12 +151,12 @@ export const CreatePatternModal = ({ isOpen, onClose }: CreatePatternModalProps)
         mutation.mutate(data);
     };
 
-    // モーダルが閉じられたときにフォームをリセット
+    // モーダルが開かれたときに、初期値でフォームをリセット
     React.useEffect(() => {
-        if (!isOpen) {
-            form.reset();
+        if (isOpen) {
+            form.reset(toFormValues(initialValues));
         }
-    }, [isOpen, form]);
+    }, [isOpen, initialValues, form]);
 
     return (
         <Dialog open={isOpen} onOpenChange={onClose}>
@@ -148,6 +177,24 @@ export const CreatePatternModal = ({ isOpen, onClose }: CreatePatternModalProps)
                                 <FormMessage />
                             </FormItem>
                         )} />
+                        <div className="space-y-1">
+                            <p className="text-sm font-medium select-none">{t('pattern.templates')}</p>
+                            <div className="flex flex-wrap gap-2">
+                                {PATTERN_TEMPLATES.map((template) => (
+                                    <Button
+                                        key={template.id}
+                                        type="button"
+                                        variant="outline"
+                                        size="sm"
+                                        title={t(`patternTemplate.${template.id}.description`)}
+                                        onClick={() => applyTemplate(template)}
+                                    >
+                                        {t(`patternTemplate.${template.id}.name`)}
+                                        <span className="text-xs text-muted-foreground">{template.steps.join('-')}</span>
+                                    </Button>
+                                ))}
+                            </div>
+                        </div>
                         <FormField control={form.control} name="target_weight" render={({ field }) => (
                             <FormItem>
                                 <FormLabel className="inline-block pointer-events-none select-none">{t('pattern.weight')}</FormLabel>
@@ -165,9 +212,10 @@ export const CreatePatternModal = ({ isOpen, onClose }: CreatePatternModalProps)
                                 <FormMessage />
                             </FormItem>
                         )} />
+                        <AdaptivePatternFields />
                         <FormMessage />
                         <div className="flex items-center gap-2 mb-2">
-                            <FormLabel className="whitespace-nowrap inline-block pointer-events-none select-none">{t('pattern.steps')}</FormLabel>
+                            <FormLabel className="whitespace-nowrap inline-block pointer-events-none select-none">{kind === 'adaptive' ? t('pattern.initialSteps') : t('pattern.steps')}</FormLabel>
                             <Button type="button" variant="outline" size="sm" className="flex items-center gap-1" onClick={() => append({ interval_days: 1 })}>
                                 <FaPlusCircle className="h-4 w-4" /> {t('common.create')}
                             </Button>
@@ -178,6 +226,10 @@ export const CreatePatternModal = ({ isOpen, onClose }: CreatePatternModalProps)
                         <div className="flex-1 min-h-0">
                             <ScrollArea className="w-full h-full border-t">
                                 <div className="space-y-2 pt-2">
+                                    <PatternTimeline
+                                        steps={watchedSteps.map((step) => step.interval_days)}
+                                        onChange={(index, days) => form.setValue(`steps.${index}.interval_days`, days, { shouldDirty: true })}
+                                    />
                                     <div className="max-w-full">
                                         <div className="flex flex-wrap gap-x-0 mb-0 pr-0 pl-0 mr-0 ml-0 gap-y-4 pb-4">
                                             {fields.map((field, index) => {
@@ -9,6 +9,7 @@ import { useTranslation } from 'react-i18next';
 import { updateBox, deleteBox } from '@/api/boxApi';
 import { fetchPatterns } from '@/api/patternApi';
 import { useBoxStore, usePatternStore } from '@/store';
+import { useUndo } from '@/hooks/useUndo';
 import { GetBoxOutput, GetCategoryOutput, PatternResponse, UpdateBoxInput } from '@/types';
 
 // UI
@@ -43,6 +44,7 @@ import {
 import { Input } from '@/components/ui/input';
 
 import { SelectPatternModal } from './SelectPatternModal';
+import { WorkloadForecast } from '@/components/shared/WorkloadForecast';
 import NameCell from '@/components/shared/NameCell';
 import { ScrollArea, ScrollBar } from '../ui/scroll-area';
 import { TFunction } from 'i18next';
@@ -63,7 +65,8 @@ type EditBoxModalProps = {
 // 既存の復習物ボックスを編集・削除するためのモーダル。
 export const EditBoxModal = ({ isOpen, onClose, box, category }: EditBoxModalProps) => {
     const queryClient = useQueryClient();
-    const { updateBox: updateInStore, removeBox: removeFromStore } = useBoxStore();
+    const { addBox: addToStore, updateBox: updateInStore, removeBox: removeFromStore } = useBoxStore();
+    const { scheduleDelete } = useUndo();
     const { setPatterns } = usePatternStore();
     const { t } = useTranslation();
 
@@ -118,16 +121,25 @@ export const EditBoxModal = ({ isOpen, onClose, box, category }: EditBoxModalPro
         },
     });
 
-    const deleteMutation = useMutation({
-        mutationFn: () => deleteBox({ categoryId: category.id, boxId: box.id }),
-        onSuccess: () => {
-            queryClient.invalidateQueries({ queryKey: ['boxes', category.id] });
-            removeFromStore(category.id, box.id);
-            toast.success(t('notification.boxDeleted'));
-            onClose();
-        },
-        onError: (error: any) => toast.error(`Delete failed: ${error.message}`),
-    });
+    // 削除は取り消し期間が過ぎてからサーバーに反映する
+    const handleDelete = () => {
+        scheduleDelete({
+            targetIds: [box.id],
+            label: t('undo.boxDeleted', { name: box.name }),
+            hide: () => {
+                removeFromStore(category.id, box.id);
+                queryClient.invalidateQueries({ queryKey: ['boxes', category.id] });
+            },
+            restore: () => {
+                addToStore(category.id, box);
+                queryClient.invalidateQueries({ queryKey: ['boxes', category.id] });
+            },
+            commit: ({ keepalive }) => deleteBox({ categoryId: category.id, boxId: box.id, keepalive }),
+        });
+        onClose();
+    };
+
+    const watchedPatternId = form.watch('pattern_id');
 
     const handleSelectPattern = (pattern: PatternResponse) => {
         form.setValue('pattern_id', pattern.id);
@@ -142,7 +154,7 @@ export const EditBoxModal = ({ isOpen, onClose, box, category }: EditBoxModalPro
     return (
         <>
             <Dialog open={isOpen} onOpenChange={onClose}>
-                <DialogContent className="w-[95vw] max-w-lg h-[350px] max-h-[95vh] flex flex-col">
+                <DialogContent className="w-[95vw] max-w-lg h-[620px] max-h-[95vh] flex flex-col">
                     <div className="h-full flex flex-col ">
                         <div className="flex-1 flex flex-col ">
                             <DialogHeader>
@@ -177,6 +189,12 @@ export const EditBoxModal = ({ isOpen, onClose, box, category }: EditBoxModalPro
                                                     {selectedPatternName}
                                                 </Button>
                                             </FormItem>
+                                            {/* このボックスに今日復習物を追加した場合の負荷予測 */}
+                                            <WorkloadForecast
+                                                patternId={watchedPatternId}
+                                                learnedDate={new Date()}
+                                                onSelectPattern={handleSelectPattern}
+                                            />
                                         </div>
                                         <ScrollBar orientation="vertical" className="!bg-transparent [&>div]:!bg-gray-600" />
                                     </ScrollArea>
@@ -192,11 +210,10 @@ export const EditBoxModal = ({ isOpen, onClose, box, category }: EditBoxModalPro
                                                     <AlertDialogFooter>
                                                         <AlertDialogCancel>{t('common.cancel')}</AlertDialogCancel>
                                                         <AlertDialogAction
-                                                            onClick={() => deleteMutation.mutate()}
-                                                            disabled={deleteMutation.isPending}
+                                                            onClick={handleDelete}
                                                             className="bg-destructive text-white hover:bg-destructive/90"
                                                         >
-                                                            {deleteMutation.isPending ? t('loading.deleting') : t('common.delete')}
+                                                            {t('common.delete')}
                                                         </AlertDialogAction>
                                                     </AlertDialogFooter>
                                                 </AlertDialogContent>
@@ -8,6 +8,7 @@ import type { TFunction } from 'i18next';
 
 import { updateCategory, deleteCategory } from '@/api/categoryApi';
 import { useCategoryStore } from '@/store';
+import { useUndo } from '@/hooks/useUndo';
 import { GetCategoryOutput, UpdateCategoryInput } from '@/types';
 
 // UI
@@ -39,12 +40,14 @@ import {
     FormMessage,
 } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
+import { ParentCategorySelect } from '@/components/shared/ParentCategorySelect';
 import { ScrollArea, ScrollBar } from '../ui/scroll-area';
 
 
 // フォームのバリデーションルール
 const createCategorySchema = (t: TFunction) => z.object({
     name: z.string().min(1, t('validation.categoryNameRequired')),
+    parent_id: z.string().nullable(),
 });
 
 // このモーダルが受け取るPropsの型定義
@@ -59,15 +62,19 @@ type EditCategoryModalProps = {
  */
 export const EditCategoryModal = ({ isOpen, onClose, category }: EditCategoryModalProps) => {
     const queryClient = useQueryClient();
-    const { updateCategory: updateInStore, removeCategory: removeFromStore } = useCategoryStore();
+    const { categories, addCategory: addToStore, updateCategory: updateInStore, removeCategory: removeFromStore } = useCategoryStore();
+    const { scheduleDelete } = useUndo();
     const { t } = useTranslation();
 
     // フォームの初期化。編集対象のカテゴリー名をデフォルト値として設定する
     const form = useForm<z.infer<ReturnType<typeof createCategorySchema>>>({
         resolver: zodResolver(createCategorySchema(t)),
-        values: { name: category.name },
+        values: { name: category.name, parent_id: category.parent_id ?? null },
     });
 
+    // 直下のサブカテゴリー。削除時は削除するカテゴリーの親へ移す
+    const childCategories = categories.filter(c => c.parent_id === category.id);
+
     // カテゴリー更新APIを呼び出すためのmutation
     const updateMutation = useMutation({
         mutationFn: (data: UpdateCategoryInput) => updateCategory({ id: category.id, data }),
@@ -81,17 +88,39 @@ export const EditCategoryModal = ({ isOpen, onClose, category }: EditCategoryMod
         onError: (error) => toast.error(`Update failed: ${error.message}`),
     });
 
-    // カテゴリー削除APIを呼び出すためのmutation
-    const deleteMutation = useMutation({
-        mutationFn: () => deleteCategory(category.id),
-        onSuccess: () => {
-            queryClient.invalidateQueries({ queryKey: ['categories'] });
-            removeFromStore(category.id);
-            toast.success(t('notification.categoryDeleted'));
-            onClose();
-        },
-        onError: (error) => toast.error(`Delete failed: ${error.message}`),
-    });
+    // カテゴリーの削除。削除自体は取り消し期間が過ぎてからサーバーに反映する
+    const handleDelete = () => {
+        // 子カテゴリーを指定した親の下へ移す
+        const moveChildren = (parentId: string | null) =>
+            Promise.all(childCategories.map(child =>
+                updateCategory({ id: child.id, data: { name: child.name, parent_id: parentId } })
+            ))
+                .then((movedChildren) => movedChildren.forEach(updateInStore))
+                .finally(() => queryClient.invalidateQueries({ queryKey: ['categories'] }));
+        // 直近の子カテゴリーの移動。削除を確定する前に完了を待つ
+        let moving: Promise<void> = Promise.resolve();
+
+        scheduleDelete({
+            targetIds: [category.id],
+            label: t('undo.categoryDeleted', { name: category.name }),
+            // やり直したときも、子カテゴリーを親の親へ移してから削除する
+            hide: () => {
+                removeFromStore(category.id);
+                moving = moveChildren(category.parent_id ?? null);
+                moving.catch((error) => toast.error(t('error.deleteFailed', { message: error.message })));
+            },
+            restore: () => {
+                addToStore(category);
+                moving = moveChildren(category.id);
+                moving.catch((error) => toast.error(t('undo.failed', { message: error.message })));
+            },
+            commit: async ({ keepalive }) => {
+                await moving;
+                await deleteCategory(category.id, { keepalive });
+            },
+        });
+        onClose();
+    };
 
     // 保存ボタンが押されたときの処理
     const onSubmit = (values: z.infer<ReturnType<typeof createCategorySchema>>) => {
@@ -100,7 +129,7 @@ export const EditCategoryModal = ({ isOpen, onClose, category }: EditCategoryMod
 
     return (
         <Dialog open={isOpen} onOpenChange={onClose}>
-            <DialogContent className="w-[95vw] max-w-lg h-[250px] max-h-[95vh] flex flex-col">
+            <DialogContent className="w-[95vw] max-w-lg h-[330px] max-h-[95vh] flex flex-col">
                 <div className="h-full flex flex-col ">
                     <div className="flex-1 flex flex-col ">
                         <DialogHeader className=" text-ellipsis  whitespace-nowrap">
@@ -127,6 +156,17 @@ export const EditCategoryModal = ({ isOpen, onClose, category }: EditCategoryMod
                                                 </FormItem>
                                             )}
                                         />
+                                        <FormField
+                                            control={form.control}
+                                            name="parent_id"
+                                            render={({ field }) => (
+                                                <FormItem>
+                                                    <FormLabel className="inline-block pointer-events-none select-none">{t('category.parent')}</FormLabel>
+                                                    <ParentCategorySelect value={field.value} onChange={field.onChange} categoryId={category.id} />
+                                                    <FormMessage />
+                                                </FormItem>
+                                            )}
+                                        />
                                     </div>
                                     <ScrollBar orientation="vertical" className="!bg-transparent [&>div]:!bg-gray-600" />
                                 </ScrollArea>
@@ -143,16 +183,18 @@ export const EditCategoryModal = ({ isOpen, onClose, category }: EditCategoryMod
                                             <AlertDialogContent>
                                                 <AlertDialogHeader>
                                                     <AlertDialogTitle>{t('category.delete')}</AlertDialogTitle>
-                                                    <AlertDialogDescription>{t('category.deleteDescription')}</AlertDialogDescription>
+                                                    <AlertDialogDescription>
+                                                        {t('category.deleteDescription')}
+                                                        {childCategories.length > 0 && ` ${t('category.deleteSubcategories', { count: childCategories.length })}`}
+                                                    </AlertDialogDescription>
                                                 </AlertDialogHeader>
                                                 <AlertDialogFooter>
                                                     <AlertDialogCancel>{t('common.cancel')}</AlertDialogCancel>
                                                     <AlertDialogAction
-                                                        onClick={() => deleteMutation.mutate()}
-                                                        disabled={deleteMutation.isPending}
+                                                        onClick={handleDelete}
                                                         className="bg-destructive text-white hover:bg-destructive/90"
                                                     >
-                                                        {deleteMutation.isPending ? t('loading.deleting') : t('common.delete')}
+                                                        {t('common.delete')}
                                                     </AlertDialogAction>
                                                 </AlertDialogFooter>
                                             </AlertDialogContent>
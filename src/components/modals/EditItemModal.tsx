@@ -11,13 +11,15 @@ import { TFunction } from 'i18next';
 import * as React from 'react';
 
 // API関数
-import { updateItem, deleteItem, markItemAsFinished } from '@/api/itemApi';
+import { updateItem, markItemAsFinished, moveItem } from '@/api/itemApi';
 import { fetchCategories } from '@/api/categoryApi';
 import { fetchBoxes } from '@/api/boxApi';
 import { fetchPatterns } from '@/api/patternApi';
 
 // Zustandストア
 import { useItemStore } from '@/store';
+import { useItemUndo } from '@/hooks/useItemUndo';
+import { useUndo } from '@/hooks/useUndo';
 
 // 型定義とユーティリティ
 import { ItemResponse, UpdateItemRequest } from '@/types';
@@ -28,7 +30,9 @@ import { Button } from '@/components/ui/button';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage, FormDescription } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
-import { Textarea } from '@/components/ui/textarea';
+import { MarkdownEditor } from '@/components/shared/MarkdownEditor';
+import { TagInput } from '@/components/shared/TagInput';
+import { collectTags } from '@/lib/tags';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Calendar } from '@/components/ui/calendar';
@@ -39,6 +43,7 @@ import { ScrollArea, ScrollBar } from '../ui/scroll-area';
 const createItemSchema = (t: TFunction) => z.object({
     name: z.string().min(1, t('validation.itemNameRequired')),
     detail: z.string().optional(),
+    tags: z.array(z.string()).optional(),
     learned_date: z.date({ required_error: t('validation.learningDateRequired') }),
     category_id: z.union([
         z.string().uuid(t('validation.selectValidCategory')),
@@ -63,7 +68,11 @@ export const EditItemModal = ({ isOpen, onClose, item }: EditItemModalProps) =>
     const itemSchema = React.useMemo(() => createItemSchema(t), [t]);
 
     const queryClient = useQueryClient();
-    const { updateItemInBox, removeItemFromBox, addItemToBox } = useItemStore();
+    const { updateItemInBox, removeItemFromBox, addItemToBox, itemsByBoxId } = useItemStore();
+    const { deleteItems, recordFinished } = useItemUndo();
+    const { record } = useUndo();
+    // タグの入力候補として、読み込み済みの復習物のタグを使う
+    const tagSuggestions = React.useMemo(() => collectTags(Object.values(itemsByBoxId).flat()), [itemsByBoxId]);
 
     // Zustandストアのキー計算関数
     const getStoreBoxId = (boxId: string | null | undefined, categoryId: string | null | undefined) => {
@@ -81,6 +90,7 @@ export const EditItemModal = ({ isOpen, onClose, item }: EditItemModalProps) =>
         values: {
             name: item.name,
             detail: item.detail || '',
+            tags: item.tags ?? [],
             learned_date: new Date(item.learned_date),
             category_id: item.category_id || 'UNCLASSIFIED',
             box_id: item.box_id || 'UNCLASSIFIED',
@@ -174,7 +184,22 @@ export const EditItemModal = ({ isOpen, onClose, item }: EditItemModalProps) =>
     const updateMutation = useMutation({
         mutationFn: (data: UpdateItemRequest) => updateItem({ itemId: item.item_id, data }),
         onSuccess: (updatedItem, variables) => {
-            toast.success(t('notification.itemUpdated'));
+            // 別のカテゴリー・ボックスに移動した場合は、トーストから編集前の状態に戻せるようにする
+            if (item.box_id !== variables.box_id || item.category_id !== variables.category_id) {
+                const invalidateItemQueries = () => {
+                    queryClient.invalidateQueries({ queryKey: ['items'] });
+                    queryClient.invalidateQueries({ queryKey: ['allItems'] });
+                    queryClient.invalidateQueries({ queryKey: ['todaysReviews'] });
+                    queryClient.invalidateQueries({ queryKey: ['summary'] });
+                };
+                record({
+                    label: t('undo.itemMoved', { name: updatedItem.name }),
+                    undo: () => moveItem({ item, categoryId: item.category_id, boxId: item.box_id, patternId: item.pattern_id }).then(invalidateItemQueries),
+                    redo: () => updateItem({ itemId: item.item_id, data: variables }).then(invalidateItemQueries),
+                });
+            } else {
+                toast.success(t('notification.itemUpdated'));
+            }
 
             // 重要：APIレスポンスにreview_datesが不完全な場合、元のデータで補完
             const enrichedUpdatedItem = {
@@ -281,27 +306,16 @@ export const EditItemModal = ({ isOpen, onClose, item }: EditItemModalProps) =>
         },
     });
 
-    const deleteMutation = useMutation({
-        mutationFn: () => deleteItem(item.item_id),
-        onSuccess: () => {
-            toast.success(t('notification.itemDeleted'));
-            queryClient.invalidateQueries({ queryKey: ['items', item.box_id] });
-            if (item.box_id) {
-                removeItemFromBox(item.box_id, item.item_id);
-            }
-            onClose();
-        },
-        onError: (err: any) => {
-            toast.error(
-                t('error.deleteFailed', { message: err?.message || '' })
-            );
-        },
-    });
+    // 削除は取り消し期間が過ぎてからサーバーに反映される
+    const handleDelete = () => {
+        deleteItems([item]);
+        onClose();
+    };
 
     const finishMutation = useMutation({
         mutationFn: () => markItemAsFinished(item.item_id),
         onSuccess: () => {
-            toast.success(t('notification.markItemAsFinished'));
+            recordFinished([item], t('notification.markItemAsFinished'));
 
             // 1. ストアから復習物を削除（完了済み復習物は通常リストに表示しない）
             const storeBoxId = getStoreBoxId(item.box_id, item.category_id);
@@ -340,7 +354,7 @@ export const EditItemModal = ({ isOpen, onClose, item }: EditItemModalProps) =>
 
     return (
         <Dialog open={isOpen} onOpenChange={onClose}>
-            <DialogContent className="w-[95vw] max-w-lg h-[850px] max-h-[95vh] flex flex-col">
+            <DialogContent className="w-[95vw] max-w-lg md:max-w-3xl h-[850px] max-h-[95vh] flex flex-col">
                 <div className="h-full flex flex-col">
                     <div className="flex-1 flex flex-col">
                         <DialogHeader>
@@ -368,7 +382,18 @@ export const EditItemModal = ({ isOpen, onClose, item }: EditItemModalProps) =>
                                                 <FormLabel className="inline-block pointer-events-none select-none">{t('item.detailOptional')}</FormLabel>
                                                 <div className=" w-full">
                                                     <FormControl>
-                                                        <Textarea {...field} />
+                                                        <MarkdownEditor {...field} value={field.value ?? ''} itemId={item.item_id} />
+                                                    </FormControl>
+                                                </div>
+                                                <FormMessage />
+                                            </FormItem>
+                                        )} />
+                                        <FormField name="tags" control={form.control} render={({ field }) => (
+                                            <FormItem>
+                                                <FormLabel className="inline-block pointer-events-none select-none">{t('tags.label')}</FormLabel>
+                                                <div className="w-full">
+                                                    <FormControl>
+                                                        <TagInput value={field.value ?? []} onChange={field.onChange} suggestions={tagSuggestions} />
                                                     </FormControl>
                                                 </div>
                                                 <FormMessage />
@@ -539,11 +564,10 @@ export const EditItemModal = ({ isOpen, onClose, item }: EditItemModalProps) =>
                                                 <AlertDialogFooter>
                                                     <AlertDialogCancel>{t('common.cancel')}</AlertDialogCancel>
                                                     <AlertDialogAction
-                                                        onClick={() => deleteMutation.mutate()}
-                                                        disabled={deleteMutation.isPending}
+                                                        onClick={handleDelete}
                                                         className="bg-destructive text-white hover:bg-destructive/90"
                                                     >
-                                                        {deleteMutation.isPending ? t('loading.deleting') : t('common.delete')}
+                                                        {t('common.delete')}
                                                     </AlertDialogAction>
                                                 </AlertDialogFooter>
                                             </AlertDialogContent>
@@ -1,15 +1,21 @@
+import * as React from 'react';
 import { useForm, useFieldArray } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { toast } from 'sonner';
-import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { NumberInput } from "@heroui/number-input";
 import { FaPlusCircle, FaTrashAlt } from "react-icons/fa";
 import { useTranslation } from 'react-i18next';
 import type { TFunction } from 'i18next';
 
-import { updatePattern, deletePattern } from '@/api/patternApi';
+import { updatePattern, deletePattern, fetchPatternUsage } from '@/api/patternApi';
+import { updateBox } from '@/api/boxApi';
+import { moveItem } from '@/api/itemApi';
 import { usePatternStore } from '@/store';
+import { countChangedReviewDates, countPendingReviewDates } from '@/lib/patternUsage';
+import { DEFAULT_EASE_FACTOR } from '@/lib/sm2';
+import { adaptivePatternSchemaFields, MAX_INTERVAL_DAYS } from '@/lib/patternSchema';
 import { PatternResponse, UpdatePatternRequest, TargetWeight, UpdatePatternStepField } from '@/types';
 
 import { Button } from '@/components/ui/button';
@@ -19,10 +25,13 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { ScrollArea, ScrollBar } from '../ui/scroll-area';
+import { PatternTimeline } from '@/components/shared/PatternTimeline';
+import { AdaptivePatternFields } from '@/components/shared/AdaptivePatternFields';
 
 const createPatternSchema = (t: TFunction) => z.object({
     name: z.string().min(1, t('validation.patternNameRequired')),
     target_weight: z.enum(['heavy', 'normal', 'light', 'unset']),
+    ...adaptivePatternSchemaFields,
     steps: z.array(z.object({
         step_id: z.string().uuid().optional(),
         interval_days: z.coerce.number(),
@@ -38,18 +47,52 @@ type EditPatternModalProps = {
 /**
  * 既存のパターンを編集・削除するためのモーダル。
  * react-hook-formのuseFieldArrayを使い、動的にステップの数を増減させる機能を持つ。
+ * パターンを使っているボックス・復習物を表示し、ステップの変更や削除の前に影響を確認して、別のパターンへ付け替えられる。
  */
 export const EditPatternModal = ({ isOpen, onClose, pattern }: EditPatternModalProps) => {
     const queryClient = useQueryClient();
-    const { updatePattern: updateInStore, removePattern: removeFromStore } = usePatternStore();
+    const { patterns, updatePattern: updateInStore, removePattern: removeFromStore } = usePatternStore();
     const { t } = useTranslation();
 
+    // 影響の確認待ちの更新内容。ステップの変更で予定日が変わる復習日がある場合にセットする
+    const [pendingUpdate, setPendingUpdate] = React.useState<UpdatePatternRequest | null>(null);
+    // 変更・削除の前に、使っているボックス・復習物を付け替える先のパターン。'none'の場合は付け替えない
+    const [reassignTo, setReassignTo] = React.useState('none');
+
+    // このパターンを使っているボックス・復習物
+    const { data: usage, isLoading: isUsageLoading } = useQuery({
+        queryKey: ['patternUsage', pattern.id],
+        queryFn: () => fetchPatternUsage(pattern.id),
+        enabled: isOpen,
+    });
+    const dependentCount = usage ? usage.boxes.length + usage.items.length : 0;
+    const pendingReviewCount = usage ? countPendingReviewDates(usage.items) : 0;
+    const otherPatterns = patterns.filter((p) => p.id !== pattern.id);
+
+    // 使っているボックス・復習物を別のパターンに付け替える。1件ずつ順に更新し、失敗した時点で中断する
+    const reassignDependents = async (toPatternId: string) => {
+        if (!usage) return;
+        for (const box of usage.boxes) {
+            await updateBox({ categoryId: box.category_id, boxId: box.id, data: { name: box.name, pattern_id: toPatternId } });
+        }
+        for (const item of usage.items) {
+            await moveItem({ item, categoryId: item.category_id, boxId: item.box_id, patternId: toPatternId });
+        }
+        queryClient.invalidateQueries({ queryKey: ['boxes'] });
+        queryClient.invalidateQueries({ queryKey: ['items'] });
+        queryClient.invalidateQueries({ queryKey: ['allItems'] });
+        queryClient.invalidateQueries({ queryKey: ['todaysReviews'] });
+        queryClient.invalidateQueries({ queryKey: ['summary'] });
+    };
+
     // フォームの初期化。propsで渡されたpatternデータで初期値を設定する
     const form = useForm<z.infer<ReturnType<typeof createPatternSchema>>>({
         resolver: zodResolver(createPatternSchema(t)),
         values: {
             name: pattern.name,
             target_weight: pattern.target_weight,
+            kind: pattern.kind ?? 'fixed',
+            initial_ease_factor: pattern.initial_ease_factor ?? DEFAULT_EASE_FACTOR,
             steps: pattern.steps.map(s => ({
                 step_id: s.pattern_step_id,
                 interval_days: s.interval_days
@@ -62,12 +105,21 @@ export const EditPatternModal = ({ isOpen, onClose, pattern }: EditPatternModalP
         control: form.control,
         name: "steps",
     });
+    const watchedSteps = form.watch('steps');
+
+    // 種類によってステップの見出しを切り替える
+    const kind = form.watch('kind');
 
     // パターン更新のmutation
     const updateMutation = useMutation({
-        mutationFn: (data: UpdatePatternRequest) => updatePattern({ id: pattern.id, data }),
+        mutationFn: async (data: UpdatePatternRequest) => {
+            if (reassignTo !== 'none') await reassignDependents(reassignTo);
+            return updatePattern({ id: pattern.id, data });
+        },
         onSuccess: (updatedPattern) => {
             queryClient.invalidateQueries({ queryKey: ['patterns'] });
+            queryClient.invalidateQueries({ queryKey: ['patternUsage', pattern.id] });
+            setPendingUpdate(null);
             updateInStore(updatedPattern);
             toast.success(t('notification.patternUpdated'));
             onClose();
@@ -83,9 +135,13 @@ export const EditPatternModal = ({ isOpen, onClose, pattern }: EditPatternModalP
 
     // パターン削除のmutation
     const deleteMutation = useMutation({
-        mutationFn: () => deletePattern(pattern.id),
+        mutationFn: async () => {
+            if (reassignTo !== 'none') await reassignDependents(reassignTo);
+            await deletePattern(pattern.id);
+        },
         onSuccess: () => {
             queryClient.invalidateQueries({ queryKey: ['patterns'] });
+            queryClient.removeQueries({ queryKey: ['patternUsage', pattern.id] });
             removeFromStore(pattern.id);
             toast.success(t('notification.patternDeleted'));
             onClose();
@@ -117,8 +173,8 @@ export const EditPatternModal = ({ isOpen, onClose, pattern }: EditPatternModalP
             toast.error(t('pattern.stepOrderError'));
             return;
         }
-        // ステップサイズチェック（32768以上）
-        const hasLargeStep = stepValues.some((value) => value >= 32768);
+        // ステップサイズチェック（上限を超えるもの）
+        const hasLargeStep = stepValues.some((value) => value > MAX_INTERVAL_DAYS);
         if (hasLargeStep) {
             toast.error(t('pattern.steoSizeError'));
             return;
@@ -126,12 +182,15 @@ export const EditPatternModal = ({ isOpen, onClose, pattern }: EditPatternModalP
         // 変更有無判定
         const isNameChanged = values.name !== pattern.name;
         const isWeightChanged = values.target_weight !== pattern.target_weight;
+        // 容易度はadaptiveの場合のみ比較する
+        const isKindChanged = values.kind !== (pattern.kind ?? 'fixed')
+            || (values.kind === 'adaptive' && values.initial_ease_factor !== (pattern.initial_ease_factor ?? DEFAULT_EASE_FACTOR));
         // ステップ比較（数・順序・値）
         const origSteps = pattern.steps.map(s => s.interval_days);
         const newSteps = values.steps.map(s => s.interval_days);
         const isStepChanged = origSteps.length !== newSteps.length || origSteps.some((v, i) => v !== newSteps[i]);
 
-        if (!isNameChanged && !isWeightChanged && !isStepChanged) {
+        if (!isNameChanged && !isWeightChanged && !isKindChanged && !isStepChanged) {
             toast.info(t('common.noChanges'));
             return;
         }
@@ -139,21 +198,52 @@ export const EditPatternModal = ({ isOpen, onClose, pattern }: EditPatternModalP
         const data: UpdatePatternRequest = {
             name: values.name,
             target_weight: values.target_weight as TargetWeight,
+            kind: values.kind,
+            // 容易度はadaptiveの場合のみ送る
+            ...(values.kind === 'adaptive' && { initial_ease_factor: values.initial_ease_factor }),
             steps: values.steps.map((step, index) => ({
                 step_id: step.step_id || '', // 新規ステップの場合はIDが空
                 step_number: index + 1,
                 interval_days: step.interval_days,
             })) as UpdatePatternStepField[],
         };
+
+        // 予定日が変わる復習日がある場合は、影響を確認してから更新する
+        if (isStepChanged && usage && countChangedReviewDates(usage.items, origSteps, newSteps) > 0) {
+            setReassignTo('none');
+            setPendingUpdate(data);
+            return;
+        }
         updateMutation.mutate(data);
     };
 
+    // 付け替え先のパターンを選ぶセレクト。使っているボックス・復習物がある場合のみ表示する
+    const reassignSelect = dependentCount > 0 && (
+        <div className="space-y-1">
+            <p className="text-sm font-medium">{t('patternUsage.reassignTo')}</p>
+            <Select value={reassignTo} onValueChange={setReassignTo}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                    <SelectItem value="none">{t('patternUsage.noReassign')}</SelectItem>
+                    {otherPatterns.map((p) => (
+                        <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+                    ))}
+                </SelectContent>
+            </Select>
+        </div>
+    );
+
     return (
         <Dialog open={isOpen} onOpenChange={onClose}>
             <DialogContent className="w-screen max-w-none sm:max-w-none min-w-0 h-[700px] max-h-full flex flex-col">
                 <DialogHeader>
                     <DialogTitle className=" border-b pb-2">{t('pattern.edit')}</DialogTitle>
                     <DialogDescription>{pattern.name}</DialogDescription>
+                    <p className="text-xs text-muted-foreground">
+                        {isUsageLoading
+                            ? t('patternUsage.loading')
+                            : usage && t('patternUsage.summary', { boxes: usage.boxes.length, items: usage.items.length, reviews: pendingReviewCount })}
+                    </p>
                 </DialogHeader>
                 <Form {...form}>
                     <form onSubmit={form.handleSubmit(onSubmit)} className="flex flex-col flex-1 space-y-2 min-h-0">
@@ -185,8 +275,9 @@ export const EditPatternModal = ({ isOpen, onClose, pattern }: EditPatternModalP
                                 <FormMessage />
                             </FormItem>
                         )} />
+                        <AdaptivePatternFields />
                         <div className="flex items-center gap-2 mb-2">
-                            <FormLabel className="whitespace-nowrap inline-block pointer-events-none select-none">{t('pattern.steps')}</FormLabel>
+                            <FormLabel className="whitespace-nowrap inline-block pointer-events-none select-none">{kind === 'adaptive' ? t('pattern.initialSteps') : t('pattern.steps')}</FormLabel>
                             <Button type="button" variant="outline" size="sm" className="flex items-center gap-1" onClick={() => append({ interval_days: 1 })}>
                                 <FaPlusCircle className="h-4 w-4" /> {t('common.create')}
                             </Button>
@@ -197,7 +288,10 @@ export const EditPatternModal = ({ isOpen, onClose, pattern }: EditPatternModalP
                         <div className="flex-1 min-h-0">
                             <ScrollArea className="w-full h-full border-t">
                                 <div className="space-y-2 pt-2">
-
+                                    <PatternTimeline
+                                        steps={watchedSteps.map((step) => step.interval_days)}
+                                        onChange={(index, days) => form.setValue(`steps.${index}.interval_days`, days, { shouldDirty: true })}
+                                    />
                                     <div className="max-w-full">
                                         <div className="flex flex-wrap gap-x-0 mb-0 pr-0 pl-0 mr-0 ml-0 gap-y-4 pb-4">
                                             {fields.map((field, index) => {
@@ -252,7 +346,7 @@ export const EditPatternModal = ({ isOpen, onClose, pattern }: EditPatternModalP
                         </div>
                         <div className="bottom-0 right-0">
                             <DialogFooter>
-                                <AlertDialog>
+                                <AlertDialog onOpenChange={(open) => open && setReassignTo('none')}>
                                     <AlertDialogTrigger asChild>
                                         <Button variant="destructive" className="absolute left-3 bottom-3">{t('common.delete')}</Button>
                                     </AlertDialogTrigger>
@@ -261,6 +355,12 @@ export const EditPatternModal = ({ isOpen, onClose, pattern }: EditPatternModalP
                                             <AlertDialogTitle>{t('common.confirmDelete', { name: pattern.name, defaultValue: t('box.deleteCompletely', { name: pattern.name, defaultValue: `本当に「${pattern.name}」を削除しますか？` }) })}</AlertDialogTitle>
                                         </AlertDialogHeader>
                                         <AlertDialogDescription>{t('pattern.deleteDescription')}</AlertDialogDescription>
+                                        {dependentCount > 0 && usage && (
+                                            <p className="text-sm text-destructive">
+                                                {t('patternUsage.deleteImpact', { boxes: usage.boxes.length, items: usage.items.length, reviews: pendingReviewCount })}
+                                            </p>
+                                        )}
+                                        {reassignSelect}
                                         <AlertDialogFooter>
                                             <AlertDialogCancel>{t('common.cancel')}</AlertDialogCancel>
                                             <AlertDialogAction
@@ -286,6 +386,31 @@ export const EditPatternModal = ({ isOpen, onClose, pattern }: EditPatternModalP
                     </form>
                 </Form>
 
+                {/* ステップ変更の影響の確認 */}
+                <AlertDialog open={!!pendingUpdate} onOpenChange={(open) => !open && setPendingUpdate(null)}>
+                    <AlertDialogContent>
+                        <AlertDialogHeader>
+                            <AlertDialogTitle>{t('patternUsage.updateTitle')}</AlertDialogTitle>
+                            <AlertDialogDescription>
+                                {usage && pendingUpdate && t('patternUsage.updateImpact', {
+                                    items: usage.items.length,
+                                    reviews: countChangedReviewDates(usage.items, pattern.steps.map((s) => s.interval_days), pendingUpdate.steps.map((s) => s.interval_days)),
+                                })}
+                            </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        {reassignSelect}
+                        <AlertDialogFooter>
+                            <AlertDialogCancel>{t('common.cancel')}</AlertDialogCancel>
+                            <AlertDialogAction
+                                onClick={() => pendingUpdate && updateMutation.mutate(pendingUpdate)}
+                                disabled={updateMutation.isPending}
+                            >
+                                {updateMutation.isPending ? t('loading.saving') : t('common.save')}
+                            </AlertDialogAction>
+                        </AlertDialogFooter>
+                    </AlertDialogContent>
+                </AlertDialog>
+
             </DialogContent>
         </Dialog>
     );
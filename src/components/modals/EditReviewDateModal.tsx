@@ -79,6 +79,7 @@ export const EditReviewDateModal = ({ isOpen, onClose, data }: EditReviewDateMod
             toast.success(t('notification.reviewDateUpdated'));
             queryClient.invalidateQueries({ queryKey: ['items', data?.item.box_id] });
             queryClient.invalidateQueries({ queryKey: ['todaysReviews'] });
+            queryClient.invalidateQueries({ queryKey: ['allItems'] });
             if (data?.item.box_id && updatedItemData) {
                 // APIレスポンスは復習日更新の結果のみを返すため、元の復習物データとマージする
                 if (updatedItemData.review_dates) {
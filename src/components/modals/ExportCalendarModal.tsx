@@ -0,0 +1,186 @@
+import * as React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useTranslation } from 'react-i18next';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+
+import { fetchAllItems } from '@/api/itemApi';
+import { fetchBoxes } from '@/api/boxApi';
+import { useBoxStore, useCategoryStore } from '@/store';
+import { UNCLASSIFIED_ID } from '@/constants';
+import { downloadTextFile } from '@/lib/accountExport';
+import { buildCategoryTree, flattenCategoryTree, getCategorySubtreeIds } from '@/lib/categoryTree';
+import { buildReviewCalendar, CalendarEventMode, collectUpcomingReviews } from '@/lib/ics';
+import { ItemResponse } from '@/types';
+
+// UI
+import { Button } from '@/components/ui/button';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+
+// 絞り込みなしを表す値
+const ALL = 'all';
+
+type ExportCalendarModalProps = {
+    isOpen: boolean;
+    onClose: () => void;
+    // 初期の絞り込み。'all'・UNCLASSIFIED_ID・カテゴリー(ボックス)のIDのいずれか
+    defaultCategoryId?: string;
+    defaultBoxId?: string;
+};
+
+/**
+ * 今後の復習予定をiCalendar（.ics）ファイルとしてダウンロードするモーダル。
+ * カテゴリー（サブカテゴリーを含む）やボックスで絞り込み、1日1件の予定か復習物ごとの予定かを選べる。
+ */
+export const ExportCalendarModal = ({ isOpen, onClose, defaultCategoryId = ALL, defaultBoxId = ALL }: ExportCalendarModalProps) => {
+    const { t } = useTranslation();
+    const { categories } = useCategoryStore();
+    const { boxesByCategoryId } = useBoxStore();
+
+    const [mode, setMode] = React.useState<CalendarEventMode>('day');
+    const [categoryId, setCategoryId] = React.useState(defaultCategoryId);
+    const [boxId, setBoxId] = React.useState(defaultBoxId);
+
+    // 開くたびに呼び出し元の絞り込みで初期化する
+    React.useEffect(() => {
+        if (isOpen) {
+            setCategoryId(defaultCategoryId);
+            setBoxId(defaultBoxId);
+        }
+    }, [isOpen, defaultCategoryId, defaultBoxId]);
+
+    const isCategorySelected = categoryId !== ALL && categoryId !== UNCLASSIFIED_ID;
+
+    const { data: items, isLoading } = useQuery({
+        queryKey: ['allItems'],
+        queryFn: fetchAllItems,
+        enabled: isOpen,
+    });
+
+    const { data: boxes = [] } = useQuery({
+        queryKey: ['boxes', categoryId],
+        queryFn: () => fetchBoxes(categoryId),
+        enabled: isOpen && isCategorySelected,
+    });
+
+    const categoryOptions = React.useMemo(() => flattenCategoryTree(buildCategoryTree(categories)), [categories]);
+
+    // 「カテゴリー / ボックス」の表示名。ボックス名はストアに読み込み済みのものを使う
+    const getLocation = React.useCallback((item: ItemResponse) => {
+        if (!item.category_id) return t('common.unclassified');
+        const categoryName = categories.find(c => c.id === item.category_id)?.name ?? '';
+        const boxName = item.box_id
+            ? (boxesByCategoryId[item.category_id] ?? boxes).find(b => b.id === item.box_id)?.name ?? ''
+            : t('box.unclassified');
+        return [categoryName, boxName].filter(Boolean).join(' / ');
+    }, [categories, boxesByCategoryId, boxes, t]);
+
+    const reviews = React.useMemo(() => {
+        if (!items) return [];
+        const subtreeIds = isCategorySelected ? getCategorySubtreeIds(categories, categoryId) : [];
+        const filteredItems = items.filter(item => {
+            if (categoryId === ALL) return true;
+            if (categoryId === UNCLASSIFIED_ID) return !item.category_id;
+            if (!item.category_id || !subtreeIds.includes(item.category_id)) return false;
+            if (boxId === ALL) return true;
+            if (boxId === UNCLASSIFIED_ID) return item.category_id === categoryId && !item.box_id;
+            return item.box_id === boxId;
+        });
+        return collectUpcomingReviews(filteredItems, format(new Date(), 'yyyy-MM-dd'), getLocation);
+    }, [items, categories, categoryId, boxId, isCategorySelected, getLocation]);
+
+    const dayCount = new Set(reviews.map(review => review.scheduledDate)).size;
+
+    const handleDownload = () => {
+        const ics = buildReviewCalendar(reviews, mode, {
+            calendarName: t('calendarExport.calendarName'),
+            scope: `${categoryId}-${boxId}`,
+            daySummary: (count) => t('calendarExport.daySummary', { count }),
+            step: (stepNumber) => t('calendarExport.step', { step: stepNumber }),
+        });
+        downloadTextFile(`review-schedule-${format(new Date(), 'yyyy-MM-dd')}.ics`, ics, 'text/calendar');
+        toast.success(t('calendarExport.success', { count: reviews.length }));
+        onClose();
+    };
+
+    return (
+        <Dialog open={isOpen} onOpenChange={onClose}>
+            <DialogContent className="w-[95vw] max-w-lg">
+                <DialogHeader>
+                    <DialogTitle>{t('calendarExport.title')}</DialogTitle>
+                    <DialogDescription>{t('calendarExport.description')}</DialogDescription>
+                </DialogHeader>
+                <div className="space-y-4 py-2">
+                    <div className="space-y-1">
+                        <p className="text-sm font-medium">{t('calendarExport.mode')}</p>
+                        <Select value={mode} onValueChange={(value) => setMode(value as CalendarEventMode)}>
+                            <SelectTrigger className="w-full"><SelectValue /></SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value="day">{t('calendarExport.modeDay')}</SelectItem>
+                                <SelectItem value="item">{t('calendarExport.modeItem')}</SelectItem>
+                            </SelectContent>
+                        </Select>
+                    </div>
+                    <div className="space-y-1">
+                        <p className="text-sm font-medium">{t('category.label')}</p>
+                        <Select
+                            value={categoryId}
+                            onValueChange={(value) => {
+                                setCategoryId(value);
+                                setBoxId(ALL);
+                            }}
+                        >
+                            <SelectTrigger className="w-full"><SelectValue /></SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value={ALL}>{t('common.all')}</SelectItem>
+                                <SelectItem value={UNCLASSIFIED_ID}>{t('common.unclassified')}</SelectItem>
+                                {categoryOptions.map(category => (
+                                    <SelectItem key={category.id} value={category.id} style={{ paddingLeft: 8 + category.depth * 12 }}>
+                                        {category.name}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                    {isCategorySelected && (
+                        <div className="space-y-1">
+                            <p className="text-sm font-medium">{t('box.label')}</p>
+                            <Select value={boxId} onValueChange={setBoxId}>
+                                <SelectTrigger className="w-full"><SelectValue /></SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value={ALL}>{t('common.all')}</SelectItem>
+                                    <SelectItem value={UNCLASSIFIED_ID}>{t('box.unclassified')}</SelectItem>
+                                    {boxes.map(box => (
+                                        <SelectItem key={box.id} value={box.id}>{box.name}</SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    )}
+                    {isLoading ? (
+                        <Skeleton className="h-5 w-48" />
+                    ) : (
+                        <p className="text-sm text-muted-foreground">
+                            {t('calendarExport.summary', { count: reviews.length, days: dayCount })}
+                        </p>
+                    )}
+                </div>
+                <DialogFooter>
+                    <Button type="button" variant="outline" onClick={onClose}>{t('common.close')}</Button>
+                    <Button type="button" onClick={handleDownload} disabled={isLoading || reviews.length === 0}>
+                        {t('calendarExport.download')}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+};
@@ -6,10 +6,12 @@ import { toast } from 'sonner';
 import { useTranslation } from 'react-i18next';
 
 
-import { fetchFinishedItemsByBox, fetchFinishedUnclassifiedItems, fetchFinishedUnclassifiedItemsByCategory, markItemAsUnfinished, incompleteReviewDate, fetchUnclassifiedItems, fetchUnclassifiedItemsByCategory, fetchItemsByBox, deleteItem } from '@/api/itemApi';
+import { fetchFinishedItemsByBox, fetchFinishedUnclassifiedItems, fetchFinishedUnclassifiedItemsByCategory, markItemAsUnfinished, incompleteReviewDate, fetchUnclassifiedItems, fetchUnclassifiedItemsByCategory, fetchItemsByBox } from '@/api/itemApi';
 import { UNCLASSIFIED_ID } from '@/constants';
 import { useItemStore } from '@/store';
+import { useItemUndo } from '@/hooks/useItemUndo';
 import { cn } from '@/lib/utils';
+import { collectTags, hasAllTags } from '@/lib/tags';
 
 import { ItemResponse } from '@/types';
 
@@ -22,6 +24,7 @@ import { DataTable } from '@/components/shared/DataTable/DataTable';
 import { TableSkeleton } from '@/components/shared/SkeletonLoader';
 import { ScrollArea, ScrollBar } from '@/components/ui/scroll-area';
 import NameCell from '@/components/shared/NameCell';
+import { TagFilter } from '@/components/shared/TagFilter';
 
 import { ItemDetailModal } from './ItemDetailModal';
 
@@ -44,9 +47,12 @@ const getStoreBoxId = (boxId: string | undefined, categoryId: string | undefined
 export const FinishedItemsModal = ({ isOpen, onClose, boxId, categoryId }: FinishedItemsModalProps) => {
     const { t } = useTranslation();
     const queryClient = useQueryClient();
+    const { deleteItems } = useItemUndo();
     const setItemsForBox = useItemStore(state => state.setItemsForBox);
     // 詳細表示モーダルで表示する復習物を管理するstate
     const [detailItem, setDetailItem] = React.useState<ItemResponse | null>(null);
+    // タグでの絞り込み
+    const [selectedTags, setSelectedTags] = React.useState<string[]>([]);
 
     const [nameColumnWidth, setNameColumnWidth] = React.useState(300);
     const [isResizing, setIsResizing] = React.useState(false);
@@ -175,21 +181,6 @@ export const FinishedItemsModal = ({ isOpen, onClose, boxId, categoryId }: Finis
         onError: (err) => toast.error(t('error.markIncompleteFailed', { message: err.message })),
     });
 
-    const deleteMutation = useMutation({
-        mutationFn: (itemId: string) => deleteItem(itemId),
-        onSuccess: async () => {
-            toast.success(t('notification.itemDeleted'));
-            await Promise.all([
-                queryClient.invalidateQueries({ queryKey: queryKey, exact: true }),
-                queryClient.invalidateQueries({ queryKey: ['items', boxId], exact: true }),
-                queryClient.invalidateQueries({ queryKey: ['todaysReviews'], exact: true }),
-                queryClient.invalidateQueries({ queryKey: ['summary'], exact: true })
-            ]);
-            await queryClient.refetchQueries({ queryKey: queryKey, exact: true });
-        },
-        onError: (err: any) => toast.error(t('error.deleteFailed', { message: err.message })),
-    });
-
     const handleResizeStart = (e: React.MouseEvent) => {
         e.preventDefault();
         setIsResizing(true);
@@ -234,6 +225,12 @@ export const FinishedItemsModal = ({ isOpen, onClose, boxId, categoryId }: Finis
         };
     }, [isResizing, handleResizeMove, handleResizeEnd]);
 
+    const availableTags = React.useMemo(() => collectTags(finishedItems), [finishedItems]);
+    const filteredFinishedItems = React.useMemo(
+        () => finishedItems.filter((item) => hasAllTags(item.tags, selectedTags)),
+        [finishedItems, selectedTags],
+    );
+
     // --- テーブル定義 ---
     // カラム数を動的に計算（実際に復習日がある場合のみカラムを表示）
     const maxColumns = React.useMemo(() => {
@@ -327,7 +324,6 @@ export const FinishedItemsModal = ({ isOpen, onClose, boxId, categoryId }: Finis
                                     size="sm"
                                     variant="destructive"
                                     className="w-full bg-red-600 hover:bg-red-800 text-white hover:text-gray-400 transition-all duration-200"
-                                    disabled={deleteMutation.isPending}
                                     title={t('common.delete')}
                                 >
                                     {t('common.delete')}
@@ -343,11 +339,10 @@ export const FinishedItemsModal = ({ isOpen, onClose, boxId, categoryId }: Finis
                                 <AlertDialogFooter>
                                     <AlertDialogCancel>{t('common.cancel')}</AlertDialogCancel>
                                     <AlertDialogAction
-                                        onClick={() => deleteMutation.mutate(item.item_id)}
-                                        disabled={deleteMutation.isPending}
+                                        onClick={() => deleteItems([item])}
                                         className="bg-destructive text-white hover:bg-destructive/90"
                                     >
-                                        {deleteMutation.isPending ? t('loading.deleting') : t('common.delete')}
+                                        {t('common.delete')}
                                     </AlertDialogAction>
                                 </AlertDialogFooter>
                             </AlertDialogContent>
@@ -373,7 +368,7 @@ export const FinishedItemsModal = ({ isOpen, onClose, boxId, categoryId }: Finis
                 </div>
             ),
             size: nameColumnWidth,
-            cell: ({ row }) => <NameCell name={row.original.name} />,
+            cell: ({ row }) => <NameCell name={row.original.name} tags={row.original.tags} />,
         },
         {
             id: 'detail',
@@ -435,7 +430,7 @@ export const FinishedItemsModal = ({ isOpen, onClose, boxId, categoryId }: Finis
                 );
             },
         })),
-    ], [finishedItems, maxColumns, unfinishMutation, incompleteReviewMutation, nameColumnWidth, handleResetWidth, t]);
+    ], [finishedItems, maxColumns, unfinishMutation, incompleteReviewMutation, deleteItems, nameColumnWidth, handleResetWidth, t]);
 
 
     return (
@@ -446,6 +441,9 @@ export const FinishedItemsModal = ({ isOpen, onClose, boxId, categoryId }: Finis
                         <DialogTitle>{t('item.finishedListTitle')}</DialogTitle>
                         <DialogDescription>{t('item.finishedListDescription')}</DialogDescription>
                     </DialogHeader>
+                    <div className="flex justify-end">
+                        <TagFilter tags={availableTags} selected={selectedTags} onChange={setSelectedTags} className="max-w-[200px]" />
+                    </div>
                     <div className="flex-1 flex flex-col overflow-hidden py-4 mb-2">
                         {/* スクロール可能なテーブル領域 */}
                         <Card className="flex-1 min-h-0 p-0 py-0">
@@ -456,7 +454,7 @@ export const FinishedItemsModal = ({ isOpen, onClose, boxId, categoryId }: Finis
                                     ) : (
                                         <DataTable
                                             columns={columns}
-                                            data={finishedItems}
+                                            data={filteredFinishedItems}
                                             enablePagination={false}
                                             maxHeight="100%"
                                             fixedColumns={5}
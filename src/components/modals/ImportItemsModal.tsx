@@ -0,0 +1,460 @@
+import * as React from 'react';
+import { useQueries, useQuery, useQueryClient } from '@tanstack/react-query';
+import axios from 'axios';
+import { format, isValid, parse } from 'date-fns';
+import { useTranslation } from 'react-i18next';
+import { ArrowUpTrayIcon, CheckCircleIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { cn } from '@/lib/utils';
+
+import { createItem } from '@/api/itemApi';
+import { fetchCategories } from '@/api/categoryApi';
+import { fetchBoxes } from '@/api/boxApi';
+import { fetchPatterns } from '@/api/patternApi';
+import { parseCsv } from '@/lib/csv';
+import { createItemSchema } from '@/lib/itemSchema';
+import { CreateItemRequest, GetBoxOutput } from '@/types';
+
+// UI
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ScrollArea, ScrollBar } from '../ui/scroll-area';
+
+// インポート先の項目
+const IMPORT_FIELDS = ['name', 'detail', 'learned_date', 'category', 'box', 'pattern'] as const;
+type ImportField = typeof IMPORT_FIELDS[number];
+
+// 列名から対応する項目を推測するための別名
+const FIELD_ALIASES: Record<ImportField, string[]> = {
+    name: ['name', 'item', 'title', 'front', '名前', '復習物', '復習物名'],
+    detail: ['detail', 'details', 'note', 'notes', 'back', '詳細', 'メモ'],
+    learned_date: ['learned_date', 'learned', 'date', 'learning_date', '学習日'],
+    category: ['category', 'category_name', 'カテゴリー', 'カテゴリ'],
+    box: ['box', 'box_name', 'ボックス'],
+    pattern: ['pattern', 'pattern_name', 'パターン'],
+};
+
+// 列を割り当てない場合のSelectの値（Radix UIのSelectは空文字を値にできないため）
+const NOT_MAPPED = '__none__';
+
+// 学習日として受け付ける日付の書式
+const DATE_FORMATS = ['yyyy-MM-dd', 'yyyy/MM/dd', 'yyyy/M/d', 'yyyy-M-d', 'yyyy.MM.dd'];
+
+// 一度に並行して作成する件数
+const IMPORT_BATCH_SIZE = 5;
+
+type SourceTable = {
+    headers: string[];
+    rows: Record<string, string>[];
+};
+
+type PreviewRow = {
+    // ファイル上の行番号（ヘッダーを除いて1始まり）
+    rowNumber: number;
+    name: string;
+    learnedDate: string;
+    location: string;
+    pattern: string;
+    request: CreateItemRequest | null;
+    errors: string[];
+};
+
+type ImportReport = {
+    created: number;
+    // オフラインのためキューに積み、再接続時に作成するもの
+    queued: number;
+    failures: { rowNumber: number; name: string; message: string }[];
+    skipped: number;
+};
+
+// CSVを読み込む。1行目を列名として扱う
+const readCsv = (text: string): SourceTable => {
+    const [headerRow = [], ...body] = parseCsv(text);
+    const headers = headerRow.map((h, i) => h.trim() || `column${i + 1}`);
+    const rows = body.map((cells) => Object.fromEntries(headers.map((h, i) => [h, cells[i] ?? ''])));
+    return { headers, rows };
+};
+
+// JSONを読み込む。配列、または{ items: [...] }の形式を受け付ける
+const readJson = (text: string): SourceTable => {
+    const parsed = JSON.parse(text);
+    const list: unknown[] = Array.isArray(parsed) ? parsed : Array.isArray(parsed?.items) ? parsed.items : [];
+    const objects = list.filter((v): v is Record<string, unknown> => typeof v === 'object' && v !== null);
+    const headers = Array.from(new Set(objects.flatMap((o) => Object.keys(o))));
+    const rows = objects.map((o) => Object.fromEntries(headers.map((h) => {
+        const value = o[h];
+        if (value === null || value === undefined) return [h, ''];
+        return [h, typeof value === 'object' ? JSON.stringify(value) : String(value)];
+    })));
+    return { headers, rows };
+};
+
+// 列名から各項目の割り当てを推測する
+const guessMapping = (headers: string[]): Record<ImportField, string> => {
+    const normalize = (value: string) => value.trim().toLowerCase().replace(/[\s-]/g, '_');
+    return Object.fromEntries(IMPORT_FIELDS.map((field) => {
+        const header = headers.find((h) => FIELD_ALIASES[field].includes(normalize(h)));
+        return [field, header ?? NOT_MAPPED];
+    })) as Record<ImportField, string>;
+};
+
+const parseLearnedDate = (value: string): Date | null => {
+    for (const dateFormat of DATE_FORMATS) {
+        const date = parse(value, dateFormat, new Date());
+        if (isValid(date)) return date;
+    }
+    const date = new Date(value);
+    return isValid(date) ? date : null;
+};
+
+// 名前またはIDが一致するものを探す（大文字小文字は区別しない）
+const findByNameOrId = <T extends { id: string; name: string }>(list: T[], value: string) => {
+    const lower = value.toLowerCase();
+    return list.find((v) => v.id === value) ?? list.find((v) => v.name.trim().toLowerCase() === lower);
+};
+
+type ImportItemsModalProps = {
+    isOpen: boolean;
+    onClose: () => void;
+};
+
+/**
+ * CSV/JSONファイルから復習物を一括で作成するウィザード。
+ * 列と項目の対応付け → プレビューと検証 → 作成 → 結果報告 の順に進む。
+ * 検証には復習物作成モーダルと同じバリデーションルールを使う。
+ */
+export const ImportItemsModal = ({ isOpen, onClose }: ImportItemsModalProps) => {
+    const { t } = useTranslation();
+    const queryClient = useQueryClient();
+    const itemSchema = React.useMemo(() => createItemSchema(t), [t]);
+
+    const [step, setStep] = React.useState<'upload' | 'review' | 'importing' | 'done'>('upload');
+    const [pastedText, setPastedText] = React.useState('');
+    const [source, setSource] = React.useState<SourceTable | null>(null);
+    const [mapping, setMapping] = React.useState<Record<ImportField, string>>(() => guessMapping([]));
+    const [progress, setProgress] = React.useState({ done: 0, total: 0 });
+    const [report, setReport] = React.useState<ImportReport | null>(null);
+    // ファイルの読み込みに失敗した理由
+    const [uploadError, setUploadError] = React.useState<string | null>(null);
+    const fileInputRef = React.useRef<HTMLInputElement>(null);
+
+    // 開くたびに最初のステップに戻す
+    React.useEffect(() => {
+        if (isOpen) {
+            setStep('upload');
+            setPastedText('');
+            setSource(null);
+            setReport(null);
+            setUploadError(null);
+        }
+    }, [isOpen]);
+
+    // --- 名前解決に使うデータ ---
+    const { data: categories = [] } = useQuery({ queryKey: ['categories'], queryFn: fetchCategories, enabled: isOpen });
+    const { data: patterns = [] } = useQuery({ queryKey: ['patterns'], queryFn: fetchPatterns, enabled: isOpen });
+    const boxQueries = useQueries({
+        queries: categories.map((category) => ({
+            queryKey: ['boxes', category.id],
+            queryFn: () => fetchBoxes(category.id),
+            enabled: isOpen,
+        })),
+    });
+    const boxesByCategoryId: Record<string, GetBoxOutput[]> = {};
+    categories.forEach((category, i) => {
+        boxesByCategoryId[category.id] = boxQueries[i]?.data || [];
+    });
+
+    const loadText = (text: string, isJson: boolean) => {
+        setUploadError(null);
+        try {
+            const table = isJson ? readJson(text) : readCsv(text);
+            if (table.rows.length === 0) {
+                setUploadError(t('import.errors.empty'));
+                return;
+            }
+            setSource(table);
+            setMapping(guessMapping(table.headers));
+            setStep('review');
+        } catch (err) {
+            setUploadError(t('import.errors.parseFailed', { message: err instanceof Error ? err.message : String(err) }));
+        }
+    };
+
+    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        const text = await file.text();
+        loadText(text, file.name.toLowerCase().endsWith('.json') || file.type === 'application/json');
+    };
+
+    const handlePasteLoad = () => {
+        const text = pastedText.trim();
+        loadText(text, text.startsWith('[') || text.startsWith('{'));
+    };
+
+    // --- プレビュー（各行の名前解決と検証） ---
+    // ボックスの取得結果(useQueries)は毎回新しい配列になるため、メモ化せずに描画ごとに組み立てる
+    const get = (row: Record<string, string>, field: ImportField) =>
+        mapping[field] === NOT_MAPPED ? '' : (row[mapping[field]] ?? '').trim();
+
+    const previewRows: PreviewRow[] = (source?.rows ?? []).map((row, index) => {
+        const errors: string[] = [];
+
+        // 学習日（未指定の場合は今日）
+        const learnedDateText = get(row, 'learned_date');
+        const learnedDate = learnedDateText ? parseLearnedDate(learnedDateText) : new Date();
+        if (!learnedDate) errors.push(t('import.errors.invalidDate', { value: learnedDateText }));
+
+        // カテゴリー（未指定の場合は未分類）
+        const categoryText = get(row, 'category');
+        const category = categoryText ? findByNameOrId(categories, categoryText) : undefined;
+        if (categoryText && !category) errors.push(t('import.errors.unknownCategory', { value: categoryText }));
+
+        // ボックス（カテゴリーの中から探す）
+        const boxText = get(row, 'box');
+        let box: GetBoxOutput | undefined;
+        if (boxText) {
+            if (!category) {
+                if (!categoryText) errors.push(t('import.errors.boxNeedsCategory'));
+            } else {
+                box = findByNameOrId(boxesByCategoryId[category.id] || [], boxText);
+                if (!box) errors.push(t('import.errors.unknownBox', { value: boxText }));
+            }
+        }
+
+        // パターン（ボックスに入れる場合はボックスのパターンを使う）
+        const patternText = get(row, 'pattern');
+        const pattern = box
+            ? patterns.find((p) => p.id === box.pattern_id)
+            : patternText ? findByNameOrId(patterns, patternText) : undefined;
+        if (!box && patternText && !pattern) errors.push(t('import.errors.unknownPattern', { value: patternText }));
+
+        const values = {
+            name: get(row, 'name'),
+            detail: get(row, 'detail'),
+            learned_date: learnedDate ?? undefined,
+            category_id: category?.id ?? 'UNCLASSIFIED',
+            box_id: box?.id ?? 'UNCLASSIFIED',
+            pattern_id: pattern?.id ?? null,
+        };
+        const result = itemSchema.safeParse(values);
+        if (!result.success) {
+            result.error.issues.forEach((issue) => {
+                if (!errors.includes(issue.message)) errors.push(issue.message);
+            });
+        }
+
+        const request: CreateItemRequest | null = result.success && errors.length === 0 ? {
+            category_id: category?.id ?? null,
+            box_id: box?.id ?? null,
+            name: result.data.name,
+            detail: result.data.detail,
+            learned_date: format(result.data.learned_date, 'yyyy-MM-dd'),
+            today: format(new Date(), 'yyyy-MM-dd'),
+            is_mark_overdue_as_completed: true,
+            ...(pattern && { pattern_id: pattern.id }),
+        } : null;
+
+        return {
+            rowNumber: index + 1,
+            name: values.name,
+            learnedDate: learnedDate ? format(learnedDate, 'yyyy-MM-dd') : learnedDateText,
+            location: [category?.name ?? t('common.unclassified'), box?.name ?? t('common.unclassified')].join(' / '),
+            pattern: pattern?.name ?? '-',
+            request,
+            errors,
+        };
+    });
+
+    const validRows = previewRows.filter((row) => row.request);
+    const invalidCount = previewRows.length - validRows.length;
+
+    // --- 作成 ---
+    const handleImport = async () => {
+        setStep('importing');
+        setProgress({ done: 0, total: validRows.length });
+        const failures: ImportReport['failures'] = [];
+        let created = 0;
+        let queued = 0;
+
+        for (let i = 0; i < validRows.length; i += IMPORT_BATCH_SIZE) {
+            const batch = validRows.slice(i, i + IMPORT_BATCH_SIZE);
+            const results = await Promise.allSettled(batch.map((row) => createItem(row.request!)));
+            results.forEach((result, j) => {
+                if (result.status === 'fulfilled') {
+                    // オフライン時はキューに積まれ、nullが返る
+                    if (result.value) created += 1;
+                    else queued += 1;
+                } else {
+                    const err = result.reason;
+                    const message = axios.isAxiosError(err) ? err.response?.data?.error || err.message : String(err);
+                    failures.push({ rowNumber: batch[j].rowNumber, name: batch[j].name, message });
+                }
+            });
+            setProgress({ done: Math.min(i + IMPORT_BATCH_SIZE, validRows.length), total: validRows.length });
+        }
+
+        setReport({ created, queued, failures, skipped: invalidCount });
+        setStep('done');
+
+        queryClient.invalidateQueries({ queryKey: ['items'] });
+        queryClient.invalidateQueries({ queryKey: ['todaysReviews'] });
+        queryClient.invalidateQueries({ queryKey: ['summary'] });
+        queryClient.invalidateQueries({ queryKey: ['allItems'] });
+    };
+
+    return (
+        <Dialog open={isOpen} onOpenChange={step === 'importing' ? undefined : onClose}>
+            <DialogContent className="w-[95vw] sm:max-w-4xl max-h-[95vh] flex flex-col">
+                <DialogHeader>
+                    <DialogTitle>{t('import.title')}</DialogTitle>
+                    <DialogDescription>{t(`import.stepDescription.${step}`)}</DialogDescription>
+                </DialogHeader>
+
+                {step === 'upload' && (
+                    <div className="space-y-4">
+                        <input ref={fileInputRef} type="file" accept=".csv,.json,text/csv,application/json" className="hidden" onChange={handleFileChange} />
+                        <Button type="button" variant="outline" className="h-24 w-full border-dashed" onClick={() => fileInputRef.current?.click()}>
+                            <ArrowUpTrayIcon className="h-5 w-5" />
+                            {t('import.chooseFile')}
+                        </Button>
+                        <div className="space-y-2">
+                            <Label>{t('import.pasteLabel')}</Label>
+                            <Textarea
+                                value={pastedText}
+                                onChange={(e) => setPastedText(e.target.value)}
+                                placeholder={'name,detail,learned_date,category,box\n"English words","apple, orange",2024-04-01,English,Vocabulary'}
+                                className="h-32 font-mono text-xs"
+                            />
+                        </div>
+                        <p className="text-xs text-muted-foreground">{t('import.formatHint')}</p>
+                        {uploadError && <p className="text-sm text-red-500">{uploadError}</p>}
+                    </div>
+                )}
+
+                {step === 'review' && source && (
+                    <div className="flex min-h-0 flex-1 flex-col gap-4">
+                        {/* 列の割り当て */}
+                        <div className="grid grid-cols-2 gap-3 sm:grid-cols-3">
+                            {IMPORT_FIELDS.map((field) => (
+                                <div key={field} className="space-y-1">
+                                    <Label className="text-xs">{t(`import.field.${field}`)}</Label>
+                                    <Select value={mapping[field]} onValueChange={(value) => setMapping((prev) => ({ ...prev, [field]: value }))}>
+                                        <SelectTrigger size="sm" className="w-full">
+                                            <SelectValue />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            <SelectItem value={NOT_MAPPED}>{t('import.notMapped')}</SelectItem>
+                                            {source.headers.map((header) => <SelectItem key={header} value={header}>{header}</SelectItem>)}
+                                        </SelectContent>
+                                    </Select>
+                                </div>
+                            ))}
+                        </div>
+
+                        <p className="text-sm">
+                            {t('import.previewSummary', { total: previewRows.length, valid: validRows.length, invalid: invalidCount })}
+                        </p>
+
+                        {/* プレビュー */}
+                        <ScrollArea className="min-h-0 flex-1 max-h-[45vh] rounded-md border">
+                            <Table>
+                                <TableHeader>
+                                    <TableRow>
+                                        <TableHead className="w-12">#</TableHead>
+                                        <TableHead>{t('import.field.name')}</TableHead>
+                                        <TableHead>{t('import.field.learned_date')}</TableHead>
+                                        <TableHead>{t('import.location')}</TableHead>
+                                        <TableHead>{t('import.field.pattern')}</TableHead>
+                                        <TableHead>{t('import.result')}</TableHead>
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {previewRows.map((row) => (
+                                        <TableRow key={row.rowNumber} className={cn(row.errors.length > 0 && 'bg-red-500/5')}>
+                                            <TableCell className="text-muted-foreground">{row.rowNumber}</TableCell>
+                                            <TableCell className="max-w-48 truncate" title={row.name}>{row.name || '-'}</TableCell>
+                                            <TableCell>{row.learnedDate}</TableCell>
+                                            <TableCell className="max-w-48 truncate" title={row.location}>{row.location}</TableCell>
+                                            <TableCell className="max-w-32 truncate">{row.pattern}</TableCell>
+                                            <TableCell className="whitespace-normal">
+                                                {row.errors.length === 0 ? (
+                                                    <CheckCircleIcon className="h-4 w-4 text-green-600" />
+                                                ) : (
+                                                    <ul className="text-xs text-red-500">
+                                                        {row.errors.map((error) => <li key={error}>{error}</li>)}
+                                                    </ul>
+                                                )}
+                                            </TableCell>
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                            <ScrollBar orientation="vertical" className="!bg-transparent [&>div]:!bg-gray-600" />
+                        </ScrollArea>
+                    </div>
+                )}
+
+                {step === 'importing' && (
+                    <div className="space-y-2 py-6">
+                        <div className="h-2 w-full overflow-hidden rounded bg-muted">
+                            <div className="h-full bg-primary transition-all" style={{ width: `${(progress.done / Math.max(progress.total, 1)) * 100}%` }} />
+                        </div>
+                        <p className="text-center text-sm text-muted-foreground tabular-nums">{progress.done} / {progress.total}</p>
+                    </div>
+                )}
+
+                {step === 'done' && report && (
+                    <div className="space-y-3">
+                        <p className="text-sm">{t('import.reportSummary', { created: report.created, failed: report.failures.length, skipped: report.skipped })}</p>
+                        {report.queued > 0 && (
+                            <p className="text-sm text-muted-foreground">{t('import.reportQueued', { count: report.queued })}</p>
+                        )}
+                        {report.failures.length > 0 && (
+                            <ScrollArea className="max-h-60 rounded-md border">
+                                <ul className="divide-y text-sm">
+                                    {report.failures.map((failure) => (
+                                        <li key={failure.rowNumber} className="flex gap-2 p-2">
+                                            <ExclamationTriangleIcon className="h-4 w-4 shrink-0 text-red-500" />
+                                            <div className="min-w-0">
+                                                <p className="truncate font-medium">#{failure.rowNumber} {failure.name}</p>
+                                                <p className="break-words text-xs text-muted-foreground">{failure.message}</p>
+                                            </div>
+                                        </li>
+                                    ))}
+                                </ul>
+                                <ScrollBar orientation="vertical" className="!bg-transparent [&>div]:!bg-gray-600" />
+                            </ScrollArea>
+                        )}
+                    </div>
+                )}
+
+                <DialogFooter>
+                    {step === 'upload' && (
+                        <>
+                            <Button type="button" variant="outline" onClick={onClose}>{t('common.cancel')}</Button>
+                            <Button type="button" onClick={handlePasteLoad} disabled={!pastedText.trim()}>
+                                {t('import.next')}
+                            </Button>
+                        </>
+                    )}
+                    {step === 'review' && (
+                        <>
+                            <Button type="button" variant="outline" onClick={() => setStep('upload')}>{t('import.back')}</Button>
+                            <Button type="button" onClick={handleImport} disabled={validRows.length === 0}>
+                                {t('import.importRows', { count: validRows.length })}
+                            </Button>
+                        </>
+                    )}
+                    {step === 'done' && (
+                        <Button type="button" onClick={onClose}>{t('common.close')}</Button>
+                    )}
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+};
@@ -1,6 +1,5 @@
 import { ItemResponse } from '@/types';
 import { useTranslation } from 'react-i18next';
-import ReactMarkdown from 'react-markdown';
 import { DocumentDuplicateIcon } from '@heroicons/react/24/outline';
 import { toast } from 'sonner';
 import { useState } from 'react';
@@ -15,6 +14,7 @@ import {
     DialogDescription,
 } from '@/components/ui/dialog';
 import { ScrollArea, ScrollBar } from '../ui/scroll-area';
+import MarkdownContent from '@/components/shared/MarkdownContent';
 import {
     Tooltip,
     TooltipContent,
@@ -88,11 +88,7 @@ export const ItemDetailModal = ({ isOpen, onClose, item }: ItemDetailModalProps)
                                 )}
                             </div>
                             <div className="p-4 bg-muted rounded-md min-h-[100px]">
-                                <div className="prose prose-sm max-w-none text-muted-foreground prose-headings:text-foreground prose-strong:text-foreground prose-p:text-muted-foreground prose-li:text-muted-foreground [&_ul]:list-disc [&_ul]:pl-5 [&_ol]:list-decimal [&_ol]:pl-5 [&_li]:ml-0 [&_ul_li]:marker:text-muted-foreground [&_ol_li]:marker:text-muted-foreground leading-relaxed [&_p]:leading-relaxed [&_li]:leading-relaxed">
-                                    <ReactMarkdown>
-                                        {item.detail || t('item.noDetail')}
-                                    </ReactMarkdown>
-                                </div>
+                                <MarkdownContent content={item.detail || t('item.noDetail')} />
                             </div>
                         </div>
                         <ScrollBar orientation="vertical" className="!bg-transparent [&>div]:!bg-gray-600" />
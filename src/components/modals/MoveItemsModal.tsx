@@ -0,0 +1,115 @@
+import * as React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useTranslation } from 'react-i18next';
+
+import { fetchCategories } from '@/api/categoryApi';
+import { fetchBoxes } from '@/api/boxApi';
+import { GetBoxOutput } from '@/types';
+
+// UI Components
+import { Button } from '@/components/ui/button';
+import {
+    Dialog,
+    DialogContent,
+    DialogHeader,
+    DialogTitle,
+    DialogFooter,
+    DialogDescription,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+const UNCLASSIFIED = 'UNCLASSIFIED';
+
+type MoveItemsModalProps = {
+    isOpen: boolean;
+    onClose: () => void;
+    // 選択された移動先。未分類の場合はnullが渡される
+    onConfirm: (target: { categoryId: string | null; box: GetBoxOutput | null }) => void;
+    itemCount: number;
+};
+
+/**
+ * 複数の復習物の移動先となるカテゴリー・ボックスを選択させるモーダル。
+ * 実際の移動処理は呼び出し側で行う。
+ */
+export const MoveItemsModal = ({ isOpen, onClose, onConfirm, itemCount }: MoveItemsModalProps) => {
+    const { t } = useTranslation();
+    const [categoryId, setCategoryId] = React.useState(UNCLASSIFIED);
+    const [boxId, setBoxId] = React.useState(UNCLASSIFIED);
+
+    const { data: categories = [] } = useQuery({ queryKey: ['categories'], queryFn: fetchCategories, enabled: isOpen });
+    const { data: boxes = [] } = useQuery({
+        queryKey: ['boxes', categoryId],
+        queryFn: () => fetchBoxes(categoryId),
+        enabled: isOpen && categoryId !== UNCLASSIFIED,
+    });
+
+    // 開くたびに選択をリセットする
+    React.useEffect(() => {
+        if (isOpen) {
+            setCategoryId(UNCLASSIFIED);
+            setBoxId(UNCLASSIFIED);
+        }
+    }, [isOpen]);
+
+    const handleConfirm = () => {
+        onConfirm({
+            categoryId: categoryId === UNCLASSIFIED ? null : categoryId,
+            box: boxes.find((box) => box.id === boxId) ?? null,
+        });
+        onClose();
+    };
+
+    return (
+        <Dialog open={isOpen} onOpenChange={onClose}>
+            <DialogContent className="sm:max-w-md">
+                <DialogHeader>
+                    <DialogTitle>{t('batch.moveTitle')}</DialogTitle>
+                    <DialogDescription>{t('batch.moveDescription', { count: itemCount })}</DialogDescription>
+                </DialogHeader>
+                <div className="space-y-4">
+                    <div className="space-y-2">
+                        <Label>{t('category.label')}</Label>
+                        <Select
+                            value={categoryId}
+                            onValueChange={(value) => {
+                                setCategoryId(value);
+                                setBoxId(UNCLASSIFIED);
+                            }}
+                        >
+                            <SelectTrigger className="w-full">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value={UNCLASSIFIED}>{t('common.unclassified')}</SelectItem>
+                                {categories.map((c) => <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>)}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                    <div className="space-y-2">
+                        <Label>{t('box.label')}</Label>
+                        <Select value={boxId} onValueChange={setBoxId} disabled={categoryId === UNCLASSIFIED}>
+                            <SelectTrigger className="w-full">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value={UNCLASSIFIED}>{t('common.unclassified')}</SelectItem>
+                                {boxes.map((b) => <SelectItem key={b.id} value={b.id}>{b.name}</SelectItem>)}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                    <p className="text-xs text-muted-foreground">{t('batch.movePatternNote')}</p>
+                </div>
+                <DialogFooter>
+                    <Button type="button" variant="secondary" onClick={onClose}>
+                        {t('common.cancel')}
+                    </Button>
+                    <Button type="button" onClick={handleConfirm}>
+                        {t('batch.move')}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+};
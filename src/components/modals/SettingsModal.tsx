@@ -5,9 +5,12 @@ import { z } from 'zod';
 import { toast } from 'sonner';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { useTranslation } from 'react-i18next';
+import { format } from 'date-fns';
 
 import { useAuth } from '@/hooks/useAuth';
 import { updateUser } from '@/api/authApi';
+import { fetchAccountExport } from '@/api/exportApi';
+import { accountExportToCsv, downloadTextFile } from '@/lib/accountExport';
 import { UpdateUserInput } from '@/types';
 import { THEME_COLORS, LANGUAGES, TIMEZONES } from '@/constants';
 import { useTheme } from '@/components/theme-provider';
@@ -19,6 +22,7 @@ import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Separator } from '@/components/ui/separator';
 import { ScrollArea, ScrollBar } from '../ui/scroll-area';
+import { ReminderSettings } from '@/components/shared/ReminderSettings';
 import { SettingPasswordModl } from './SettingPasswordModl';
 import { TFunction } from 'i18next';
 
@@ -33,10 +37,12 @@ const settingsSchema = (t: TFunction) => z.object({
 type SettingsModalProps = {
     isOpen: boolean;
     onClose: () => void;
+    // データ管理セクションから復習物のインポートを開く
+    onOpenImportItems?: () => void;
 };
 
 // ユーザー設モーダル
-export const SettingsModal = ({ isOpen, onClose }: SettingsModalProps) => {
+export const SettingsModal = ({ isOpen, onClose, onOpenImportItems }: SettingsModalProps) => {
     const queryClient = useQueryClient();
     const { user } = useAuth();
     const { t } = useTranslation();
@@ -81,6 +87,23 @@ export const SettingsModal = ({ isOpen, onClose }: SettingsModalProps) => {
         updateMutation.mutate(values);
     };
 
+    // アカウントデータのエクスポート。全データを取得してからファイルとしてダウンロードさせる
+    const exportMutation = useMutation({
+        mutationFn: async (fileType: 'json' | 'csv') => {
+            const data = await fetchAccountExport();
+            const fileName = `review-setter-export-${format(new Date(), 'yyyy-MM-dd')}.${fileType}`;
+            if (fileType === 'json') {
+                downloadTextFile(fileName, JSON.stringify(data, null, 2), 'application/json');
+            } else {
+                // Excelで文字化けしないようにBOMを付ける
+                downloadTextFile(fileName, '\ufeff' + accountExportToCsv(data), 'text/csv');
+            }
+            return data;
+        },
+        onSuccess: (data) => toast.success(t('export.success', { count: data.items.length })),
+        onError: (err) => toast.error(t('export.error', { message: err.message })),
+    });
+
     // パスワード変更モーダルの開閉状態
     const [isPasswordModalOpen, setPasswordModalOpen] = React.useState(false);
 
@@ -149,6 +172,32 @@ export const SettingsModal = ({ isOpen, onClose }: SettingsModalProps) => {
                                                 {t('settings.changePassword')}
                                             </Button>
                                         </div>
+                                        <Separator />
+                                        <div>
+                                            <h4 className="text-sm font-medium mb-2">{t('reminder.title')}</h4>
+                                            <ReminderSettings timezone={form.watch('timezone') || user?.timezone || ''} />
+                                        </div>
+                                        <Separator />
+                                        <div>
+                                            <h4 className="text-sm font-medium">{t('settings.data')}</h4>
+                                            <p className="text-xs text-muted-foreground">{t('settings.dataDescription')}</p>
+                                            <div className="mt-2 flex flex-wrap gap-2">
+                                                {onOpenImportItems && (
+                                                    <Button type="button" variant="outline" onClick={onOpenImportItems}>
+                                                        {t('import.title')}
+                                                    </Button>
+                                                )}
+                                                <Button type="button" variant="outline" disabled={exportMutation.isPending} onClick={() => exportMutation.mutate('json')}>
+                                                    {t('export.json')}
+                                                </Button>
+                                                <Button type="button" variant="outline" disabled={exportMutation.isPending} onClick={() => exportMutation.mutate('csv')}>
+                                                    {t('export.csv')}
+                                                </Button>
+                                            </div>
+                                            {exportMutation.isPending && (
+                                                <p className="mt-1 text-xs text-muted-foreground">{t('export.exporting')}</p>
+                                            )}
+                                        </div>
                                     </div>
                                     <ScrollBar orientation="vertical" className="!bg-transparent [&>div]:!bg-gray-600" />
                                 </ScrollArea>
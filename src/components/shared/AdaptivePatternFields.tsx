@@ -0,0 +1,69 @@
+import { useFormContext } from 'react-hook-form';
+import { useTranslation } from 'react-i18next';
+
+import { MAX_EASE_FACTOR, MIN_EASE_FACTOR, simulateGoodOffsets } from '@/lib/sm2';
+import { PatternKind } from '@/types';
+
+import { FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+type AdaptivePatternFieldValues = {
+    kind: PatternKind;
+    initial_ease_factor: number;
+    steps: { interval_days: number }[];
+};
+
+/**
+ * パターンの種類（fixed / adaptive）と、adaptiveの場合の容易度を入力するフォームのフィールド。
+ * パターンの作成・編集モーダルの<Form>の中で使う。
+ */
+export const AdaptivePatternFields = () => {
+    const { t } = useTranslation();
+    const form = useFormContext<AdaptivePatternFieldValues>();
+
+    // adaptiveの場合、毎回goodと評価したときの復習日の見通しを表示する
+    const kind = form.watch('kind');
+    const watchedEaseFactor = Number(form.watch('initial_ease_factor'));
+    const stepOffsets = form.watch('steps').map((step) => Number(step.interval_days)).filter((days) => days >= 1);
+    const adaptivePreview = kind === 'adaptive' && stepOffsets.length > 0 && watchedEaseFactor >= MIN_EASE_FACTOR
+        ? simulateGoodOffsets(stepOffsets, watchedEaseFactor, stepOffsets.length + 4).join(', ')
+        : null;
+
+    return (
+        <>
+            <FormField control={form.control} name="kind" render={({ field }) => (
+                <FormItem>
+                    <FormLabel className="inline-block pointer-events-none select-none">{t('pattern.kind')}</FormLabel>
+                    <div className="w-full">
+                        <Select onValueChange={field.onChange} value={field.value}>
+                            <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
+                            <SelectContent>
+                                <SelectItem value="fixed">{t('pattern.kindFixed')}</SelectItem>
+                                <SelectItem value="adaptive">{t('pattern.kindAdaptive')}</SelectItem>
+                            </SelectContent>
+                        </Select>
+                    </div>
+                    <FormMessage />
+                </FormItem>
+            )} />
+            {kind === 'adaptive' && (
+                <FormField control={form.control} name="initial_ease_factor" render={({ field }) => (
+                    <FormItem>
+                        <FormLabel className="inline-block pointer-events-none select-none">{t('pattern.initialEaseFactor')}</FormLabel>
+                        <div className="w-full">
+                            <FormControl>
+                                <Input type="number" step={0.1} min={MIN_EASE_FACTOR} max={MAX_EASE_FACTOR} {...field} className="w-32" />
+                            </FormControl>
+                        </div>
+                        <p className="text-xs text-muted-foreground">{t('pattern.adaptiveDescription')}</p>
+                        {adaptivePreview && (
+                            <p className="text-xs text-muted-foreground">{t('pattern.adaptivePreview', { days: adaptivePreview })}</p>
+                        )}
+                        <FormMessage />
+                    </FormItem>
+                )} />
+            )}
+        </>
+    );
+};
@@ -7,7 +7,14 @@ import {
     BreadcrumbList,
     BreadcrumbPage,
     BreadcrumbSeparator,
+    BreadcrumbEllipsis,
 } from '@/components/ui/breadcrumb';
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 
 // パンくずリストの各項目を表す型定義
 type BreadcrumbItemType = {
@@ -19,19 +26,28 @@ type BreadcrumbsProps = {
     items: BreadcrumbItemType[];
 };
 
+// これより項目が多い場合（カテゴリーの階層が深い場合）は、先頭と末尾以外をメニューにまとめる
+const MAX_VISIBLE_ITEMS = 4;
+// まとめた場合に末尾に残す項目数
+const TRAILING_ITEMS = 2;
+
+const truncateLabel = (label: string) => label.length > 20 ? label.slice(0, 20) + '...' : label;
+
 /**
  * ページの現在位置を示すパンくずリストを表示するコンポーネント。
+ * 項目が多い場合は、途中の項目を「…」のメニューにまとめる。
  * @param items - パンくずリストの各項目（ラベルとリンク先）の配列
  */
 const Breadcrumbs = ({ items }: BreadcrumbsProps) => {
+    const isCollapsed = items.length > MAX_VISIBLE_ITEMS;
+    const collapsedItems = isCollapsed ? items.slice(1, items.length - TRAILING_ITEMS) : [];
+    const visibleItems = isCollapsed ? [items[0], ...items.slice(items.length - TRAILING_ITEMS)] : items;
+
     return (
         <Breadcrumb className="hidden md:flex">
             <BreadcrumbList>
-                {items.map((item, index) => {
-                    const displayLabel =
-                        item.label.length > 20
-                            ? item.label.slice(0, 20) + '...'
-                            : item.label;
+                {visibleItems.map((item, index) => {
+                    const displayLabel = truncateLabel(item.label);
                     return (
                         <React.Fragment key={index}>
                             <BreadcrumbItem>
@@ -43,7 +59,26 @@ const Breadcrumbs = ({ items }: BreadcrumbsProps) => {
                                     <BreadcrumbPage>{displayLabel}</BreadcrumbPage>
                                 )}
                             </BreadcrumbItem>
-                            {index < items.length - 1 && <BreadcrumbSeparator />}
+                            {index < visibleItems.length - 1 && <BreadcrumbSeparator />}
+                            {isCollapsed && index === 0 && (
+                                <>
+                                    <BreadcrumbItem>
+                                        <DropdownMenu>
+                                            <DropdownMenuTrigger className="flex items-center">
+                                                <BreadcrumbEllipsis className="size-4" />
+                                            </DropdownMenuTrigger>
+                                            <DropdownMenuContent align="start">
+                                                {collapsedItems.map((collapsed, collapsedIndex) => (
+                                                    <DropdownMenuItem key={collapsedIndex} asChild disabled={!collapsed.href}>
+                                                        <Link to={collapsed.href || '#'}>{truncateLabel(collapsed.label)}</Link>
+                                                    </DropdownMenuItem>
+                                                ))}
+                                            </DropdownMenuContent>
+                                        </DropdownMenu>
+                                    </BreadcrumbItem>
+                                    <BreadcrumbSeparator />
+                                </>
+                            )}
                         </React.Fragment>
                     );
                 })}
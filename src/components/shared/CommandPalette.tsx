@@ -0,0 +1,291 @@
+import * as React from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useQueries, useQuery } from '@tanstack/react-query';
+import { useTranslation } from 'react-i18next';
+import {
+    MagnifyingGlassIcon,
+    DocumentTextIcon,
+    InboxIcon,
+    InboxStackIcon,
+    SquaresPlusIcon,
+    DocumentPlusIcon,
+    UserCircleIcon,
+    HomeIcon,
+    CalendarDaysIcon,
+    ChartBarIcon,
+    ExclamationTriangleIcon,
+    ClockIcon,
+    ArrowUpTrayIcon,
+} from '@heroicons/react/24/outline';
+import { cn } from '@/lib/utils';
+
+import { fetchAllItems } from '@/api/itemApi';
+import { fetchBoxes } from '@/api/boxApi';
+import { useCategoryStore, usePatternStore } from '@/store';
+import { ItemResponse } from '@/types';
+import { normalizeTag } from '@/lib/tags';
+
+import { Dialog, DialogContent, DialogDescription, DialogTitle } from '@/components/ui/dialog';
+import { ScrollArea, ScrollBar } from '@/components/ui/scroll-area';
+import { ItemDetailModal } from '@/components/modals/ItemDetailModal';
+
+// 1グループあたりの最大表示件数
+const MAX_RESULTS_PER_GROUP = 8;
+
+type PaletteGroup = 'actions' | 'items' | 'boxes' | 'categories' | 'patterns';
+
+type PaletteEntry = {
+    id: string;
+    group: PaletteGroup;
+    label: string;
+    // 補足情報（所属するカテゴリー・ボックス名など）
+    hint?: string;
+    icon: React.ElementType;
+    onSelect: () => void;
+    // Shift+Enterで実行する別の操作（復習物の詳細表示）
+    onAltSelect?: () => void;
+};
+
+/**
+ * 検索語との一致度を返すヘルパー関数。一致しない場合は-1。
+ * 先頭一致 > 名前の部分一致 > 補足テキストの部分一致 の順に高くなる。
+ */
+const scoreMatch = (query: string, name: string, extra?: string | null): number => {
+    const lowerName = name.toLowerCase();
+    if (lowerName.startsWith(query)) return 3;
+    if (lowerName.includes(query)) return 2;
+    if (extra && extra.toLowerCase().includes(query)) return 1;
+    return -1;
+};
+
+type CommandPaletteProps = {
+    onOpenCreateItem: () => void;
+    onOpenCreatePattern: () => void;
+    onOpenSettings: () => void;
+    onOpenImportItems: () => void;
+};
+
+/**
+ * Ctrl/Cmd+Kで開くコマンドパレット。
+ * 復習物（名前・詳細）、ボックス、カテゴリー、パターンを横断して検索し、選択すると該当画面へ移動する。
+ * 復習物の作成や設定を開くなどの操作も実行できる。
+ */
+export const CommandPalette = ({ onOpenCreateItem, onOpenCreatePattern, onOpenSettings, onOpenImportItems }: CommandPaletteProps) => {
+    const { t } = useTranslation();
+    const navigate = useNavigate();
+    const { categories } = useCategoryStore();
+    const { patterns } = usePatternStore();
+
+    const [isOpen, setIsOpen] = React.useState(false);
+    const [query, setQuery] = React.useState('');
+    const [activeIndex, setActiveIndex] = React.useState(0);
+    const [detailItem, setDetailItem] = React.useState<ItemResponse | null>(null);
+    const listRef = React.useRef<HTMLDivElement>(null);
+
+    // Ctrl/Cmd+Kで開閉する
+    React.useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'k') {
+                e.preventDefault();
+                setIsOpen((prev) => !prev);
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, []);
+
+    // 開くたびに検索語をリセットする
+    React.useEffect(() => {
+        if (isOpen) {
+            setQuery('');
+            setActiveIndex(0);
+        }
+    }, [isOpen]);
+
+    // 検索対象のデータはパレットを開いている間だけ取得する
+    const { data: allItems = [] } = useQuery({
+        queryKey: ['allItems'],
+        queryFn: fetchAllItems,
+        enabled: isOpen,
+    });
+    const boxQueries = useQueries({
+        queries: categories.map((category) => ({
+            queryKey: ['boxes', category.id],
+            queryFn: () => fetchBoxes(category.id),
+            enabled: isOpen,
+        })),
+    });
+    const boxes = boxQueries.flatMap((q) => q.data || []);
+
+    const categoryNameById = Object.fromEntries(categories.map((c) => [c.id, c.name]));
+    const boxNameById = Object.fromEntries(boxes.map((b) => [b.id, b.name]));
+
+    const close = () => setIsOpen(false);
+    const run = (action: () => void) => () => {
+        close();
+        action();
+    };
+
+    // 検索語がなくても表示する操作
+    const actionEntries: PaletteEntry[] = [
+        { id: 'action-create-item', group: 'actions', label: t('commandPalette.action.createItem'), icon: DocumentPlusIcon, onSelect: run(onOpenCreateItem) },
+        { id: 'action-create-pattern', group: 'actions', label: t('commandPalette.action.createPattern'), icon: SquaresPlusIcon, onSelect: run(onOpenCreatePattern) },
+        { id: 'action-import-items', group: 'actions', label: t('commandPalette.action.importItems'), icon: ArrowUpTrayIcon, onSelect: run(onOpenImportItems) },
+        { id: 'action-settings', group: 'actions', label: t('commandPalette.action.openSettings'), icon: UserCircleIcon, onSelect: run(onOpenSettings) },
+        { id: 'action-home', group: 'actions', label: t('commandPalette.action.goHome'), icon: HomeIcon, onSelect: run(() => navigate('/')) },
+        { id: 'action-today', group: 'actions', label: t('commandPalette.action.goToday'), icon: ClockIcon, onSelect: run(() => navigate('/today')) },
+        { id: 'action-calendar', group: 'actions', label: t('commandPalette.action.goCalendar'), icon: CalendarDaysIcon, onSelect: run(() => navigate('/calendar')) },
+        { id: 'action-overdue', group: 'actions', label: t('commandPalette.action.goOverdue'), icon: ExclamationTriangleIcon, onSelect: run(() => navigate('/overdue')) },
+        { id: 'action-stats', group: 'actions', label: t('commandPalette.action.goStats'), icon: ChartBarIcon, onSelect: run(() => navigate('/stats')) },
+    ];
+
+    const normalizedQuery = query.trim().toLowerCase();
+
+    // 一致度の高い順に並べ、上限件数で切り詰める
+    const pickMatches = <T,>(list: T[], getName: (v: T) => string, getExtra?: (v: T) => string | null | undefined) =>
+        list
+            .map((value) => ({ value, score: scoreMatch(normalizedQuery, getName(value), getExtra?.(value)) }))
+            .filter((m) => m.score >= 0)
+            .sort((a, b) => b.score - a.score)
+            .slice(0, MAX_RESULTS_PER_GROUP)
+            .map((m) => m.value);
+
+    // 「#タグ名」で検索した場合は、タグが前方一致する復習物だけを表示する
+    const tagQuery = normalizedQuery.startsWith('#') ? normalizeTag(normalizedQuery).toLowerCase() : null;
+    const matchedItems = tagQuery !== null
+        ? allItems.filter((item) => item.tags?.some((tag) => tag.toLowerCase().startsWith(tagQuery))).slice(0, MAX_RESULTS_PER_GROUP)
+        : pickMatches(allItems, (item) => item.name, (item) => [item.detail, ...(item.tags ?? [])].filter(Boolean).join(' '));
+
+    const entries: PaletteEntry[] = normalizedQuery === '' ? actionEntries : [
+        ...actionEntries.filter((entry) => entry.label.toLowerCase().includes(normalizedQuery)),
+        ...matchedItems.map((item): PaletteEntry => ({
+            id: `item-${item.item_id}`,
+            group: 'items',
+            label: item.name,
+            hint: [
+                [
+                    item.category_id ? categoryNameById[item.category_id] : t('common.unclassified'),
+                    item.box_id ? boxNameById[item.box_id] : t('common.unclassified'),
+                ].filter(Boolean).join(' / '),
+                ...(item.tags ?? []).map((tag) => `#${tag}`),
+            ].join(' '),
+            icon: DocumentTextIcon,
+            // ボックス画面へ移動し、該当の行を強調表示する
+            onSelect: run(() => navigate(`/categories/${item.category_id ?? 'unclassified'}/boxes/${item.box_id ?? 'unclassified'}?item=${item.item_id}`)),
+            onAltSelect: run(() => setDetailItem(item)),
+        })),
+        ...pickMatches(boxes, (box) => box.name).map((box): PaletteEntry => ({
+            id: `box-${box.id}`,
+            group: 'boxes',
+            label: box.name,
+            hint: categoryNameById[box.category_id],
+            icon: InboxIcon,
+            onSelect: run(() => navigate(`/categories/${box.category_id}/boxes/${box.id}`)),
+        })),
+        ...pickMatches(categories, (category) => category.name).map((category): PaletteEntry => ({
+            id: `category-${category.id}`,
+            group: 'categories',
+            label: category.name,
+            icon: InboxStackIcon,
+            onSelect: run(() => navigate(`/categories/${category.id}`)),
+        })),
+        ...pickMatches(patterns, (pattern) => pattern.name).map((pattern): PaletteEntry => ({
+            id: `pattern-${pattern.id}`,
+            group: 'patterns',
+            label: pattern.name,
+            hint: pattern.steps.map((step) => step.interval_days).join(', '),
+            icon: SquaresPlusIcon,
+            onSelect: run(() => navigate('/patterns')),
+        })),
+    ];
+
+    // 検索結果が変わったら先頭を選択し直す
+    React.useEffect(() => {
+        setActiveIndex(0);
+    }, [normalizedQuery]);
+
+    // キーボードで選択中の項目が見えるようにスクロールする
+    React.useEffect(() => {
+        listRef.current?.querySelector(`[data-index="${activeIndex}"]`)?.scrollIntoView({ block: 'nearest' });
+    }, [activeIndex]);
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === 'ArrowDown') {
+            e.preventDefault();
+            setActiveIndex((prev) => (entries.length === 0 ? 0 : (prev + 1) % entries.length));
+        } else if (e.key === 'ArrowUp') {
+            e.preventDefault();
+            setActiveIndex((prev) => (entries.length === 0 ? 0 : (prev - 1 + entries.length) % entries.length));
+        } else if (e.key === 'Enter') {
+            e.preventDefault();
+            const entry = entries[activeIndex];
+            if (!entry) return;
+            if (e.shiftKey && entry.onAltSelect) entry.onAltSelect();
+            else entry.onSelect();
+        }
+    };
+
+    return (
+        <>
+            <Dialog open={isOpen} onOpenChange={setIsOpen}>
+                <DialogContent className="top-[20%] translate-y-0 gap-0 p-0 sm:max-w-xl" showCloseButton={false} onKeyDown={handleKeyDown}>
+                    <DialogTitle className="sr-only">{t('commandPalette.title')}</DialogTitle>
+                    <DialogDescription className="sr-only">{t('commandPalette.description')}</DialogDescription>
+                    <div className="flex items-center gap-2 border-b px-3">
+                        <MagnifyingGlassIcon className="h-4 w-4 shrink-0 text-muted-foreground" />
+                        <input
+                            autoFocus
+                            value={query}
+                            onChange={(e) => setQuery(e.target.value)}
+                            placeholder={t('commandPalette.placeholder')}
+                            className="h-11 w-full bg-transparent text-sm outline-none placeholder:text-muted-foreground"
+                        />
+                    </div>
+                    <ScrollArea className="max-h-[50vh]">
+                        <div ref={listRef} className="p-1">
+                            {entries.length === 0 ? (
+                                <p className="py-6 text-center text-sm text-muted-foreground">{t('commandPalette.noResults')}</p>
+                            ) : (
+                                entries.map((entry, index) => {
+                                    const Icon = entry.icon;
+                                    const isGroupStart = index === 0 || entries[index - 1].group !== entry.group;
+                                    return (
+                                        <React.Fragment key={entry.id}>
+                                            {isGroupStart && (
+                                                <p className="px-2 pb-1 pt-2 text-xs font-semibold text-muted-foreground">
+                                                    {t(`commandPalette.group.${entry.group}`)}
+                                                </p>
+                                            )}
+                                            <button
+                                                type="button"
+                                                data-index={index}
+                                                className={cn(
+                                                    'flex w-full items-center gap-2 rounded-sm px-2 py-1.5 text-left text-sm',
+                                                    index === activeIndex ? 'bg-accent text-accent-foreground' : 'hover:bg-accent/50',
+                                                )}
+                                                onMouseMove={() => setActiveIndex(index)}
+                                                onClick={(e) => (e.shiftKey && entry.onAltSelect ? entry.onAltSelect() : entry.onSelect())}
+                                            >
+                                                <Icon className="h-4 w-4 shrink-0 text-muted-foreground" />
+                                                <span className="truncate">{entry.label}</span>
+                                                {entry.hint && <span className="ml-auto shrink-0 truncate pl-2 text-xs text-muted-foreground max-w-[45%]">{entry.hint}</span>}
+                                            </button>
+                                        </React.Fragment>
+                                    );
+                                })
+                            )}
+                        </div>
+                        <ScrollBar orientation="vertical" className="!bg-transparent [&>div]:!bg-gray-600" />
+                    </ScrollArea>
+                    <div className="flex justify-end gap-3 border-t px-3 py-2 text-xs text-muted-foreground">
+                        <span>{t('commandPalette.hint.navigate')}</span>
+                        <span>{t('commandPalette.hint.open')}</span>
+                        <span>{t('commandPalette.hint.detail')}</span>
+                    </div>
+                </DialogContent>
+            </Dialog>
+
+            <ItemDetailModal isOpen={!!detailItem} onClose={() => setDetailItem(null)} item={detailItem} />
+        </>
+    );
+};
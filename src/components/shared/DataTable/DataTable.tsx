@@ -7,9 +7,29 @@ import {
     useReactTable,
     SortingState,
     getSortedRowModel,
+    RowSelectionState,
+    OnChangeFn,
 } from '@tanstack/react-table';
 
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { isShortcutEvent } from '@/lib/keyboard';
+import { RECALL_GRADES } from '@/lib/sm2';
+import { cn } from '@/lib/utils';
+import { RecallGrade } from '@/types';
+
+// キーボードでフォーカスした行に対する操作。指定した操作のキーだけが有効になる
+export type DataTableKeyboardShortcuts<TData> = {
+    // Space / c
+    onComplete?: (row: TData) => void;
+    // 1〜4（again / hard / good / easy）
+    onGrade?: (row: TData, grade: RecallGrade) => void;
+    // u
+    onUndo?: (row: TData) => void;
+    // d
+    onOpenDetail?: (row: TData) => void;
+    // e
+    onEdit?: (row: TData) => void;
+};
 
 interface DataTableProps<TData, TValue> {
     columns: ColumnDef<TData, TValue>[];
@@ -25,6 +45,17 @@ interface DataTableProps<TData, TValue> {
         isHovering: boolean;
         onHover: (isHovering: boolean) => void;
     };
+    // 行選択を有効にする場合に指定する。選択状態は呼び出し側で管理する
+    rowSelection?: RowSelectionState;
+    onRowSelectionChange?: OnChangeFn<RowSelectionState>;
+    // 行選択のキーに使う一意なID。未指定の場合は行番号になる
+    getRowId?: (row: TData) => string;
+    // 指定すると行をドラッグできるようになる
+    onRowDragStart?: (row: TData, e: React.DragEvent<HTMLTableRowElement>) => void;
+    // 強調表示してスクロールする行のID（getRowIdで決まるID）
+    highlightedRowId?: string | null;
+    // 指定するとj/kで行をフォーカスし、フォーカス中の行をキーボードで操作できるようになる
+    keyboardShortcuts?: DataTableKeyboardShortcuts<TData>;
 }
 
 /**
@@ -32,6 +63,8 @@ interface DataTableProps<TData, TValue> {
  * ソート、ページネーション機能を内蔵している。
  * @param columns - テーブルの列定義。
  * @param data - テーブルに表示するデータ配列。
+ * @param rowSelection - 選択中の行。onRowSelectionChangeと合わせて指定すると行選択が有効になる。
+ * @param keyboardShortcuts - フォーカス中の行に対するキーボード操作。
  */
 export const DataTable = <TData, TValue>({
     columns,
@@ -41,6 +74,12 @@ export const DataTable = <TData, TValue>({
     fixedColumns = 0,
     tableWidth,
     resizableColumn,
+    rowSelection,
+    onRowSelectionChange,
+    getRowId,
+    onRowDragStart,
+    highlightedRowId,
+    keyboardShortcuts,
 }: DataTableProps<TData, TValue>) => {
     // テーブルのソート状態を管理
     const [sorting, setSorting] = React.useState<SortingState>([]);
@@ -53,18 +92,97 @@ export const DataTable = <TData, TValue>({
         ...(enablePagination && { getPaginationRowModel: getPaginationRowModel() }), // ページングが有効な場合のみ追加
         onSortingChange: setSorting, // ソート状態が変更されたらstateを更新
         getSortedRowModel: getSortedRowModel(), // ソート用の行モデルを取得
+        enableRowSelection: !!onRowSelectionChange, // 選択状態の変更を受け取る場合のみ行選択を有効化
+        onRowSelectionChange,
+        getRowId,
         state: {
             sorting, // 現在のソート状態をテーブルに渡す
+            rowSelection: rowSelection ?? {},
         },
     });
 
+    // 強調表示する行が指定されたら、その行が見える位置までスクロールする。
+    // 再取得のたびに引き戻さないよう、スクロールは行ごとに一度だけにする
+    const highlightedRowRef = React.useRef<HTMLTableRowElement>(null);
+    const scrolledRowIdRef = React.useRef<string | null>(null);
+    React.useEffect(() => {
+        if (!highlightedRowId || scrolledRowIdRef.current === highlightedRowId || !highlightedRowRef.current) return;
+        highlightedRowRef.current.scrollIntoView({ block: 'center' });
+        scrolledRowIdRef.current = highlightedRowId;
+    }, [highlightedRowId, data]);
+
+    // キーボードでフォーカス中の行のID
+    const [focusedRowId, setFocusedRowId] = React.useState<string | null>(null);
+    const containerRef = React.useRef<HTMLDivElement>(null);
+    const rows = table.getRowModel().rows;
+
+    // 描画のたびにリスナーを登録し直さないよう、キー操作で参照する値はrefから読む
+    const shortcutStateRef = React.useRef({ keyboardShortcuts, rows, focusedRowId });
+    shortcutStateRef.current = { keyboardShortcuts, rows, focusedRowId };
+    const hasKeyboardShortcuts = !!keyboardShortcuts;
+
+    React.useEffect(() => {
+        if (!hasKeyboardShortcuts) return;
+        const handleKeyDown = (e: KeyboardEvent) => {
+            const { keyboardShortcuts, rows, focusedRowId } = shortcutStateRef.current;
+            if (!keyboardShortcuts || !isShortcutEvent(e)) return;
+            const index = rows.findIndex((row) => row.id === focusedRowId);
 
+            if (e.key === 'j' || e.key === 'k') {
+                if (rows.length === 0) return;
+                e.preventDefault();
+                const next = index === -1 ? 0 : Math.min(Math.max(index + (e.key === 'j' ? 1 : -1), 0), rows.length - 1);
+                setFocusedRowId(rows[next].id);
+                return;
+            }
+            if (e.key === 'Escape') {
+                setFocusedRowId(null);
+                return;
+            }
+            if (index === -1) return;
+
+            const row = rows[index].original;
+            const gradeIndex = ['1', '2', '3', '4'].indexOf(e.key);
+            // Spaceはボタンにフォーカスがあるときはボタンの操作を優先する
+            if ((e.key === ' ' && (e.target as HTMLElement | null)?.tagName !== 'BUTTON') || e.key === 'c') {
+                if (!keyboardShortcuts.onComplete) return;
+                e.preventDefault();
+                keyboardShortcuts.onComplete(row);
+            } else if (gradeIndex !== -1) {
+                keyboardShortcuts.onGrade?.(row, RECALL_GRADES[gradeIndex]);
+            } else if (e.key === 'u') {
+                keyboardShortcuts.onUndo?.(row);
+            } else if (e.key === 'd') {
+                keyboardShortcuts.onOpenDetail?.(row);
+            } else if (e.key === 'e') {
+                keyboardShortcuts.onEdit?.(row);
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [hasKeyboardShortcuts]);
+
+    // フォーカスした行が見える位置までスクロールする
+    React.useEffect(() => {
+        if (!focusedRowId) return;
+        containerRef.current?.querySelector('[data-focused="true"]')?.scrollIntoView({ block: 'nearest' });
+    }, [focusedRowId]);
+
+    const getRowProps = (rowId: string) => ({
+        'data-focused': rowId === focusedRowId || undefined,
+        className: cn(
+            rowId === highlightedRowId && 'bg-primary/10 outline outline-2 -outline-offset-2 outline-primary',
+            rowId === focusedRowId && 'bg-accent outline outline-2 -outline-offset-2 outline-ring',
+        ) || undefined,
+        // クリックした行からキーボード操作を続けられるようにする
+        onClick: keyboardShortcuts ? () => setFocusedRowId(rowId) : undefined,
+    });
 
     // 固定カラムが指定されている場合の処理
     if (fixedColumns > 0) {
 
         return (
-            <div className="h-full flex flex-col ">
+            <div ref={containerRef} className="h-full flex flex-col ">
                 <div
                     className="flex-1 rounded-xl"
                     style={{
@@ -133,7 +251,14 @@ export const DataTable = <TData, TValue>({
                             <TableBody>
                                 {table.getRowModel().rows?.length ? (
                                     table.getRowModel().rows.map((row) => (
-                                        <TableRow key={row.id}>
+                                        <TableRow
+                                            key={row.id}
+                                            data-state={row.getIsSelected() ? 'selected' : undefined}
+                                            ref={row.id === highlightedRowId ? highlightedRowRef : undefined}
+                                            {...getRowProps(row.id)}
+                                            draggable={!!onRowDragStart}
+                                            onDragStart={onRowDragStart ? (e) => onRowDragStart(row.original, e) : undefined}
+                                        >
                                             {row.getVisibleCells().map((cell, index) => {
                                                 const isFixed = index < fixedColumns;
                                                 // カラムのサイズ情報を取得
@@ -200,7 +325,7 @@ export const DataTable = <TData, TValue>({
 
     // 固定カラムが指定されていない場合は従来の表示
     return (
-        <div className="h-full flex flex-col">
+        <div ref={containerRef} className="h-full flex flex-col">
             <div
                 className="rounded-md border flex-1  "
                 style={{
@@ -233,7 +358,14 @@ export const DataTable = <TData, TValue>({
                                 {table.getRowModel().rows?.length ? (
                                     // データ行をループしてボディ行（<td>）を生成
                                     table.getRowModel().rows.map((row) => (
-                                        <TableRow key={row.id}>
+                                        <TableRow
+                                            key={row.id}
+                                            data-state={row.getIsSelected() ? 'selected' : undefined}
+                                            ref={row.id === highlightedRowId ? highlightedRowRef : undefined}
+                                            {...getRowProps(row.id)}
+                                            draggable={!!onRowDragStart}
+                                            onDragStart={onRowDragStart ? (e) => onRowDragStart(row.original, e) : undefined}
+                                        >
                                             {row.getVisibleCells().map((cell) => (
                                                 <TableCell key={cell.id}>
                                                     {/* 各ボディセルの中身（コンポーネント）をレンダリング */}
@@ -0,0 +1,31 @@
+import { ColumnDef } from '@tanstack/react-table';
+import { Checkbox } from '@/components/ui/checkbox';
+
+/**
+ * 行選択用のチェックボックス列を生成する。
+ * DataTableにrowSelectionとonRowSelectionChangeを渡した場合に、列定義の先頭に追加して使う。
+ * @param labels - スクリーンリーダー向けのラベル
+ */
+export const createSelectColumn = <TData,>(labels: { selectAll: string; selectRow: string }): ColumnDef<TData> => ({
+    id: 'select',
+    size: 40,
+    enableSorting: false,
+    header: ({ table }) => (
+        <div className="flex justify-center">
+            <Checkbox
+                checked={table.getIsAllRowsSelected() || (table.getIsSomeRowsSelected() && 'indeterminate')}
+                onCheckedChange={(value) => table.toggleAllRowsSelected(!!value)}
+                aria-label={labels.selectAll}
+            />
+        </div>
+    ),
+    cell: ({ row }) => (
+        <div className="flex justify-center">
+            <Checkbox
+                checked={row.getIsSelected()}
+                onCheckedChange={(value) => row.toggleSelected(!!value)}
+                aria-label={labels.selectRow}
+            />
+        </div>
+    ),
+});
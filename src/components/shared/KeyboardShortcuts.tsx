@@ -0,0 +1,94 @@
+import * as React from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+
+import { GO_TO_ROUTES, isEditableTarget, isShortcutEvent, KEY_SEQUENCE_TIMEOUT_MS, SHORTCUT_GROUPS } from '@/lib/keyboard';
+
+import { useUndo } from '@/hooks/useUndo';
+
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+
+/**
+ * アプリ全体のキーボードショートカット。
+ * 「g」に続けてキーを押すと各ページへ移動し、「?」でショートカットの一覧を開く。
+ * Ctrl/Cmd+Zで直近の操作を取り消し、Ctrl/Cmd+Shift+Z（またはCtrl+Y）でやり直す。
+ * 一覧の行に対する操作（j/kなど）はDataTableが処理する。
+ */
+export const KeyboardShortcuts = () => {
+    const { t } = useTranslation();
+    const navigate = useNavigate();
+    const [isOpen, setIsOpen] = React.useState(false);
+    const { undo, redo } = useUndo();
+    // リスナーを登録し直さずに最新の関数を呼ぶため、refに持たせる
+    const undoRef = React.useRef({ undo, redo });
+    undoRef.current = { undo, redo };
+
+    React.useEffect(() => {
+        // 「g」を押した時刻。次のキーがこの時間内に押されたら移動する
+        let pendingGoAt = 0;
+
+        const handleKeyDown = (e: KeyboardEvent) => {
+            // 入力欄では、ブラウザ標準の文字入力の取り消しを優先する
+            if ((e.ctrlKey || e.metaKey) && !e.altKey && !e.defaultPrevented && !isEditableTarget(e.target)) {
+                const key = e.key.toLowerCase();
+                if (key === 'z' || (key === 'y' && e.ctrlKey)) {
+                    e.preventDefault();
+                    if (key === 'z' && !e.shiftKey) undoRef.current.undo();
+                    else undoRef.current.redo();
+                    return;
+                }
+            }
+            if (!isShortcutEvent(e)) return;
+
+            if (pendingGoAt && Date.now() - pendingGoAt <= KEY_SEQUENCE_TIMEOUT_MS) {
+                pendingGoAt = 0;
+                // 「g」に続くキーは一覧の操作に渡さない
+                e.preventDefault();
+                const path = GO_TO_ROUTES[e.key];
+                if (path) navigate(path);
+                return;
+            }
+            pendingGoAt = 0;
+
+            if (e.key === 'g') {
+                pendingGoAt = Date.now();
+            } else if (e.key === '?') {
+                e.preventDefault();
+                setIsOpen(true);
+            }
+        };
+        // 「g c」の「c」などを一覧の操作より先に処理するため、キャプチャフェーズで受け取る
+        window.addEventListener('keydown', handleKeyDown, true);
+        return () => window.removeEventListener('keydown', handleKeyDown, true);
+    }, [navigate]);
+
+    return (
+        <Dialog open={isOpen} onOpenChange={setIsOpen}>
+            <DialogContent className="w-[95vw] max-w-lg">
+                <DialogHeader>
+                    <DialogTitle>{t('shortcuts.title')}</DialogTitle>
+                    <DialogDescription>{t('shortcuts.description')}</DialogDescription>
+                </DialogHeader>
+                <div className="max-h-[60vh] space-y-4 overflow-auto">
+                    {SHORTCUT_GROUPS.map((group) => (
+                        <section key={group.titleKey} className="space-y-1">
+                            <h3 className="text-sm font-semibold text-muted-foreground">{t(group.titleKey)}</h3>
+                            <ul className="divide-y">
+                                {group.shortcuts.map((shortcut) => (
+                                    <li key={shortcut.labelKey} className="flex items-center justify-between gap-4 py-1.5 text-sm">
+                                        <span>{t(shortcut.labelKey)}</span>
+                                        <span className="flex shrink-0 gap-1">
+                                            {shortcut.keys.map((key) => (
+                                                <kbd key={key} className="rounded border bg-muted px-1.5 py-0.5 font-mono text-xs">{key}</kbd>
+                                            ))}
+                                        </span>
+                                    </li>
+                                ))}
+                            </ul>
+                        </section>
+                    ))}
+                </div>
+            </DialogContent>
+        </Dialog>
+    );
+};
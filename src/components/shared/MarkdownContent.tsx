@@ -0,0 +1,31 @@
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import rehypeHighlight from 'rehype-highlight';
+import { cn } from '@/lib/utils';
+import 'katex/dist/katex.min.css';
+import 'highlight.js/styles/github-dark.css';
+
+type MarkdownContentProps = {
+    // 表示するMarkdown文字列
+    content: string;
+    className?: string;
+};
+
+/**
+ * 復習物の詳細(Markdown)を表示する共通コンポーネント。
+ * 詳細モーダルと復習セッションで同じ見た目になるよう、proseのスタイルをここに集約している。
+ * GFM（表・チェックリスト）、コードブロックのハイライト、KaTeXの数式に対応する。
+ */
+const MarkdownContent = ({ content, className }: MarkdownContentProps) => {
+    return (
+        <div className={cn("prose prose-sm max-w-none text-muted-foreground prose-headings:text-foreground prose-strong:text-foreground prose-p:text-muted-foreground prose-li:text-muted-foreground [&_ul]:list-disc [&_ul]:pl-5 [&_ol]:list-decimal [&_ol]:pl-5 [&_li]:ml-0 [&_ul_li]:marker:text-muted-foreground [&_ol_li]:marker:text-muted-foreground leading-relaxed [&_p]:leading-relaxed [&_li]:leading-relaxed [&_ul.contains-task-list]:list-none [&_ul.contains-task-list]:pl-0 [&_.task-list-item_input]:mr-2 [&_table]:w-full [&_th]:border [&_th]:px-2 [&_td]:border [&_td]:px-2 [&_pre]:p-0 [&_pre]:bg-transparent [&_pre_code]:rounded-md [&_pre_code]:text-xs [&_img]:max-h-96 [&_img]:rounded-md", className)}>
+            <ReactMarkdown remarkPlugins={[remarkGfm, remarkMath]} rehypePlugins={[rehypeKatex, rehypeHighlight]}>
+                {content}
+            </ReactMarkdown>
+        </div>
+    );
+};
+
+export default MarkdownContent;
@@ -0,0 +1,215 @@
+import * as React from 'react';
+import { useTranslation } from 'react-i18next';
+import { toast } from 'sonner';
+import { Bold, Code, Heading2, Italic, Link, List, ListChecks, Paperclip, Quote, Sigma, SquareCode, SquareSigma, Table } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+import { uploadAttachment } from '@/api/itemApi';
+
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import MarkdownContent from '@/components/shared/MarkdownContent';
+
+type EditorMode = 'write' | 'split' | 'preview';
+
+// ツールバーの操作。選択範囲を囲む・行頭に付ける・ブロックを挿入するの3種類
+type ToolbarAction =
+    | { kind: 'wrap'; before: string; after: string; placeholder: string }
+    | { kind: 'prefix'; prefix: string }
+    | { kind: 'block'; text: string };
+
+const TOOLBAR: { id: string; icon: React.ComponentType<{ className?: string }>; action: ToolbarAction }[] = [
+    { id: 'bold', icon: Bold, action: { kind: 'wrap', before: '**', after: '**', placeholder: 'text' } },
+    { id: 'italic', icon: Italic, action: { kind: 'wrap', before: '_', after: '_', placeholder: 'text' } },
+    { id: 'heading', icon: Heading2, action: { kind: 'prefix', prefix: '## ' } },
+    { id: 'quote', icon: Quote, action: { kind: 'prefix', prefix: '> ' } },
+    { id: 'list', icon: List, action: { kind: 'prefix', prefix: '- ' } },
+    { id: 'checklist', icon: ListChecks, action: { kind: 'prefix', prefix: '- [ ] ' } },
+    { id: 'link', icon: Link, action: { kind: 'wrap', before: '[', after: '](https://)', placeholder: 'link' } },
+    { id: 'code', icon: Code, action: { kind: 'wrap', before: '`', after: '`', placeholder: 'code' } },
+    { id: 'codeBlock', icon: SquareCode, action: { kind: 'block', text: '```ts\n\n```' } },
+    { id: 'table', icon: Table, action: { kind: 'block', text: '| A | B |\n| --- | --- |\n|  |  |' } },
+    { id: 'math', icon: Sigma, action: { kind: 'wrap', before: '$', after: '$', placeholder: 'x^2' } },
+    { id: 'mathBlock', icon: SquareSigma, action: { kind: 'block', text: '$$\n\n$$' } },
+];
+
+type MarkdownEditorProps = Omit<React.ComponentProps<'textarea'>, 'value' | 'onChange'> & {
+    value: string;
+    onChange: (value: string) => void;
+    // 添付ファイルを紐付ける復習物。作成前の復習物では省略する
+    itemId?: string;
+};
+
+/**
+ * 復習物の詳細(Markdown)を編集するエディター。
+ * ツールバーで書式を挿入でき、入力欄とプレビューを並べて表示できる（表・チェックリスト・コードのハイライト・数式に対応）。
+ * 画像やファイルを貼り付け・ドロップすると添付ファイルとしてアップロードし、画像は埋め込み、それ以外はリンクとして挿入する。
+ * react-hook-formのfieldをそのまま渡せるよう、refとその他の属性は入力欄(textarea)に渡す。
+ */
+export const MarkdownEditor = React.forwardRef<HTMLTextAreaElement, MarkdownEditorProps>(
+    ({ value, onChange, itemId, className, ...props }, ref) => {
+        const { t } = useTranslation();
+        const textareaRef = React.useRef<HTMLTextAreaElement>(null);
+        React.useImperativeHandle(ref, () => textareaRef.current as HTMLTextAreaElement);
+
+        const fileInputRef = React.useRef<HTMLInputElement>(null);
+        const [mode, setMode] = React.useState<EditorMode>('write');
+        const [uploadingCount, setUploadingCount] = React.useState(0);
+        // アップロード完了時に最新の値へ挿入するため、値をrefにも保持する
+        const valueRef = React.useRef(value);
+        valueRef.current = value;
+
+        // 値を更新した後に、カーソル位置(選択範囲)を戻す
+        const applyEdit = (next: string, selectionStart: number, selectionEnd: number) => {
+            onChange(next);
+            requestAnimationFrame(() => {
+                const textarea = textareaRef.current;
+                if (!textarea) return;
+                textarea.focus();
+                textarea.setSelectionRange(selectionStart, selectionEnd);
+            });
+        };
+
+        const handleAction = (action: ToolbarAction) => {
+            const textarea = textareaRef.current;
+            const start = textarea?.selectionStart ?? value.length;
+            const end = textarea?.selectionEnd ?? value.length;
+            const selected = value.slice(start, end);
+
+            if (action.kind === 'wrap') {
+                const text = selected || action.placeholder;
+                const next = value.slice(0, start) + action.before + text + action.after + value.slice(end);
+                applyEdit(next, start + action.before.length, start + action.before.length + text.length);
+            } else if (action.kind === 'prefix') {
+                // 選択範囲にかかる各行の先頭に付ける
+                const lineStart = value.lastIndexOf('\n', start - 1) + 1;
+                const lines = value.slice(lineStart, end).split('\n');
+                const prefixed = lines.map((line) => action.prefix + line).join('\n');
+                const next = value.slice(0, lineStart) + prefixed + value.slice(end);
+                applyEdit(next, lineStart + action.prefix.length, lineStart + prefixed.length);
+            } else {
+                // ブロックは前後を空行で区切って挿入し、カーソルをブロックの1行目の末尾に置く
+                const before = value.slice(0, start);
+                const separator = before === '' || before.endsWith('\n\n') ? '' : before.endsWith('\n') ? '\n' : '\n\n';
+                const next = before + separator + action.text + '\n' + value.slice(end);
+                const cursor = before.length + separator.length + action.text.indexOf('\n') + 1;
+                applyEdit(next, cursor, cursor);
+            }
+        };
+
+        // 添付ファイルをアップロードし、完了した時点のカーソル位置に参照を挿入する
+        const uploadFiles = async (files: File[]) => {
+            for (const file of files) {
+                setUploadingCount((count) => count + 1);
+                try {
+                    const attachment = await uploadAttachment({ file, itemId });
+                    const label = attachment.file_name.replace(/[[\]]/g, '');
+                    const reference = attachment.content_type.startsWith('image/')
+                        ? `![${label}](${attachment.url})`
+                        : `[${label}](${attachment.url})`;
+                    const current = valueRef.current;
+                    const position = textareaRef.current?.selectionEnd ?? current.length;
+                    const next = current.slice(0, position) + reference + current.slice(position);
+                    valueRef.current = next;
+                    applyEdit(next, position + reference.length, position + reference.length);
+                } catch (err) {
+                    toast.error(t('attachment.uploadFailed', { name: file.name, message: err instanceof Error ? err.message : String(err) }));
+                } finally {
+                    setUploadingCount((count) => count - 1);
+                }
+            }
+        };
+
+        const handlePaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+            const files = Array.from(e.clipboardData.files);
+            if (files.length === 0) return;
+            e.preventDefault();
+            uploadFiles(files);
+        };
+
+        const handleDrop = (e: React.DragEvent<HTMLTextAreaElement>) => {
+            const files = Array.from(e.dataTransfer.files);
+            if (files.length === 0) return;
+            e.preventDefault();
+            uploadFiles(files);
+        };
+
+        return (
+            <div className={cn('rounded-md border', className)}>
+                <div className="flex flex-wrap items-center gap-1 border-b p-1">
+                    {TOOLBAR.map(({ id, icon: Icon, action }) => (
+                        <Button
+                            key={id}
+                            type="button"
+                            variant="ghost"
+                            size="icon"
+                            className="h-7 w-7"
+                            title={t(`markdownEditor.${id}`)}
+                            aria-label={t(`markdownEditor.${id}`)}
+                            onClick={() => handleAction(action)}
+                            disabled={mode === 'preview'}
+                        >
+                            <Icon className="h-4 w-4" />
+                        </Button>
+                    ))}
+                    <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        title={t('attachment.attach')}
+                        aria-label={t('attachment.attach')}
+                        onClick={() => fileInputRef.current?.click()}
+                        disabled={mode === 'preview'}
+                    >
+                        <Paperclip className="h-4 w-4" />
+                    </Button>
+                    <input
+                        ref={fileInputRef}
+                        type="file"
+                        multiple
+                        className="hidden"
+                        onChange={(e) => {
+                            uploadFiles(Array.from(e.target.files ?? []));
+                            e.target.value = '';
+                        }}
+                    />
+                    {uploadingCount > 0 && (
+                        <span className="text-xs text-muted-foreground">{t('attachment.uploading', { count: uploadingCount })}</span>
+                    )}
+                    <div className="ml-auto flex gap-1">
+                        {(['write', 'split', 'preview'] as EditorMode[]).map((m) => (
+                            <Button
+                                key={m}
+                                type="button"
+                                variant={mode === m ? 'secondary' : 'ghost'}
+                                size="sm"
+                                className="h-7 px-2 text-xs"
+                                onClick={() => setMode(m)}
+                            >
+                                {t(`markdownEditor.${m}`)}
+                            </Button>
+                        ))}
+                    </div>
+                </div>
+                <div className={cn('grid min-h-40', mode === 'split' && 'md:grid-cols-2')}>
+                    <Textarea
+                        ref={textareaRef}
+                        value={value}
+                        onChange={(e) => onChange(e.target.value)}
+                        onPaste={handlePaste}
+                        onDrop={handleDrop}
+                        className={cn('min-h-40 resize-y rounded-none border-0 font-mono shadow-none focus-visible:ring-0', mode === 'preview' && 'hidden')}
+                        {...props}
+                    />
+                    {mode !== 'write' && (
+                        <div className={cn('max-h-80 overflow-auto p-3', mode === 'split' && 'border-t md:border-t-0 md:border-l')}>
+                            <MarkdownContent content={value || t('item.noDetail')} />
+                        </div>
+                    )}
+                </div>
+            </div>
+        );
+    },
+);
+MarkdownEditor.displayName = 'MarkdownEditor';
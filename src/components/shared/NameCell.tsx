@@ -6,6 +6,7 @@ import {
     TooltipContent,
 } from "@/components/ui/tooltip";
 import { InformationCircleIcon } from "@heroicons/react/24/outline";
+import { TagChips } from "@/components/shared/TagChips";
 
 // 表データの「復習物名」セルに使う共通コンポーネント（テキストオーバーフロー時に表示するiマーク）
 export type NameCellProps = {
@@ -13,9 +14,11 @@ export type NameCellProps = {
     name: string;
     // セルの最大横幅。未指定の場合は動的にカラム幅に追従
     maxWidth?: number;
+    // 復習物のタグ。名前の後ろにチップとして表示する
+    tags?: string[] | null;
 };
 
-const NameCell = ({ name, maxWidth }: NameCellProps) => {
+const NameCell = ({ name, maxWidth, tags }: NameCellProps) => {
     const containerRef = React.useRef<HTMLSpanElement>(null);
     const textRef = React.useRef<HTMLSpanElement>(null);
     const [isOverflow, setIsOverflow] = React.useState(false);
@@ -65,6 +68,8 @@ const NameCell = ({ name, maxWidth }: NameCellProps) => {
                 {name}
             </span>
 
+            <TagChips tags={tags} className="flex-nowrap flex-shrink-0 max-w-[50%] overflow-hidden" />
+
             {/* 省略されているときだけ「i」アイコン */}
             {isOverflow && (
                 <TooltipProvider delayDuration={200}>
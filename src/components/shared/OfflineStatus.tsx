@@ -0,0 +1,128 @@
+import { useTranslation } from 'react-i18next';
+import { ArrowPathIcon, CloudArrowUpIcon, ExclamationTriangleIcon, SignalSlashIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { cn } from '@/lib/utils';
+
+import { discardQueuedMutation, replayQueuedMutations } from '@/api/offlineQueue';
+import { useOfflineStore, QueuedMutation } from '@/store';
+
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { ScrollArea, ScrollBar } from '@/components/ui/scroll-area';
+
+/**
+ * オフライン状態と、再送待ち・再送に失敗した更新リクエストを表示するインジケーター。
+ * オンラインかつキューが空のときは何も表示しない。
+ */
+export const OfflineStatus = () => {
+    const { t } = useTranslation();
+    const { isOnline, isSyncing, queue } = useOfflineStore();
+
+    if (isOnline && queue.length === 0) {
+        return null;
+    }
+
+    const pendingCount = queue.filter((m) => m.status === 'pending').length;
+    const problemCount = queue.length - pendingCount;
+
+    const getLabel = (mutation: QueuedMutation) =>
+        mutation.label ? `${t(`offline.kind.${mutation.kind}`)}: ${mutation.label}` : t(`offline.kind.${mutation.kind}`);
+
+    return (
+        <Popover>
+            <PopoverTrigger asChild>
+                <Button
+                    variant="outline"
+                    size="sm"
+                    className={cn(
+                        'fixed bottom-4 right-4 z-40 shadow-md',
+                        problemCount > 0 && 'border-red-500 text-red-500',
+                    )}
+                >
+                    {!isOnline ? (
+                        <SignalSlashIcon className="h-4 w-4" />
+                    ) : problemCount > 0 ? (
+                        <ExclamationTriangleIcon className="h-4 w-4" />
+                    ) : (
+                        <CloudArrowUpIcon className={cn('h-4 w-4', isSyncing && 'animate-pulse')} />
+                    )}
+                    {!isOnline ? t('offline.offline') : isSyncing ? t('offline.syncing') : t('offline.unsynced')}
+                    {queue.length > 0 && ` (${queue.length})`}
+                </Button>
+            </PopoverTrigger>
+            <PopoverContent align="end" className="w-80 p-0">
+                <div className="flex items-center justify-between border-b p-3">
+                    <div className="text-sm">
+                        <p className="font-semibold">{isOnline ? t('offline.queueTitle') : t('offline.offlineTitle')}</p>
+                        <p className="text-xs text-muted-foreground">
+                            {t('offline.summary', { pending: pendingCount, problem: problemCount })}
+                        </p>
+                    </div>
+                    <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        disabled={!isOnline || isSyncing || pendingCount === 0}
+                        onClick={() => replayQueuedMutations()}
+                        aria-label={t('offline.syncNow')}
+                    >
+                        <ArrowPathIcon className={cn('h-4 w-4', isSyncing && 'animate-spin')} />
+                    </Button>
+                </div>
+                <ScrollArea className="max-h-72">
+                    {queue.length === 0 ? (
+                        <p className="p-4 text-center text-xs text-muted-foreground">{t('offline.empty')}</p>
+                    ) : (
+                        <div className="flex flex-col divide-y">
+                            {queue.map((mutation) => (
+                                <div key={mutation.id} className="space-y-1 p-3 text-xs">
+                                    <div className="flex items-center justify-between gap-2">
+                                        <span className="truncate font-medium">{getLabel(mutation)}</span>
+                                        <span
+                                            className={cn(
+                                                'shrink-0 rounded px-1.5 py-0.5',
+                                                mutation.status === 'pending' ? 'bg-muted text-muted-foreground' : 'bg-red-500/15 text-red-500',
+                                            )}
+                                        >
+                                            {t(`offline.status.${mutation.status}`)}
+                                        </span>
+                                    </div>
+                                    <p className="text-muted-foreground">{new Date(mutation.createdAt).toLocaleString()}</p>
+                                    {mutation.status !== 'pending' && (
+                                        <>
+                                            <p className="break-words text-red-500">
+                                                {mutation.status === 'conflict' ? t('offline.conflictDescription') : t('offline.failedDescription')}
+                                                {mutation.error && ` (${mutation.error})`}
+                                            </p>
+                                            <div className="flex justify-end gap-2">
+                                                <Button
+                                                    variant="outline"
+                                                    size="sm"
+                                                    className="h-7 text-xs"
+                                                    disabled={!isOnline || isSyncing}
+                                                    onClick={() => replayQueuedMutations([mutation.id])}
+                                                >
+                                                    <ArrowPathIcon className="h-3 w-3" />
+                                                    {t('offline.retry')}
+                                                </Button>
+                                                <Button
+                                                    variant="outline"
+                                                    size="sm"
+                                                    className="h-7 text-xs"
+                                                    onClick={() => discardQueuedMutation(mutation.id)}
+                                                >
+                                                    <TrashIcon className="h-3 w-3" />
+                                                    {t('offline.discard')}
+                                                </Button>
+                                            </div>
+                                        </>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                    <ScrollBar orientation="vertical" className="!bg-transparent [&>div]:!bg-gray-600" />
+                </ScrollArea>
+            </PopoverContent>
+        </Popover>
+    );
+};
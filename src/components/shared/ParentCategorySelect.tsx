@@ -0,0 +1,47 @@
+import * as React from 'react';
+import { useTranslation } from 'react-i18next';
+
+import { useCategoryStore } from '@/store';
+import { buildCategoryTree, flattenCategoryTree, getCategorySubtreeIds } from '@/lib/categoryTree';
+
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+// Selectは空文字を値にできないため、トップレベルを表す値を別に用意する
+const TOP_LEVEL = '__top_level__';
+
+type ParentCategorySelectProps = {
+    // 親カテゴリーのID。トップレベルの場合はnull
+    value: string | null;
+    onChange: (value: string | null) => void;
+    // 編集中のカテゴリー。自身と子孫は親に選べないよう選択肢から除く
+    categoryId?: string;
+};
+
+/**
+ * 親カテゴリーを選ぶセレクトボックス。カテゴリーのツリーを字下げして表示する。
+ */
+export const ParentCategorySelect = ({ value, onChange, categoryId }: ParentCategorySelectProps) => {
+    const { t } = useTranslation();
+    const { categories } = useCategoryStore();
+
+    const options = React.useMemo(() => {
+        const excludedIds = categoryId ? getCategorySubtreeIds(categories, categoryId) : [];
+        return flattenCategoryTree(buildCategoryTree(categories)).filter((node) => !excludedIds.includes(node.id));
+    }, [categories, categoryId]);
+
+    return (
+        <Select value={value ?? TOP_LEVEL} onValueChange={(next) => onChange(next === TOP_LEVEL ? null : next)}>
+            <SelectTrigger className="w-full">
+                <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+                <SelectItem value={TOP_LEVEL}>{t('category.topLevel')}</SelectItem>
+                {options.map((node) => (
+                    <SelectItem key={node.id} value={node.id} style={{ paddingLeft: 8 + (node.depth + 1) * 12 }}>
+                        {node.name}
+                    </SelectItem>
+                ))}
+            </SelectContent>
+        </Select>
+    );
+};
@@ -2,6 +2,7 @@ import { PatternResponse } from "@/types";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "../ui/button";
 import { cn } from "@/lib/utils";
+import { DEFAULT_EASE_FACTOR, isAdaptivePattern } from "@/lib/sm2";
 import { useTranslation } from 'react-i18next';
 
 type PatternDetailProps = {
@@ -27,6 +28,11 @@ export const PatternDetail = ({ pattern, onEdit, className }: PatternDetailProps
                 <p className="text-sm text-muted-foreground">
                     {t('pattern.steps')} ({t('common.all')}): {pattern.steps.map(s => s.interval_days).join(' | ')}
                 </p>
+                {isAdaptivePattern(pattern) && (
+                    <p className="text-sm text-muted-foreground">
+                        {t('pattern.kindAdaptive')} ({t('pattern.initialEaseFactor')}: {pattern.initial_ease_factor ?? DEFAULT_EASE_FACTOR})
+                    </p>
+                )}
             </CardContent>
             {/* onEdit関数が渡された場合のみ編集ボタンを表示 */}
             {onEdit && (
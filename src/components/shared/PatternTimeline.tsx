@@ -0,0 +1,152 @@
+import * as React from 'react';
+import { useTranslation } from 'react-i18next';
+import { addDays, format, parseISO } from 'date-fns';
+import { cn } from '@/lib/utils';
+import { MAX_INTERVAL_DAYS } from '@/lib/patternSchema';
+
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+
+// 目盛りの候補（学習日からの日数）
+const TICK_DAYS = [1, 7, 14, 30, 60, 90, 180, 365, 730];
+
+type PatternTimelineProps = {
+    // 各ステップのinterval_days（学習日からの日数）。未入力のステップはundefined
+    steps: (number | undefined)[];
+    // マーカーをドラッグしてステップの日数を変えたときに呼ばれる
+    onChange: (index: number, intervalDays: number) => void;
+};
+
+/**
+ * パターンのステップを、学習日からの日数のタイムラインとして表示するコンポーネント。
+ * マーカーを左右にドラッグしてステップの日数を変更できる。前後のステップを追い越さないように日数を制限する。
+ * 間隔の短いステップが重ならないよう、横軸は日数の平方根で目盛る。
+ */
+export const PatternTimeline = ({ steps, onChange }: PatternTimelineProps) => {
+    const { t } = useTranslation();
+    const trackRef = React.useRef<HTMLDivElement>(null);
+    // ドラッグ中のステップと、ドラッグ開始時の横軸の最大値（ドラッグ中に目盛りが動かないよう固定する）
+    const [dragging, setDragging] = React.useState<{ index: number; scaleMax: number } | null>(null);
+    // 「学習日を指定してプレビュー」の状態
+    const [isPreview, setIsPreview] = React.useState(false);
+    const [learnedDate, setLearnedDate] = React.useState(() => format(new Date(), 'yyyy-MM-dd'));
+
+    const validSteps = steps.filter((days): days is number => typeof days === 'number' && days >= 1);
+    const currentMax = Math.max(7, Math.ceil(Math.max(0, ...validSteps) * 1.2));
+    const scaleMax = dragging?.scaleMax ?? currentMax;
+
+    const toPercent = (days: number) => Math.sqrt(Math.min(days, scaleMax) / scaleMax) * 100;
+
+    const formatLabel = (days: number) => {
+        if (!isPreview || !learnedDate) return t('pattern.timelineDays', { days });
+        return format(addDays(parseISO(learnedDate), days), 'yyyy-MM-dd');
+    };
+
+    // ポインターの位置から日数を求め、前後のステップの間に収める
+    const updateFromPointer = (index: number, clientX: number, max: number) => {
+        const track = trackRef.current;
+        if (!track) return;
+        const rect = track.getBoundingClientRect();
+        const ratio = Math.min(1, Math.max(0, (clientX - rect.left) / rect.width));
+        const prev = steps[index - 1];
+        const next = steps[index + 1];
+        const lower = typeof prev === 'number' ? prev + 1 : 1;
+        const upper = typeof next === 'number' ? next - 1 : MAX_INTERVAL_DAYS;
+        const days = Math.min(upper, Math.max(lower, Math.round(max * ratio * ratio)));
+        if (days !== steps[index]) onChange(index, days);
+    };
+
+    const handlePointerDown = (index: number) => (e: React.PointerEvent<HTMLButtonElement>) => {
+        e.preventDefault();
+        e.currentTarget.setPointerCapture(e.pointerId);
+        setDragging({ index, scaleMax: currentMax });
+    };
+
+    const handlePointerMove = (index: number) => (e: React.PointerEvent<HTMLButtonElement>) => {
+        if (dragging?.index !== index) return;
+        updateFromPointer(index, e.clientX, dragging.scaleMax);
+    };
+
+    const handlePointerUp = (e: React.PointerEvent<HTMLButtonElement>) => {
+        e.currentTarget.releasePointerCapture(e.pointerId);
+        setDragging(null);
+    };
+
+    // キーボードでも1日ずつ動かせるようにする
+    const handleKeyDown = (index: number) => (e: React.KeyboardEvent<HTMLButtonElement>) => {
+        const current = steps[index];
+        if (typeof current !== 'number') return;
+        const delta = e.key === 'ArrowRight' ? 1 : e.key === 'ArrowLeft' ? -1 : 0;
+        if (delta === 0) return;
+        e.preventDefault();
+        const prev = steps[index - 1];
+        const next = steps[index + 1];
+        const days = current + delta;
+        if (days < 1 || days > MAX_INTERVAL_DAYS) return;
+        if (typeof prev === 'number' && days <= prev) return;
+        if (typeof next === 'number' && days >= next) return;
+        onChange(index, days);
+    };
+
+    return (
+        <div className="space-y-2 select-none">
+            <div className="flex flex-wrap items-center gap-3 text-sm">
+                <span className="font-medium">{t('pattern.timeline')}</span>
+                <label className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <Checkbox checked={isPreview} onCheckedChange={(checked) => setIsPreview(checked === true)} />
+                    {t('pattern.timelinePreview')}
+                </label>
+                {isPreview && (
+                    <Input
+                        type="date"
+                        value={learnedDate}
+                        onChange={(e) => setLearnedDate(e.target.value)}
+                        className="h-8 w-40"
+                        aria-label={t('item.learningDate')}
+                    />
+                )}
+            </div>
+            <div className="px-4 pt-12 pb-6">
+                <div ref={trackRef} className="relative h-1 rounded bg-muted-foreground/30">
+                    {/* 学習日と目盛り */}
+                    <div className="absolute left-0 top-3 -translate-x-1/2 text-[10px] text-muted-foreground whitespace-nowrap">
+                        {isPreview && learnedDate ? learnedDate : 0}
+                    </div>
+                    {TICK_DAYS.filter((days) => days < scaleMax * 0.95).map((days) => (
+                        <div key={days} className="absolute top-0 h-2 border-l border-muted-foreground/40" style={{ left: `${toPercent(days)}%` }}>
+                            <span className="absolute top-2 -translate-x-1/2 text-[10px] text-muted-foreground">{days}</span>
+                        </div>
+                    ))}
+                    {/* ステップのマーカー */}
+                    {steps.map((days, index) => typeof days === 'number' && days >= 1 && (
+                        <div key={index} className="absolute top-1/2" style={{ left: `${toPercent(days)}%` }}>
+                            <span
+                                className={cn(
+                                    'absolute -translate-x-1/2 whitespace-nowrap rounded px-1 text-[10px]',
+                                    // 隣り合うステップのラベルが重ならないよう、交互に高さをずらす
+                                    index % 2 === 1 ? 'bottom-7' : 'bottom-3',
+                                    dragging?.index === index ? 'bg-primary text-primary-foreground' : 'text-muted-foreground',
+                                )}
+                            >
+                                {index + 1}: {formatLabel(days)}
+                            </span>
+                            <button
+                                type="button"
+                                className={cn(
+                                    'absolute h-4 w-4 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-background bg-primary cursor-grab touch-none focus:outline-none focus:ring-2 focus:ring-primary',
+                                    dragging?.index === index && 'cursor-grabbing scale-125',
+                                )}
+                                aria-label={`${t('pattern.step')} ${index + 1} ${t('pattern.intervalDays')}: ${days}`}
+                                onPointerDown={handlePointerDown(index)}
+                                onPointerMove={handlePointerMove(index)}
+                                onPointerUp={handlePointerUp}
+                                onPointerCancel={handlePointerUp}
+                                onKeyDown={handleKeyDown(index)}
+                            />
+                        </div>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,83 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { cn } from '@/lib/utils';
+
+import { RECALL_GRADES } from '@/lib/sm2';
+import { RecallGrade } from '@/types';
+
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+
+const gradeClassNames: Record<RecallGrade, string> = {
+    again: 'bg-red-600 hover:bg-red-700 text-white',
+    hard: 'bg-orange-500 hover:bg-orange-600 text-white',
+    good: 'bg-green-700 hover:bg-green-800 text-white',
+    easy: 'bg-sky-600 hover:bg-sky-700 text-white',
+};
+
+type RecallGradeButtonsProps = {
+    onSelect: (grade: RecallGrade) => void;
+    disabled?: boolean;
+    className?: string;
+};
+
+/**
+ * 想起の評価（again / hard / good / easy）を選ぶボタン群。
+ */
+export const RecallGradeButtons = ({ onSelect, disabled, className }: RecallGradeButtonsProps) => {
+    const { t } = useTranslation();
+    return (
+        <div className={cn('grid grid-cols-4 gap-1', className)}>
+            {RECALL_GRADES.map((grade) => (
+                <Button
+                    key={grade}
+                    type="button"
+                    size="sm"
+                    className={gradeClassNames[grade]}
+                    onClick={() => onSelect(grade)}
+                    disabled={disabled}
+                >
+                    {t(`grade.${grade}`)}
+                </Button>
+            ))}
+        </div>
+    );
+};
+
+type RecallGradePickerProps = {
+    onSelect: (grade: RecallGrade) => void;
+    disabled?: boolean;
+};
+
+/**
+ * adaptiveパターンの復習を完了させる「完了」ボタン。押すと評価の選択肢を表示し、選んだ評価で完了させる。
+ */
+export const RecallGradePicker = ({ onSelect, disabled }: RecallGradePickerProps) => {
+    const { t } = useTranslation();
+    const [open, setOpen] = useState(false);
+
+    return (
+        <Popover open={open} onOpenChange={setOpen}>
+            <PopoverTrigger asChild>
+                <Button
+                    variant="default"
+                    size="sm"
+                    className="bg-green-700 hover:bg-green-800 text-white w-full"
+                    disabled={disabled}
+                >
+                    {t('common.finish')}
+                </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-72 p-2" align="start">
+                <p className="text-xs text-muted-foreground mb-2">{t('grade.prompt')}</p>
+                <RecallGradeButtons
+                    onSelect={(grade) => {
+                        setOpen(false);
+                        onSelect(grade);
+                    }}
+                    disabled={disabled}
+                />
+            </PopoverContent>
+        </Popover>
+    );
+};
@@ -0,0 +1,110 @@
+import * as React from 'react';
+import { useTranslation } from 'react-i18next';
+import { toast } from 'sonner';
+
+import { buildCategoryTree, flattenCategoryTree } from '@/lib/categoryTree';
+import { showReviewNotification } from '@/lib/reminder';
+import { useCategoryStore, useReminderStore } from '@/store';
+
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+
+type ReminderSettingsProps = {
+    // 時刻を解釈するタイムゾーン（ユーザー設定）
+    timezone: string;
+};
+
+/**
+ * 設定モーダルの「リマインダー」セクション。
+ * 通知の許可はブラウザごとのため、フォームの保存とは別に、変更した時点でこの端末に保存する。
+ */
+export const ReminderSettings = ({ timezone }: ReminderSettingsProps) => {
+    const { t } = useTranslation();
+    const { categories } = useCategoryStore();
+    const {
+        enabled, time, quietHoursEnabled, quietStart, quietEnd, mutedCategoryIds,
+        setEnabled, setTime, setQuietHours, toggleMutedCategory,
+    } = useReminderStore();
+
+    const isSupported = 'Notification' in window;
+    const [permission, setPermission] = React.useState(isSupported ? Notification.permission : 'denied');
+
+    const categoryNodes = React.useMemo(() => flattenCategoryTree(buildCategoryTree(categories)), [categories]);
+
+    // 有効にするときに通知の許可を求める。許可されなければ有効にしない
+    const handleEnabledChange = async (checked: boolean) => {
+        if (!checked) {
+            setEnabled(false);
+            return;
+        }
+        const result = await Notification.requestPermission();
+        setPermission(result);
+        if (result === 'granted') {
+            setEnabled(true);
+        } else {
+            toast.error(t('reminder.permissionDenied'));
+        }
+    };
+
+    const handleTest = () => {
+        showReviewNotification(t('reminder.notificationTitle'), t('reminder.testBody')).catch((err) =>
+            toast.error(t('reminder.testFailed', { message: err instanceof Error ? err.message : String(err) }))
+        );
+    };
+
+    if (!isSupported) {
+        return <p className="text-xs text-muted-foreground">{t('reminder.unsupported')}</p>;
+    }
+
+    return (
+        <div className="space-y-3">
+            <label className="flex items-center gap-2 text-sm">
+                <Checkbox checked={enabled} onCheckedChange={(checked) => handleEnabledChange(checked === true)} />
+                {t('reminder.enable')}
+            </label>
+            {permission === 'denied' && <p className="text-xs text-destructive">{t('reminder.permissionDenied')}</p>}
+            {enabled && (
+                <div className="space-y-3 pl-6">
+                    <div className="flex flex-wrap items-center gap-2 text-sm">
+                        <span>{t('reminder.time')}</span>
+                        <Input type="time" value={time} onChange={(e) => e.target.value && setTime(e.target.value)} className="h-8 w-32" />
+                        <span className="text-xs text-muted-foreground">{timezone}</span>
+                    </div>
+                    <div className="space-y-2">
+                        <label className="flex items-center gap-2 text-sm">
+                            <Checkbox checked={quietHoursEnabled} onCheckedChange={(checked) => setQuietHours({ enabled: checked === true })} />
+                            {t('reminder.quietHours')}
+                        </label>
+                        {quietHoursEnabled && (
+                            <div className="flex items-center gap-2 pl-6 text-sm">
+                                <Input type="time" value={quietStart} onChange={(e) => e.target.value && setQuietHours({ start: e.target.value })} className="h-8 w-32" aria-label={t('reminder.quietStart')} />
+                                <span>〜</span>
+                                <Input type="time" value={quietEnd} onChange={(e) => e.target.value && setQuietHours({ end: e.target.value })} className="h-8 w-32" aria-label={t('reminder.quietEnd')} />
+                            </div>
+                        )}
+                        <p className="text-xs text-muted-foreground">{t('reminder.quietHoursDescription')}</p>
+                    </div>
+                    {categoryNodes.length > 0 && (
+                        <div className="space-y-1">
+                            <p className="text-sm">{t('reminder.mutedCategories')}</p>
+                            <div className="max-h-40 overflow-auto rounded-md border p-2">
+                                {categoryNodes.map((category) => (
+                                    <label key={category.id} className="flex items-center gap-2 py-0.5 text-sm" style={{ paddingLeft: category.depth * 16 }}>
+                                        <Checkbox checked={mutedCategoryIds.includes(category.id)} onCheckedChange={() => toggleMutedCategory(category.id)} />
+                                        <span className="truncate">{category.name}</span>
+                                    </label>
+                                ))}
+                            </div>
+                            <p className="text-xs text-muted-foreground">{t('reminder.mutedCategoriesDescription')}</p>
+                        </div>
+                    )}
+                    <Button type="button" variant="outline" size="sm" onClick={handleTest}>
+                        {t('reminder.test')}
+                    </Button>
+                </div>
+            )}
+            <p className="text-xs text-muted-foreground">{t('reminder.description')}</p>
+        </div>
+    );
+};
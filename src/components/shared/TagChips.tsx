@@ -0,0 +1,30 @@
+import { XMarkIcon } from '@heroicons/react/24/outline';
+import { cn } from '@/lib/utils';
+
+type TagChipsProps = {
+    tags: string[] | null | undefined;
+    // 指定した場合、各タグに削除ボタンを表示する
+    onRemove?: (tag: string) => void;
+    className?: string;
+};
+
+/**
+ * 復習物のタグを小さなチップとして並べて表示する。
+ */
+export const TagChips = ({ tags, onRemove, className }: TagChipsProps) => {
+    if (!tags || tags.length === 0) return null;
+    return (
+        <span className={cn('inline-flex flex-wrap items-center gap-1', className)}>
+            {tags.map((tag) => (
+                <span key={tag} className="inline-flex items-center gap-0.5 rounded-full bg-secondary px-2 py-0.5 text-[11px] leading-none text-secondary-foreground whitespace-nowrap">
+                    #{tag}
+                    {onRemove && (
+                        <button type="button" className="text-muted-foreground hover:text-foreground" onClick={() => onRemove(tag)} aria-label={`${tag} ×`}>
+                            <XMarkIcon className="h-3 w-3" />
+                        </button>
+                    )}
+                </span>
+            ))}
+        </span>
+    );
+};
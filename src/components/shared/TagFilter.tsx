@@ -0,0 +1,59 @@
+import { useTranslation } from 'react-i18next';
+import { TagIcon } from '@heroicons/react/24/outline';
+import { cn } from '@/lib/utils';
+
+import { Button } from '@/components/ui/button';
+import { DropdownMenu, DropdownMenuCheckboxItem, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+
+type TagFilterProps = {
+    // 選択肢として表示するタグ
+    tags: string[];
+    selected: string[];
+    onChange: (selected: string[]) => void;
+    className?: string;
+};
+
+/**
+ * タグで絞り込むためのドロップダウン。複数選択した場合は、全てのタグを持つ復習物に絞り込む。
+ */
+export const TagFilter = ({ tags, selected, onChange, className }: TagFilterProps) => {
+    const { t } = useTranslation();
+
+    const toggle = (tag: string, checked: boolean) =>
+        onChange(checked ? [...selected, tag] : selected.filter((v) => v !== tag));
+
+    return (
+        <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm" className={cn('flex items-center gap-1', selected.length > 0 && 'border-primary text-primary', className)}>
+                    <TagIcon className="h-4 w-4" />
+                    <span className="truncate">
+                        {selected.length > 0 ? selected.map((tag) => `#${tag}`).join(' ') : t('tags.filter')}
+                    </span>
+                </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="max-h-80 overflow-y-auto">
+                {tags.length === 0 ? (
+                    <DropdownMenuItem disabled>{t('tags.noTags')}</DropdownMenuItem>
+                ) : (
+                    tags.map((tag) => (
+                        <DropdownMenuCheckboxItem
+                            key={tag}
+                            checked={selected.includes(tag)}
+                            onCheckedChange={(checked) => toggle(tag, checked === true)}
+                            onSelect={(e) => e.preventDefault()}
+                        >
+                            #{tag}
+                        </DropdownMenuCheckboxItem>
+                    ))
+                )}
+                {selected.length > 0 && (
+                    <>
+                        <DropdownMenuSeparator />
+                        <DropdownMenuItem onClick={() => onChange([])}>{t('tags.clear')}</DropdownMenuItem>
+                    </>
+                )}
+            </DropdownMenuContent>
+        </DropdownMenu>
+    );
+};
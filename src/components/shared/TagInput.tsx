@@ -0,0 +1,56 @@
+import * as React from 'react';
+import { useTranslation } from 'react-i18next';
+
+import { normalizeTag } from '@/lib/tags';
+import { TagChips } from '@/components/shared/TagChips';
+
+type TagInputProps = {
+    value: string[];
+    onChange: (tags: string[]) => void;
+    // 入力候補として表示する既存のタグ
+    suggestions?: string[];
+};
+
+/**
+ * 復習物のタグを編集する入力欄。Enterまたは「,」でタグを追加し、入力が空のときのBackspaceで最後のタグを削除する。
+ */
+export const TagInput = ({ value, onChange, suggestions = [] }: TagInputProps) => {
+    const { t } = useTranslation();
+    const listId = React.useId();
+    const [draft, setDraft] = React.useState('');
+
+    const addTag = (raw: string) => {
+        const tag = normalizeTag(raw);
+        if (tag && !value.includes(tag)) onChange([...value, tag]);
+        setDraft('');
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'Enter' || e.key === ',') {
+            e.preventDefault();
+            addTag(draft);
+        } else if (e.key === 'Backspace' && draft === '' && value.length > 0) {
+            onChange(value.slice(0, -1));
+        }
+    };
+
+    return (
+        <div className="flex min-h-9 w-full flex-wrap items-center gap-1 rounded-md border bg-transparent px-2 py-1 dark:bg-input/30">
+            <TagChips tags={value} onRemove={(tag) => onChange(value.filter((v) => v !== tag))} />
+            <input
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onKeyDown={handleKeyDown}
+                onBlur={() => draft && addTag(draft)}
+                placeholder={value.length === 0 ? t('tags.placeholder') : undefined}
+                list={listId}
+                className="min-w-24 flex-1 bg-transparent text-sm outline-none placeholder:text-muted-foreground"
+            />
+            <datalist id={listId}>
+                {suggestions.filter((tag) => !value.includes(tag)).map((tag) => (
+                    <option key={tag} value={tag} />
+                ))}
+            </datalist>
+        </div>
+    );
+};
@@ -0,0 +1,214 @@
+import * as React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useTranslation } from 'react-i18next';
+import { addDays, format, startOfDay } from 'date-fns';
+import { ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { cn } from '@/lib/utils';
+import { toDateKey } from '@/lib/date';
+
+import { fetchAllItems } from '@/api/itemApi';
+import { useForecastStore, usePatternStore } from '@/store';
+import { ItemResponse, PatternResponse } from '@/types';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+// 予測日数の選択肢
+const FORECAST_DAYS_OPTIONS = [14, 30, 60];
+
+// 1日分の予測値
+type ForecastDay = {
+    date: string;
+    existing: number;
+    projected: number;
+};
+
+/**
+ * 既存の復習物の未完了の復習日を、日付ごとに数えるヘルパー関数
+ * @param items - 全ての復習物
+ * @param dateKeys - 集計対象の日付(yyyy-MM-dd)
+ */
+const countExistingReviews = (items: ItemResponse[], dateKeys: string[]): Record<string, number> => {
+    const counts: Record<string, number> = Object.fromEntries(dateKeys.map((key) => [key, 0]));
+    items.forEach((item) => {
+        item.review_dates.forEach((reviewDate) => {
+            if (reviewDate.is_completed || !reviewDate.scheduled_date) return;
+            const key = toDateKey(reviewDate.scheduled_date);
+            if (key in counts) counts[key] += 1;
+        });
+    });
+    return counts;
+};
+
+/**
+ * パターンの各ステップのinterval_days(学習日からの日数)から、予定される復習日を算出するヘルパー関数
+ * @param pattern - 適用するパターン
+ * @param learnedDate - 学習日
+ */
+const projectReviewDates = (pattern: PatternResponse, learnedDate: Date): string[] => {
+    return [...pattern.steps]
+        .sort((a, b) => a.step_number - b.step_number)
+        .map((step) => format(addDays(learnedDate, step.interval_days), 'yyyy-MM-dd'));
+};
+
+// 予測値のうち、上限を超える日数を数える
+const countOverloadedDays = (forecast: ForecastDay[], dailyCap: number) =>
+    forecast.filter((day) => day.projected > 0 && day.existing + day.projected > dailyCap).length;
+
+type WorkloadForecastProps = {
+    // 選択中のパターンID。未選択の場合は既存の負荷のみ表示する
+    patternId: string | null | undefined;
+    // 予測に使う学習日
+    learnedDate: Date;
+    // 負荷を抑えられる別のパターンが選ばれたときのコールバック。未指定の場合は提案を表示しない
+    onSelectPattern?: (pattern: PatternResponse) => void;
+};
+
+/**
+ * パターン選択時に、今後N日間の復習件数の見通しを棒グラフで表示するコンポーネント。
+ * 既存の復習物の復習日と、選択中のパターンを適用した場合の復習日を合算し、1日の上限を超える日を強調する。
+ */
+export const WorkloadForecast = ({ patternId, learnedDate, onSelectPattern }: WorkloadForecastProps) => {
+    const { t } = useTranslation();
+    const { patterns } = usePatternStore();
+    const { days, dailyCap, setDays, setDailyCap } = useForecastStore();
+
+    const { data: allItems, isLoading } = useQuery({
+        queryKey: ['allItems'],
+        queryFn: fetchAllItems,
+    });
+
+    const dateKeys = React.useMemo(() => {
+        const today = startOfDay(new Date());
+        return Array.from({ length: days }, (_, i) => format(addDays(today, i), 'yyyy-MM-dd'));
+    }, [days]);
+
+    const existingCounts = React.useMemo(() => countExistingReviews(allItems || [], dateKeys), [allItems, dateKeys]);
+
+    // パターンを適用した場合の日別の予測値を組み立てる
+    const buildForecast = React.useCallback((pattern: PatternResponse | undefined): ForecastDay[] => {
+        const projected = pattern ? projectReviewDates(pattern, learnedDate) : [];
+        return dateKeys.map((date) => ({
+            date,
+            existing: existingCounts[date],
+            projected: projected.filter((d) => d === date).length,
+        }));
+    }, [dateKeys, existingCounts, learnedDate]);
+
+    const selectedPattern = patterns.find((p) => p.id === patternId);
+    const forecast = React.useMemo(() => buildForecast(selectedPattern), [buildForecast, selectedPattern]);
+    const overloadedDays = countOverloadedDays(forecast, dailyCap);
+    const maxCount = Math.max(dailyCap, ...forecast.map((day) => day.existing + day.projected), 1);
+
+    // 過負荷の日がある場合、より負荷の少ない別のパターンを提案する
+    const suggestions = React.useMemo(() => {
+        if (!onSelectPattern || overloadedDays === 0) return [];
+        return patterns
+            .filter((p) => p.id !== patternId)
+            .map((p) => ({ pattern: p, overloaded: countOverloadedDays(buildForecast(p), dailyCap) }))
+            .filter((s) => s.overloaded < overloadedDays)
+            .sort((a, b) => a.overloaded - b.overloaded)
+            .slice(0, 3);
+    }, [onSelectPattern, overloadedDays, patterns, patternId, buildForecast, dailyCap]);
+
+    return (
+        <div className="space-y-2 rounded-md border p-3">
+            <div className="flex items-center justify-between gap-2">
+                <span className="text-sm font-semibold">{t('forecast.title')}</span>
+                <div className="flex items-center gap-2 text-xs">
+                    <Select value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+                        <SelectTrigger size="sm" className="h-7 w-[6.5rem]">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {FORECAST_DAYS_OPTIONS.map((option) => (
+                                <SelectItem key={option} value={String(option)}>
+                                    {t('forecast.days', { count: option })}
+                                </SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                    <label className="flex items-center gap-1 whitespace-nowrap">
+                        {t('forecast.dailyCap')}
+                        <Input
+                            type="number"
+                            min={1}
+                            value={dailyCap}
+                            onChange={(e) => {
+                                const value = Number(e.target.value);
+                                if (value >= 1) setDailyCap(value);
+                            }}
+                            className="h-7 w-16 px-2 text-xs"
+                        />
+                    </label>
+                </div>
+            </div>
+
+            {isLoading ? (
+                <Skeleton className="h-24 w-full" />
+            ) : (
+                <div className="relative flex h-24 items-end gap-px">
+                    {/* 上限ライン */}
+                    <div
+                        className="absolute inset-x-0 border-t border-dashed border-red-500/70"
+                        style={{ bottom: `${(dailyCap / maxCount) * 100}%` }}
+                    />
+                    {forecast.map((day) => {
+                        const isOverloaded = day.existing + day.projected > dailyCap;
+                        return (
+                            <div
+                                key={day.date}
+                                className="flex h-full flex-1 flex-col justify-end"
+                                title={`${day.date}: ${day.existing} + ${day.projected}`}
+                            >
+                                {day.projected > 0 && (
+                                    <div
+                                        className={cn('w-full', isOverloaded ? 'bg-red-600' : 'bg-blue-600')}
+                                        style={{ height: `${(day.projected / maxCount) * 100}%` }}
+                                    />
+                                )}
+                                <div
+                                    className={cn('w-full', isOverloaded ? 'bg-red-400/60' : 'bg-neutral-400 dark:bg-neutral-600')}
+                                    style={{ height: `${(day.existing / maxCount) * 100}%` }}
+                                />
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+
+            <div className="flex items-center justify-between text-xs text-muted-foreground">
+                <span>{dateKeys[0]}</span>
+                <span className="flex items-center gap-2">
+                    <span className="inline-block h-2 w-2 bg-neutral-400 dark:bg-neutral-600" />{t('forecast.existing')}
+                    <span className="inline-block h-2 w-2 bg-blue-600" />{t('forecast.projected')}
+                </span>
+                <span>{dateKeys[dateKeys.length - 1]}</span>
+            </div>
+
+            {overloadedDays > 0 ? (
+                <p className="flex items-center gap-1 text-xs text-red-500">
+                    <ExclamationTriangleIcon className="h-4 w-4" />
+                    {t('forecast.overloaded', { count: overloadedDays, cap: dailyCap })}
+                </p>
+            ) : (
+                selectedPattern && <p className="text-xs text-muted-foreground">{t('forecast.withinCap')}</p>
+            )}
+
+            {suggestions.length > 0 && (
+                <div className="space-y-1">
+                    <p className="text-xs text-muted-foreground">{t('forecast.suggestion')}</p>
+                    <div className="flex flex-wrap gap-1">
+                        {suggestions.map(({ pattern, overloaded }) => (
+                            <Button key={pattern.id} type="button" variant="outline" size="sm" className="h-7 text-xs" onClick={() => onSelectPattern?.(pattern)}>
+                                {pattern.name} ({t('forecast.overloadedShort', { count: overloaded })})
+                            </Button>
+                        ))}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -1,4 +1,4 @@
-import { ThemeColor, Language } from "@/types";
+import { ThemeColor, Language, TargetWeight } from "@/types";
 
 export const THEME_COLORS: { value: ThemeColor; label: string }[] = [
     { value: 'dark', label: 'Dark' },
@@ -31,4 +31,12 @@ export const TIMEZONES = [
 ];
 
 // 未分類カテゴリーやボックスを識別するための一意なID
-export const UNCLASSIFIED_ID = 'unclassified';
\ No newline at end of file
+export const UNCLASSIFIED_ID = 'unclassified';
+// パターン作成時に選べる組み込みのテンプレート。名前と説明はi18nのpatternTemplate.<id>を使う
+export const PATTERN_TEMPLATES: { id: string; target_weight: TargetWeight; steps: number[] }[] = [
+    { id: 'standard', target_weight: 'normal', steps: [1, 3, 7, 14, 30] },
+    { id: 'ebbinghaus', target_weight: 'normal', steps: [1, 2, 6, 31] },
+    { id: 'leitner', target_weight: 'normal', steps: [1, 2, 4, 8, 16, 32, 64] },
+    { id: 'intensive', target_weight: 'heavy', steps: [1, 2, 3, 5, 8, 13, 21] },
+    { id: 'longTerm', target_weight: 'light', steps: [1, 7, 30, 90, 180, 365] },
+];
@@ -0,0 +1,30 @@
+import { useEffect } from 'react';
+import { useQuery } from '@tanstack/react-query';
+
+import { fetchTotalDailyReviewCount } from '@/api/itemApi';
+import { setAppBadgeCount } from '@/lib/reminder';
+import { CountResponse } from '@/types';
+
+// 日付が変わったときにも件数が更新されるよう、定期的に再取得する
+const REFETCH_INTERVAL_MS = 15 * 60 * 1000;
+
+/**
+ * インストールしたアプリのアイコンに、今日の残りの復習件数をバッジとして表示する（App Badging API）。
+ * 復習を完了すると['summary']のクエリが無効化されるため、件数も追従する。ログアウトなどでレイアウトが外れたらバッジを消す。
+ * 認証済みレイアウトで一度だけ呼び出す。
+ */
+export const useAppBadge = () => {
+    const { data } = useQuery<CountResponse>({
+        queryKey: ['summary', 'totalDailyReviewCount'],
+        queryFn: fetchTotalDailyReviewCount,
+        refetchInterval: REFETCH_INTERVAL_MS,
+    });
+
+    useEffect(() => {
+        if (data) setAppBadgeCount(data.count);
+    }, [data]);
+
+    useEffect(() => () => {
+        setAppBadgeCount(0);
+    }, []);
+};
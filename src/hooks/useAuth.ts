@@ -4,6 +4,7 @@ import { useNavigate } from 'react-router-dom';
 import { toast } from 'sonner';
 
 import { login, logout, signup, fetchUser, verifyEmail, resetPassword } from '@/api/authApi';
+import { clearQueuedMutations } from '@/api/offlineQueue';
 import { useUserStore } from '@/store';
 import { useAuthTexts } from '@/store/authLanguageStore';
 
@@ -93,6 +94,7 @@ export const useAuth = (options: { enabled?: boolean } = {}) => {
         mutationFn: logout,
         onSuccess: () => {
             clearUser();
+            clearQueuedMutations();
             queryClient.cancelQueries({ queryKey: ['user'] });
             queryClient.removeQueries({ queryKey: ['user'] });
             queryClient.setQueryData(['user'], null);
@@ -0,0 +1,112 @@
+import * as React from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import axios from 'axios';
+import { toast } from 'sonner';
+import { useTranslation } from 'react-i18next';
+
+import { moveItem } from '@/api/itemApi';
+import { getStoreBoxId, useBoxStore, useItemStore } from '@/store';
+import { ItemResponse } from '@/types';
+import { ItemMove, useItemUndo } from './useItemUndo';
+
+// ドラッグ中の復習物をdataTransferで受け渡すときのMIMEタイプ
+export const ITEM_DRAG_TYPE = 'application/x-review-setter-items';
+
+// 移動先。未分類の場合はnull
+export type ItemDropTarget = {
+    categoryId: string | null;
+    boxId: string | null;
+};
+
+/**
+ * ドラッグを開始した行の復習物をdataTransferに載せる。
+ * @param items - 移動させる復習物（選択中の複数行をまとめてドラッグする場合もある）
+ */
+export const setItemDragData = (e: React.DragEvent, items: ItemResponse[]) => {
+    e.dataTransfer.setData(ITEM_DRAG_TYPE, JSON.stringify(items));
+    e.dataTransfer.effectAllowed = 'move';
+};
+
+/**
+ * サイドバーのボックス・カテゴリーを復習物のドロップ先にするためのフック。
+ * ドロップされた復習物をZustandストア上で先に移動させてからAPIを呼び出し、失敗した場合は元に戻す。
+ * 移動後のトーストから移動を取り消せる。
+ */
+export const useItemDrop = () => {
+    const { t } = useTranslation();
+    const queryClient = useQueryClient();
+    const { boxesByCategoryId } = useBoxStore();
+    const { addItemToBox, removeItemFromBox, updateItemInBox } = useItemStore();
+    const { recordMoved } = useItemUndo();
+    // ドラッグ中にカーソルが乗っているドロップ先のキー（ハイライト用）
+    const [dropTargetKey, setDropTargetKey] = React.useState<string | null>(null);
+
+    const moveItems = async (items: ItemResponse[], target: ItemDropTarget) => {
+        const box = target.boxId ? boxesByCategoryId[target.categoryId ?? '']?.find((b) => b.id === target.boxId) : undefined;
+        const toStoreBoxId = getStoreBoxId(target.boxId, target.categoryId);
+        const movingItems = items.filter((item) => getStoreBoxId(item.box_id, item.category_id) !== toStoreBoxId);
+        if (movingItems.length === 0) return;
+
+        const moves: ItemMove[] = [];
+        await Promise.all(movingItems.map(async (item) => {
+            const fromStoreBoxId = getStoreBoxId(item.box_id, item.category_id);
+            // ボックスに移動する場合はそのボックスのパターンを適用し、未分類の場合は現在のパターンを引き継ぐ
+            const patternId = box ? box.pattern_id : item.pattern_id;
+            const optimisticItem = { ...item, category_id: target.categoryId, box_id: target.boxId, pattern_id: patternId };
+
+            removeItemFromBox(fromStoreBoxId, item.item_id);
+            addItemToBox(toStoreBoxId, optimisticItem);
+            try {
+                const updatedItem = await moveItem({ item, categoryId: target.categoryId, boxId: target.boxId, patternId });
+                // APIレスポンスにreview_datesが不完全な場合、元のデータで補完
+                updateItemInBox(toStoreBoxId, {
+                    ...updatedItem,
+                    review_dates: updatedItem.review_dates?.length ? updatedItem.review_dates : item.review_dates,
+                });
+                moves.push({ item, categoryId: target.categoryId, boxId: target.boxId, patternId });
+            } catch (err) {
+                removeItemFromBox(toStoreBoxId, item.item_id);
+                addItemToBox(fromStoreBoxId, item);
+                if (axios.isAxiosError(err) && err.response?.status === 400) {
+                    toast.error(`${item.name}: ${t('notification.itemUpdatedError')}`);
+                } else {
+                    toast.error(t('error.updateFailed', { message: err instanceof Error ? err.message : '' }));
+                }
+            }
+        }));
+
+        // 取り消すと元のボックスに戻せる
+        recordMoved(moves, t('dragDrop.moved', { count: moves.length }));
+        queryClient.invalidateQueries({ queryKey: ['items'] });
+        queryClient.invalidateQueries({ queryKey: ['todaysReviews'] });
+        queryClient.invalidateQueries({ queryKey: ['summary'] });
+        queryClient.invalidateQueries({ queryKey: ['allItems'] });
+    };
+
+    /**
+     * ドロップ先の要素に渡すイベントハンドラーを生成する。
+     * @param key - ハイライト判定に使う一意なキー
+     * @param onDragEnter - 復習物がドラッグされてきたときの追加処理（カテゴリーの展開など）
+     */
+    const getDropTargetProps = (key: string, target: ItemDropTarget, onDragEnter?: () => void) => ({
+        onDragOver: (e: React.DragEvent) => {
+            if (!e.dataTransfer.types.includes(ITEM_DRAG_TYPE)) return;
+            e.preventDefault();
+            e.dataTransfer.dropEffect = 'move';
+            if (dropTargetKey !== key) {
+                setDropTargetKey(key);
+                onDragEnter?.();
+            }
+        },
+        onDragLeave: () => setDropTargetKey((current) => (current === key ? null : current)),
+        onDrop: (e: React.DragEvent) => {
+            setDropTargetKey(null);
+            const data = e.dataTransfer.getData(ITEM_DRAG_TYPE);
+            if (!data) return;
+            e.preventDefault();
+            moveItems(JSON.parse(data) as ItemResponse[], target);
+        },
+    });
+
+    return { dropTargetKey, getDropTargetProps };
+};
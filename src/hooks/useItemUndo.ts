@@ -0,0 +1,121 @@
+import { useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { useTranslation } from 'react-i18next';
+
+import { deleteItem, markItemAsFinished, markItemAsUnfinished, moveItem } from '@/api/itemApi';
+import { PartialDeletionError } from '@/lib/undo';
+import { getStoreBoxId, useItemStore } from '@/store';
+import { ItemResponse } from '@/types';
+import { useUndo } from './useUndo';
+
+// 移動した復習物と移動先
+export type ItemMove = {
+    // 移動前の復習物
+    item: ItemResponse;
+    categoryId: string | null;
+    boxId: string | null;
+    patternId: string | null;
+};
+
+/**
+ * 復習物の削除・完了済みにする操作・移動を、トーストの「元に戻す」で取り消せるようにするフック。
+ */
+export const useItemUndo = () => {
+    const { t } = useTranslation();
+    const queryClient = useQueryClient();
+    const { record, scheduleDelete } = useUndo();
+
+    const invalidateItemQueries = () => {
+        queryClient.invalidateQueries({ queryKey: ['items'] });
+        queryClient.invalidateQueries({ queryKey: ['finishedItems'] });
+        queryClient.invalidateQueries({ queryKey: ['allItems'] });
+        queryClient.invalidateQueries({ queryKey: ['todaysReviews'] });
+        queryClient.invalidateQueries({ queryKey: ['summary'] });
+    };
+
+    // 全件に実行し、失敗した対象を返す
+    const settleAll = async <T,>(targets: T[], run: (target: T) => Promise<unknown>) => {
+        try {
+            const results = await Promise.allSettled(targets.map(run));
+            return targets.filter((_, index) => results[index].status === 'rejected');
+        } finally {
+            invalidateItemQueries();
+        }
+    };
+
+    // 全件に実行し、一部が失敗した場合は件数をまとめてエラーにする
+    const runAll = async <T,>(targets: T[], run: (target: T) => Promise<unknown>) => {
+        const failed = await settleAll(targets, run);
+        if (failed.length > 0) throw new Error(t('undo.partiallyFailed', { failed: failed.length, total: targets.length }));
+    };
+
+    /**
+     * 復習物を削除する。すぐに一覧から隠し、取り消し期間が過ぎてからサーバーから削除する。
+     */
+    const deleteItems = (items: ItemResponse[]) => {
+        if (items.length === 0) return;
+        const { addItemToBox, removeItemFromBox } = useItemStore.getState();
+
+        scheduleDelete({
+            targetIds: items.map((item) => item.item_id),
+            label: items.length === 1
+                ? t('undo.itemDeleted', { name: items[0].name })
+                : t('undo.itemsDeleted', { count: items.length }),
+            hide: () => {
+                items.forEach((item) => removeItemFromBox(getStoreBoxId(item.box_id, item.category_id), item.item_id));
+                invalidateItemQueries();
+            },
+            restore: (targetIds) => {
+                items
+                    .filter((item) => targetIds.includes(item.item_id))
+                    .forEach((item) => addItemToBox(getStoreBoxId(item.box_id, item.category_id), item));
+                invalidateItemQueries();
+            },
+            // 削除に失敗した復習物だけを表示に戻せるよう、失敗したIDをエラーに持たせる
+            commit: async ({ keepalive }) => {
+                const failed = await settleAll(items, (item) => deleteItem(item.item_id, { keepalive }));
+                if (failed.length > 0) {
+                    throw new PartialDeletionError(
+                        t('undo.partiallyFailed', { failed: failed.length, total: items.length }),
+                        failed.map((item) => item.item_id),
+                    );
+                }
+            },
+        });
+    };
+
+    /**
+     * 完了済みにした復習物を履歴に積む。取り消すと、完了済み一覧の「再開」と同じく復習を再開する。
+     * パターンのない復習物は再開できないため、取り消しの対象から除く。
+     */
+    const recordFinished = (items: ItemResponse[], label: string) => {
+        const targets = items.filter((item) => item.pattern_id);
+        if (targets.length === 0) {
+            toast.success(label);
+            return;
+        }
+        record({
+            label,
+            undo: () => runAll(targets, (item) => markItemAsUnfinished({
+                itemId: item.item_id,
+                data: { pattern_id: item.pattern_id!, learned_date: item.learned_date, today: format(new Date(), 'yyyy-MM-dd') },
+            })),
+            redo: () => runAll(targets, (item) => markItemAsFinished(item.item_id)),
+        });
+    };
+
+    /**
+     * 移動した復習物を履歴に積む。取り消すと元のカテゴリー・ボックス・パターンに戻す。
+     */
+    const recordMoved = (moves: ItemMove[], label: string) => {
+        if (moves.length === 0) return;
+        record({
+            label,
+            undo: () => runAll(moves, ({ item }) => moveItem({ item, categoryId: item.category_id, boxId: item.box_id, patternId: item.pattern_id })),
+            redo: () => runAll(moves, ({ item, categoryId, boxId, patternId }) => moveItem({ item, categoryId, boxId, patternId })),
+        });
+    };
+
+    return { deleteItems, recordFinished, recordMoved };
+};
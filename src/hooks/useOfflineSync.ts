@@ -0,0 +1,34 @@
+import { useEffect } from 'react';
+
+import { loadQueuedMutations, replayQueuedMutations } from '@/api/offlineQueue';
+import { useOfflineStore } from '@/store';
+
+/**
+ * オンライン・オフラインの状態を監視し、再接続時にキューに積まれた更新リクエストを再送する。
+ * 認証済みレイアウトで一度だけ呼び出す。
+ */
+export const useOfflineSync = () => {
+    const setOnline = useOfflineStore((state) => state.setOnline);
+
+    useEffect(() => {
+        const handleOnline = () => {
+            setOnline(true);
+            replayQueuedMutations();
+        };
+        const handleOffline = () => setOnline(false);
+
+        // 前回のセッションで再送しきれなかったキューを読み込み、オンラインなら再送する
+        loadQueuedMutations().then((queue) => {
+            if (navigator.onLine && queue.some((m) => m.status === 'pending')) {
+                replayQueuedMutations();
+            }
+        });
+
+        window.addEventListener('online', handleOnline);
+        window.addEventListener('offline', handleOffline);
+        return () => {
+            window.removeEventListener('online', handleOnline);
+            window.removeEventListener('offline', handleOffline);
+        };
+    }, [setOnline]);
+};
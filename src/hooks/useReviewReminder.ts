@@ -0,0 +1,82 @@
+import { useEffect } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { useTranslation } from 'react-i18next';
+
+import { fetchDailyReviewCountByBox, fetchDailyUnclassifiedReviewCountByCategory, fetchTotalDailyReviewCount } from '@/api/itemApi';
+import { getCategorySubtreeIds } from '@/lib/categoryTree';
+import { excludeMutedReviewCount, getZonedDateTime, isWithinQuietHours, showReviewNotification } from '@/lib/reminder';
+import { useCategoryStore, useReminderStore, useUserStore } from '@/store';
+import { CountResponse, DailyCountGroupedByBoxResponse, UnclassifiedDailyDatesCountGroupedByCategoryResponse } from '@/types';
+
+// リマインダーの時刻になったかを確認する間隔
+const CHECK_INTERVAL_MS = 60 * 1000;
+
+/**
+ * 設定した時刻（ユーザーのタイムゾーン）になったら、今日の復習の件数をブラウザ通知で知らせる。
+ * 通知は1日1回まで。おやすみ時間中は通知せず、終了後に通知する。
+ * ブラウザだけでは予約した通知を出せないため、アプリを開いている間（バックグラウンドのタブを含む）に確認する。
+ * 認証済みレイアウトで一度だけ呼び出す。
+ */
+export const useReviewReminder = () => {
+    const queryClient = useQueryClient();
+    const { t } = useTranslation();
+
+    useEffect(() => {
+        let isChecking = false;
+
+        const check = async () => {
+            // 設定はインターバルの中で最新の値を読む
+            const settings = useReminderStore.getState();
+            const user = useUserStore.getState().user;
+            if (isChecking || !settings.enabled || !user || !('Notification' in window) || Notification.permission !== 'granted') return;
+
+            isChecking = true;
+            try {
+                // タイムゾーンが不正な場合は例外になるため、tryの中で求める
+                const now = getZonedDateTime(new Date(), user.timezone);
+                if (settings.lastNotifiedDate === now.date || now.time < settings.time) return;
+                if (settings.quietHoursEnabled && isWithinQuietHours(now.time, settings.quietStart, settings.quietEnd)) return;
+
+                const total = await queryClient.fetchQuery<CountResponse>({
+                    queryKey: ['summary', 'totalDailyReviewCount'],
+                    queryFn: fetchTotalDailyReviewCount,
+                });
+                let count = total.count;
+                if (settings.mutedCategoryIds.length > 0) {
+                    const categories = useCategoryStore.getState().categories;
+                    const mutedIds = settings.mutedCategoryIds.flatMap((id) => getCategorySubtreeIds(categories, id));
+                    const [countByBox, unclassifiedCountByCategory] = await Promise.all([
+                        queryClient.fetchQuery<DailyCountGroupedByBoxResponse[]>({
+                            queryKey: ['summary', 'dailyReviewCountByBox'],
+                            queryFn: fetchDailyReviewCountByBox,
+                        }),
+                        queryClient.fetchQuery<UnclassifiedDailyDatesCountGroupedByCategoryResponse[]>({
+                            queryKey: ['summary', 'dailyUnclassifiedReviewCountByCategory'],
+                            queryFn: fetchDailyUnclassifiedReviewCountByCategory,
+                        }),
+                    ]);
+                    count = excludeMutedReviewCount(count, countByBox, unclassifiedCountByCategory, mutedIds);
+                }
+
+                // 件数が0の日も通知済みとして記録し、その日はもう確認しない
+                settings.setLastNotifiedDate(now.date);
+                if (count > 0) {
+                    await showReviewNotification(t('reminder.notificationTitle'), t('reminder.notificationBody', { count }));
+                }
+            } catch (err) {
+                console.error('Failed to show review reminder: ', err);
+            } finally {
+                isChecking = false;
+            }
+        };
+
+        check();
+        const timer = window.setInterval(check, CHECK_INTERVAL_MS);
+        // スリープからの復帰などでインターバルが遅れた場合に備え、タブが表示されたときにも確認する
+        document.addEventListener('visibilitychange', check);
+        return () => {
+            window.clearInterval(timer);
+            document.removeEventListener('visibilitychange', check);
+        };
+    }, [queryClient, t]);
+};
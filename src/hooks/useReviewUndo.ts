@@ -0,0 +1,69 @@
+import { useQueryClient } from '@tanstack/react-query';
+
+import { completeReviewDate, incompleteReviewDate } from '@/api/itemApi';
+import { RecallGrade } from '@/types';
+import { useUndo } from './useUndo';
+
+// 完了・未完了を切り替えた復習日
+export type ReviewDateRef = {
+    itemId: string;
+    reviewDateId: string;
+    stepNumber: number;
+    // adaptiveパターンで完了したときの評価。やり直すときに同じ評価で完了する
+    grade?: RecallGrade;
+};
+
+/**
+ * 復習日の完了・未完了を、トーストの「元に戻す」で反対の操作に戻せるようにするフック。
+ * 完了・未完了の更新が成功した後に呼び出す。
+ */
+export const useReviewUndo = () => {
+    const queryClient = useQueryClient();
+    const { record } = useUndo();
+
+    const invalidateReviewQueries = () => {
+        queryClient.invalidateQueries({ queryKey: ['items'] });
+        queryClient.invalidateQueries({ queryKey: ['todaysReviews'] });
+        queryClient.invalidateQueries({ queryKey: ['summary'] });
+        queryClient.invalidateQueries({ queryKey: ['finishedItems'] });
+        queryClient.invalidateQueries({ queryKey: ['allItems'] });
+    };
+
+    // 同じ復習物の復習日はステップ順に完了し、逆順に未完了へ戻す
+    const completeAll = async (refs: ReviewDateRef[]) => {
+        try {
+            for (const ref of refs) {
+                await completeReviewDate({ itemId: ref.itemId, reviewDateId: ref.reviewDateId, data: { step_number: ref.stepNumber, grade: ref.grade } });
+            }
+        } finally {
+            invalidateReviewQueries();
+        }
+    };
+    const incompleteAll = async (refs: ReviewDateRef[]) => {
+        try {
+            for (const ref of [...refs].reverse()) {
+                await incompleteReviewDate({ itemId: ref.itemId, reviewDateId: ref.reviewDateId, data: { step_number: ref.stepNumber } });
+            }
+        } finally {
+            invalidateReviewQueries();
+        }
+    };
+
+    /**
+     * 完了した復習日を履歴に積む。取り消すと未完了に戻す。
+     */
+    const recordCompleted = (refs: ReviewDateRef[], label: string) => {
+        if (refs.length === 0) return;
+        record({ label, undo: () => incompleteAll(refs), redo: () => completeAll(refs) });
+    };
+
+    /**
+     * 未完了に戻した復習日を履歴に積む。取り消すと再び完了する。
+     */
+    const recordIncompleted = (refs: ReviewDateRef[], label: string) => {
+        if (refs.length === 0) return;
+        record({ label, undo: () => completeAll(refs), redo: () => incompleteAll(refs) });
+    };
+
+    return { recordCompleted, recordIncompleted };
+};
@@ -0,0 +1,74 @@
+import { toast } from 'sonner';
+import { useTranslation } from 'react-i18next';
+
+import { DeletionInput, recordAction, redoAction, scheduleDeletion, undoAction, UndoableActionInput, UNDO_WINDOW_MS } from '@/lib/undo';
+
+/**
+ * 取り消せる操作を履歴に積み、「元に戻す」ボタン付きのトーストを表示するフック。
+ * トーストのボタンの他に、Ctrl/Cmd+Z（やり直しはCtrl/Cmd+Shift+Z）でも直近の操作を取り消せる。
+ */
+export const useUndo = () => {
+    const { t } = useTranslation();
+
+    const notifyError = (err: unknown) =>
+        toast.error(t('undo.failed', { message: err instanceof Error ? err.message : String(err) }));
+
+    const showUndoToast = (actionId: string, message: string) => {
+        toast.success(message, {
+            duration: UNDO_WINDOW_MS,
+            action: { label: t('undo.undo'), onClick: () => undo(actionId) },
+        });
+    };
+
+    async function undo(actionId?: string) {
+        try {
+            const action = await undoAction(actionId);
+            if (!action) {
+                if (!actionId) toast(t('undo.nothingToUndo'));
+                return;
+            }
+            toast(t('undo.undone', { label: action.label }), {
+                duration: UNDO_WINDOW_MS,
+                action: { label: t('undo.redo'), onClick: () => redo(action.id) },
+            });
+        } catch (err) {
+            notifyError(err);
+        }
+    }
+
+    async function redo(actionId?: string) {
+        try {
+            const action = await redoAction(actionId);
+            if (!action) {
+                if (!actionId) toast(t('undo.nothingToRedo'));
+                return;
+            }
+            showUndoToast(action.id, t('undo.redone', { label: action.label }));
+        } catch (err) {
+            notifyError(err);
+        }
+    }
+
+    /**
+     * 実行済みの操作を履歴に積み、トーストを表示する。
+     */
+    const record = (input: UndoableActionInput) => {
+        const action = recordAction(input);
+        showUndoToast(action.id, action.label);
+        return action;
+    };
+
+    /**
+     * 削除を取り消し期間が過ぎるまで遅らせ、トーストを表示する。削除に失敗した場合はエラーを表示する。
+     */
+    const scheduleDelete = (input: Omit<DeletionInput, 'onCommitError'>) => {
+        const action = scheduleDeletion({
+            ...input,
+            onCommitError: (err) => toast.error(t('error.deleteFailed', { message: err instanceof Error ? err.message : String(err) })),
+        });
+        showUndoToast(action.id, action.label);
+        return action;
+    };
+
+    return { record, scheduleDelete, undo, redo };
+};
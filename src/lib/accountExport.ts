@@ -0,0 +1,81 @@
+import { AccountExport } from '@/api/exportApi';
+import { toCsv } from './csv';
+
+const CSV_HEADER = [
+    'item_id',
+    'item_name',
+    'item_detail',
+    'category_id',
+    'category_name',
+    'box_id',
+    'box_name',
+    'pattern_id',
+    'pattern_name',
+    'learned_date',
+    'is_finished',
+    'item_registered_at',
+    'item_edited_at',
+    'review_date_id',
+    'step_number',
+    'initial_scheduled_date',
+    'scheduled_date',
+    'is_completed',
+];
+
+/**
+ * エクスポートデータを1行＝1復習日のフラットなCSVに変換する。
+ * 復習日が無い復習物も、復習日の列を空にした1行として出力する。
+ */
+export const accountExportToCsv = (data: AccountExport): string => {
+    const categoryNames = new Map(data.categories.map((c) => [c.id, c.name]));
+    const boxNames = new Map(data.boxes.map((b) => [b.id, b.name]));
+    const patternNames = new Map(data.patterns.map((p) => [p.id, p.name]));
+
+    const rows = data.items.flatMap((item) => {
+        const itemColumns = [
+            item.item_id,
+            item.name,
+            item.detail ?? '',
+            item.category_id ?? '',
+            item.category_id ? categoryNames.get(item.category_id) ?? '' : '',
+            item.box_id ?? '',
+            item.box_id ? boxNames.get(item.box_id) ?? '' : '',
+            item.pattern_id ?? '',
+            item.pattern_id ? patternNames.get(item.pattern_id) ?? '' : '',
+            item.learned_date,
+            String(item.is_finished),
+            item.registered_at,
+            item.edited_at,
+        ];
+        if (!item.review_dates?.length) {
+            return [[...itemColumns, '', '', '', '', '']];
+        }
+        return [...item.review_dates]
+            .sort((a, b) => a.step_number - b.step_number)
+            .map((rd) => [
+                ...itemColumns,
+                rd.review_date_id,
+                String(rd.step_number),
+                rd.initial_scheduled_date,
+                rd.scheduled_date,
+                String(rd.is_completed),
+            ]);
+    });
+
+    return toCsv([CSV_HEADER, ...rows]);
+};
+
+/**
+ * 文字列をファイルとしてダウンロードさせる。
+ */
+export const downloadTextFile = (fileName: string, content: string, mimeType: string) => {
+    const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+    const anchor = document.createElement('a');
+    anchor.href = url;
+    anchor.download = fileName;
+    document.body.appendChild(anchor);
+    anchor.click();
+    anchor.remove();
+    // クリック直後に解放するとダウンロードが中断されるブラウザがあるため、少し待ってから解放する
+    window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,84 @@
+import { parseCsv, toCsv } from './csv';
+
+// Ankiのノート（表面が復習物名、裏面が詳細に対応する）
+export type AnkiNote = {
+    front: string;
+    back: string;
+};
+
+// Ankiのヘッダー（#separator:Tab など）で指定される区切り文字の名前
+const SEPARATOR_NAMES: Record<string, string> = {
+    tab: '\t',
+    comma: ',',
+    semicolon: ';',
+    pipe: '|',
+    colon: ':',
+    space: ' ',
+};
+
+// HTMLのフィールドをプレーンテキストに変換する（改行タグは改行にする）
+const htmlToText = (html: string) => {
+    const withBreaks = html.replace(/<br\s*\/?>/gi, '\n').replace(/<\/(div|p|li)>/gi, '\n');
+    const doc = new DOMParser().parseFromString(withBreaks, 'text/html');
+    return (doc.body.textContent ?? '').replace(/\n{3,}/g, '\n\n').trim();
+};
+
+// プレーンテキストをAnkiのHTMLフィールドに変換する
+const textToHtml = (text: string) =>
+    text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/\t/g, ' ')
+        .replace(/\r?\n/g, '<br>');
+
+/**
+ * Ankiの「テキストで書き出したノート」(.txt)を読み込む。
+ * 先頭の#から始まる行をヘッダーとして解釈し、区切り文字・HTMLの有無・ノートタイプ等の列を考慮して
+ * 残りの列の1つ目を表面、2つ目を裏面として扱う。
+ */
+export const parseAnkiText = (text: string): AnkiNote[] => {
+    const lines = text.replace(/^\ufeff/, '').split(/\r?\n/);
+    let delimiter = '\t';
+    let isHtml = true;
+    // ノートタイプ・デッキ・タグ・GUIDなど、フィールド以外の列（1始まり）
+    const metaColumns = new Set<number>();
+
+    let bodyStart = 0;
+    while (bodyStart < lines.length && lines[bodyStart].startsWith('#')) {
+        const [rawKey, ...rest] = lines[bodyStart].slice(1).split(':');
+        const key = rawKey.trim().toLowerCase();
+        const value = rest.join(':').trim();
+        if (key === 'separator') {
+            delimiter = SEPARATOR_NAMES[value.toLowerCase()] ?? (value || delimiter);
+        } else if (key === 'html') {
+            isHtml = value.toLowerCase() === 'true';
+        } else if (key.endsWith(' column')) {
+            const column = Number(value);
+            if (Number.isInteger(column) && column > 0) metaColumns.add(column);
+        }
+        bodyStart++;
+    }
+
+    const toText = (value: string) => (isHtml ? htmlToText(value) : value.trim());
+    return parseCsv(lines.slice(bodyStart).join('\n'), delimiter)
+        .map((cells) => cells.filter((_, i) => !metaColumns.has(i + 1)))
+        .map(([front = '', back = '']) => ({ front: toText(front), back: toText(back) }))
+        .filter((note) => note.front !== '' || note.back !== '');
+};
+
+/**
+ * 復習物をAnkiで読み込めるタブ区切りのテキストに変換する。
+ * 復習物名を表面、詳細を裏面とし、Basicノートタイプ・指定のデッキに取り込まれるようにヘッダーを付ける。
+ */
+export const toAnkiText = (notes: AnkiNote[], deckName: string): string => {
+    const header = [
+        '#separator:tab',
+        '#html:true',
+        '#notetype:Basic',
+        `#deck:${deckName.replace(/[\r\n]/g, ' ')}`,
+        '#columns:Front\tBack',
+    ];
+    const body = toCsv(notes.map((note) => [textToHtml(note.front), textToHtml(note.back)]), '\t');
+    return `${header.join('\r\n')}\r\n${body}\r\n`;
+};
@@ -0,0 +1,83 @@
+import { GetCategoryOutput } from '@/types';
+
+type CategoryLike = Pick<GetCategoryOutput, 'id' | 'parent_id'>;
+
+export type CategoryTreeNode<T extends CategoryLike = GetCategoryOutput> = T & {
+    children: CategoryTreeNode<T>[];
+    // トップレベルを0とした深さ
+    depth: number;
+};
+
+// 親が存在しない（削除済み・未取得）カテゴリーや、循環した親子関係はトップレベルとして扱う
+const resolveParentId = <T extends CategoryLike>(category: T, byId: Map<string, T>) => {
+    const parentId = category.parent_id;
+    if (!parentId || !byId.has(parentId)) return null;
+    const visited = new Set([category.id]);
+    let current: string | null | undefined = parentId;
+    while (current) {
+        if (visited.has(current)) return null;
+        visited.add(current);
+        current = byId.get(current)?.parent_id;
+    }
+    return parentId;
+};
+
+/**
+ * フラットなカテゴリーのリストから親子関係のツリーを作る。兄弟の並び順は渡されたリストの順番を保つ。
+ */
+export const buildCategoryTree = <T extends CategoryLike>(categories: T[]): CategoryTreeNode<T>[] => {
+    const byId = new Map(categories.map((category) => [category.id, category]));
+    const childrenByParentId = new Map<string | null, T[]>();
+    for (const category of categories) {
+        const parentId = resolveParentId(category, byId);
+        childrenByParentId.set(parentId, [...(childrenByParentId.get(parentId) ?? []), category]);
+    }
+
+    const build = (parentId: string | null, depth: number): CategoryTreeNode<T>[] =>
+        (childrenByParentId.get(parentId) ?? []).map((category) => ({
+            ...category,
+            depth,
+            children: build(category.id, depth + 1),
+        }));
+    return build(null, 0);
+};
+
+/**
+ * ツリーを表示順（深さ優先）のリストに戻す。collapsedIdsに含まれるカテゴリーの子孫は含めない。
+ */
+export const flattenCategoryTree = <T extends CategoryLike>(nodes: CategoryTreeNode<T>[], collapsedIds: string[] = []): CategoryTreeNode<T>[] =>
+    nodes.flatMap((node) => [node, ...(collapsedIds.includes(node.id) ? [] : flattenCategoryTree(node.children, collapsedIds))]);
+
+/**
+ * カテゴリーの祖先を、トップレベルから親の順番で返す。
+ */
+export const getCategoryAncestors = <T extends CategoryLike>(categories: T[], categoryId: string): T[] => {
+    const byId = new Map(categories.map((category) => [category.id, category]));
+    const category = byId.get(categoryId);
+    if (!category) return [];
+    const ancestors: T[] = [];
+    let parentId = resolveParentId(category, byId);
+    while (parentId) {
+        const parent = byId.get(parentId)!;
+        ancestors.unshift(parent);
+        parentId = resolveParentId(parent, byId);
+    }
+    return ancestors;
+};
+
+/**
+ * カテゴリー自身とその子孫のIDを返す。件数の集計や、親カテゴリーの選択肢から除外するのに使う。
+ */
+export const getCategorySubtreeIds = <T extends CategoryLike>(categories: T[], categoryId: string): string[] => {
+    const find = (nodes: CategoryTreeNode<T>[]): CategoryTreeNode<T> | undefined => {
+        for (const node of nodes) {
+            if (node.id === categoryId) return node;
+            const found = find(node.children);
+            if (found) return found;
+        }
+        return undefined;
+    };
+    const collect = (node: CategoryTreeNode<T>): string[] => [node.id, ...node.children.flatMap(collect)];
+    const root = find(buildCategoryTree(categories));
+    return root ? collect(root) : [];
+};
@@ -0,0 +1,62 @@
+/**
+ * CSV(RFC 4180)の文字列を行ごとのセル配列に変換する。
+ * ダブルクォートで囲まれたセル内のカンマ・改行・エスケープされたクォート("")に対応する。
+ * 空行は読み飛ばす。
+ * @param delimiter - 区切り文字（Ankiのテキスト形式のようなタブ区切りにも使う）
+ */
+export const parseCsv = (text: string, delimiter = ','): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let inQuotes = false;
+
+    // 先頭のBOMを取り除く（Excelで保存したCSV対策）
+    const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+    const pushRow = () => {
+        row.push(cell);
+        if (row.some((value) => value.trim() !== '')) rows.push(row);
+        row = [];
+        cell = '';
+    };
+
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+        if (inQuotes) {
+            if (char === '"') {
+                if (input[i + 1] === '"') {
+                    cell += '"';
+                    i++;
+                } else {
+                    inQuotes = false;
+                }
+            } else {
+                cell += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === delimiter) {
+            row.push(cell);
+            cell = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && input[i + 1] === '\n') i++;
+            pushRow();
+        } else {
+            cell += char;
+        }
+    }
+    if (cell !== '' || row.length > 0) pushRow();
+
+    return rows;
+};
+
+/**
+ * セル配列をCSV(RFC 4180)の文字列に変換する。
+ * 区切り文字・改行・ダブルクォートを含むセルはダブルクォートで囲み、クォートは""にエスケープする。
+ */
+export const toCsv = (rows: string[][], delimiter = ','): string => {
+    const needsQuote = (value: string) => value.includes(delimiter) || /["\r\n]/.test(value);
+    return rows
+        .map((row) => row.map((value) => (needsQuote(value) ? `"${value.replace(/"/g, '""')}"` : value)).join(delimiter))
+        .join('\r\n');
+};
@@ -0,0 +1,5 @@
+/**
+ * 復習日の日付(yyyy-MM-dd)を取り出す。
+ * scheduled_dateなどはAPIから日付のみ、または日時文字列で返るため、先頭の日付部分だけを比較・集計のキーとして使う。
+ */
+export const toDateKey = (date: string) => date.slice(0, 10);
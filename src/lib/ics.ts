@@ -0,0 +1,129 @@
+import { addDays, format, parseISO } from 'date-fns';
+import { ItemResponse } from '@/types';
+import { toDateKey } from './date';
+
+// カレンダーに出力する1件の復習予定
+export type CalendarReview = {
+    reviewDateId: string;
+    itemName: string;
+    stepNumber: number;
+    // "yyyy-MM-dd"
+    scheduledDate: string;
+    // 「カテゴリー / ボックス」の表示名
+    location: string;
+};
+
+// 'day': 1日1件の終日予定にして、その日の復習物を説明に並べる / 'item': 復習物ごとに終日予定を作る
+export type CalendarEventMode = 'day' | 'item';
+
+type CalendarOptions = {
+    calendarName: string;
+    // 絞り込みの条件。日ごとの予定のUIDに含め、条件の違うカレンダーを取り込んでも上書きし合わないようにする
+    scope: string;
+    daySummary: (count: number) => string;
+    step: (stepNumber: number) => string;
+};
+
+const CRLF = '\r\n';
+const UID_DOMAIN = 'review-setter';
+
+/**
+ * 未完了の復習物から、fromDate（"yyyy-MM-dd"）以降の未完了の復習予定を日付順に取り出す。
+ * 予定日は日付のキーにそろえてから比較・グループ化する。
+ */
+export const collectUpcomingReviews = (
+    items: ItemResponse[],
+    fromDate: string,
+    getLocation: (item: ItemResponse) => string,
+): CalendarReview[] =>
+    items
+        .filter((item) => !item.is_finished)
+        .flatMap((item) => (item.review_dates ?? [])
+            .filter((rd) => !rd.is_completed && !!rd.scheduled_date && toDateKey(rd.scheduled_date) >= fromDate)
+            .map((rd) => ({
+                reviewDateId: rd.review_date_id,
+                itemName: item.name,
+                stepNumber: rd.step_number,
+                scheduledDate: toDateKey(rd.scheduled_date),
+                location: getLocation(item),
+            })))
+        .sort((a, b) => a.scheduledDate.localeCompare(b.scheduledDate) || a.itemName.localeCompare(b.itemName, 'ja'));
+
+// RFC 5545のTEXT値のエスケープ
+const escapeText = (text: string) => text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+// 1行75オクテットを超える行は折り返す。マルチバイト文字の途中では切らない
+const foldLine = (line: string) => {
+    const encoder = new TextEncoder();
+    const lines: string[] = [];
+    let current = '';
+    let currentBytes = 0;
+    for (const char of line) {
+        const bytes = encoder.encode(char).length;
+        // 2行目以降は先頭の空白も1オクテットに数える
+        const limit = lines.length === 0 ? 75 : 74;
+        if (currentBytes + bytes > limit) {
+            lines.push(current);
+            current = '';
+            currentBytes = 0;
+        }
+        current += char;
+        currentBytes += bytes;
+    }
+    lines.push(current);
+    return lines.join(`${CRLF} `);
+};
+
+const toIcsDate = (date: string) => format(parseISO(date), 'yyyyMMdd');
+const nextIcsDate = (date: string) => format(addDays(parseISO(date), 1), 'yyyyMMdd');
+
+const allDayEvent = (uid: string, date: string, summary: string, description: string, stamp: string) => [
+    'BEGIN:VEVENT',
+    `UID:${uid}@${UID_DOMAIN}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART;VALUE=DATE:${toIcsDate(date)}`,
+    `DTEND;VALUE=DATE:${nextIcsDate(date)}`,
+    `SUMMARY:${escapeText(summary)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    'TRANSP:TRANSPARENT',
+    'END:VEVENT',
+];
+
+/**
+ * 復習予定をiCalendar（.ics）形式の文字列にする。予定はすべて終日で、予定なし（TRANSPARENT）として出力する。
+ * UIDは復習日（日ごとの場合は日付）から作るため、同じカレンダーに取り込み直しても予定は重複せず更新される。
+ */
+export const buildReviewCalendar = (reviews: CalendarReview[], mode: CalendarEventMode, options: CalendarOptions) => {
+    const stamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+    const describe = (review: CalendarReview) => `${review.itemName} (${options.step(review.stepNumber)}${review.location ? ` / ${review.location}` : ''})`;
+
+    let events: string[][];
+    if (mode === 'item') {
+        events = reviews.map((review) =>
+            allDayEvent(review.reviewDateId, review.scheduledDate, review.itemName, describe(review), stamp)
+        );
+    } else {
+        const reviewsByDate = new Map<string, CalendarReview[]>();
+        reviews.forEach((review) => {
+            reviewsByDate.set(review.scheduledDate, [...(reviewsByDate.get(review.scheduledDate) ?? []), review]);
+        });
+        events = Array.from(reviewsByDate, ([date, dayReviews]) =>
+            allDayEvent(`day-${options.scope}-${toIcsDate(date)}`, date, options.daySummary(dayReviews.length), dayReviews.map((review) => `- ${describe(review)}`).join('\n'), stamp)
+        );
+    }
+
+    return [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//Review Setter//Review Schedule//EN',
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH',
+        `X-WR-CALNAME:${escapeText(options.calendarName)}`,
+        ...events.flat(),
+        'END:VCALENDAR',
+    ].map(foldLine).join(CRLF) + CRLF;
+};
@@ -0,0 +1,21 @@
+import { z } from 'zod';
+
+/**
+ * 復習物作成時のバリデーションルール。
+ * 作成モーダルと一括インポートで同じルールを使う。
+ */
+export const createItemSchema = (t: (key: string) => string) => z.object({
+    name: z.string().min(1, t('validation.itemNameRequired')),
+    detail: z.string().optional(),
+    tags: z.array(z.string()).optional(),
+    learned_date: z.date({ required_error: t('validation.learningDateRequired') }),
+    category_id: z.union([
+        z.string().uuid(t('validation.selectValidCategory')),
+        z.literal("UNCLASSIFIED")
+    ]).nullable().optional(),
+    box_id: z.union([
+        z.string().uuid(t('validation.selectValidBox')),
+        z.literal("UNCLASSIFIED")
+    ]).nullable().optional(),
+    pattern_id: z.string().uuid(t('validation.selectValidPattern')).nullable().optional(),
+});
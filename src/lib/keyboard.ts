@@ -0,0 +1,65 @@
+// g に続けて押すキーと移動先
+export const GO_TO_ROUTES: Record<string, string> = {
+    h: '/',
+    t: '/today',
+    o: '/overdue',
+    c: '/calendar',
+    s: '/stats',
+    p: '/patterns',
+};
+
+// g を押してから次のキーを待つ時間
+export const KEY_SEQUENCE_TIMEOUT_MS = 1000;
+
+// ショートカット一覧に表示する項目。labelKeyはi18nのキー
+export const SHORTCUT_GROUPS: { titleKey: string; shortcuts: { keys: string[]; labelKey: string }[] }[] = [
+    {
+        titleKey: 'shortcuts.group.table',
+        shortcuts: [
+            { keys: ['j'], labelKey: 'shortcuts.next' },
+            { keys: ['k'], labelKey: 'shortcuts.previous' },
+            { keys: ['Space', 'c'], labelKey: 'shortcuts.complete' },
+            { keys: ['1', '2', '3', '4'], labelKey: 'shortcuts.grade' },
+            { keys: ['u'], labelKey: 'shortcuts.undo' },
+            { keys: ['d'], labelKey: 'shortcuts.detail' },
+            { keys: ['e'], labelKey: 'shortcuts.edit' },
+            { keys: ['Esc'], labelKey: 'shortcuts.clearFocus' },
+        ],
+    },
+    {
+        titleKey: 'shortcuts.group.navigation',
+        shortcuts: [
+            { keys: ['g', 'h'], labelKey: 'shortcuts.goHome' },
+            { keys: ['g', 't'], labelKey: 'shortcuts.goToday' },
+            { keys: ['g', 'o'], labelKey: 'shortcuts.goOverdue' },
+            { keys: ['g', 'c'], labelKey: 'shortcuts.goCalendar' },
+            { keys: ['g', 's'], labelKey: 'shortcuts.goStats' },
+            { keys: ['g', 'p'], labelKey: 'shortcuts.goPatterns' },
+        ],
+    },
+    {
+        titleKey: 'shortcuts.group.general',
+        shortcuts: [
+            { keys: ['Ctrl/⌘', 'K'], labelKey: 'shortcuts.commandPalette' },
+            { keys: ['Ctrl/⌘', 'Z'], labelKey: 'shortcuts.undoAction' },
+            { keys: ['Ctrl/⌘', 'Shift', 'Z'], labelKey: 'shortcuts.redoAction' },
+            { keys: ['?'], labelKey: 'shortcuts.help' },
+        ],
+    },
+];
+
+// 入力欄など、キー入力をそのまま受け付ける要素かどうか
+export const isEditableTarget = (target: EventTarget | null) => {
+    const element = target as HTMLElement | null;
+    return !!element && (element.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(element.tagName));
+};
+
+/**
+ * 1文字キーのショートカットを処理してよいキー入力かどうか。
+ * 入力欄での文字入力、修飾キー付きの操作、モーダル表示中（背後の一覧を操作しないように）は対象外にする。
+ */
+export const isShortcutEvent = (e: KeyboardEvent) => {
+    if (e.defaultPrevented || e.isComposing || e.ctrlKey || e.metaKey || e.altKey) return false;
+    if (isEditableTarget(e.target)) return false;
+    return !document.querySelector('[role="dialog"], [role="alertdialog"]');
+};
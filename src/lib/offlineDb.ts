@@ -0,0 +1,64 @@
+/**
+ * オフラインモード用のIndexedDBラッパー。
+ * - mutations: オフライン中に実行された更新リクエストのキュー
+ * - queryCache: React Queryのキャッシュのスナップショット
+ */
+const DB_NAME = 'review-setter-offline';
+const DB_VERSION = 1;
+
+export const MUTATION_STORE = 'mutations';
+export const QUERY_CACHE_STORE = 'queryCache';
+
+type StoreName = typeof MUTATION_STORE | typeof QUERY_CACHE_STORE;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(MUTATION_STORE)) {
+                    db.createObjectStore(MUTATION_STORE, { keyPath: 'id' });
+                }
+                if (!db.objectStoreNames.contains(QUERY_CACHE_STORE)) {
+                    db.createObjectStore(QUERY_CACHE_STORE);
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+// 1つのストアに対するトランザクションを実行し、リクエストの結果を返す
+const runRequest = async <T>(storeName: StoreName, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> => {
+    const db = await openDb();
+    return new Promise<T>((resolve, reject) => {
+        const transaction = db.transaction(storeName, mode);
+        const request = action(transaction.objectStore(storeName));
+        transaction.oncomplete = () => resolve(request.result as T);
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+};
+
+export const idbGetAll = <T>(storeName: StoreName) =>
+    runRequest<T[]>(storeName, 'readonly', (store) => store.getAll());
+
+export const idbGet = <T>(storeName: StoreName, key: IDBValidKey) =>
+    runRequest<T | undefined>(storeName, 'readonly', (store) => store.get(key));
+
+export const idbPut = (storeName: StoreName, value: unknown, key?: IDBValidKey) =>
+    runRequest<IDBValidKey>(storeName, 'readwrite', (store) => store.put(value, key));
+
+export const idbDelete = (storeName: StoreName, key: IDBValidKey) =>
+    runRequest<undefined>(storeName, 'readwrite', (store) => store.delete(key));
+
+export const idbClear = (storeName: StoreName) =>
+    runRequest<undefined>(storeName, 'readwrite', (store) => store.clear());
@@ -0,0 +1,15 @@
+import { z } from 'zod';
+
+import { MAX_EASE_FACTOR, MIN_EASE_FACTOR } from './sm2';
+
+// ステップの間隔（学習日からの日数）の上限。保存時にこれを超えるステップはエラーにする
+export const MAX_INTERVAL_DAYS = 32767;
+
+/**
+ * パターンの種類と容易度のバリデーションルール。
+ * 作成モーダルと編集モーダルのスキーマに含める。
+ */
+export const adaptivePatternSchemaFields = {
+    kind: z.enum(['fixed', 'adaptive']),
+    initial_ease_factor: z.coerce.number().min(MIN_EASE_FACTOR).max(MAX_EASE_FACTOR),
+};
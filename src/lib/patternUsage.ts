@@ -0,0 +1,18 @@
+import { ItemResponse } from '@/types';
+
+/**
+ * 未完了の復習日の数を数える。パターンを削除・付け替えしたときに予定が変わる復習日の数として使う。
+ */
+export const countPendingReviewDates = (items: ItemResponse[]) =>
+    items.reduce((count, item) => count + item.review_dates.filter((rd) => !rd.is_completed).length, 0);
+
+/**
+ * パターンのステップを変更したときに、予定日が変わる未完了の復習日の数を数える。
+ * 間隔が変わったステップ、または削除されたステップの復習日を対象とする。
+ * @param oldIntervals - 変更前の各ステップのinterval_days（ステップ順）
+ * @param newIntervals - 変更後の各ステップのinterval_days（ステップ順）
+ */
+export const countChangedReviewDates = (items: ItemResponse[], oldIntervals: number[], newIntervals: number[]) =>
+    items.reduce((count, item) => count + item.review_dates.filter((rd) =>
+        !rd.is_completed && oldIntervals[rd.step_number - 1] !== newIntervals[rd.step_number - 1],
+    ).length, 0);
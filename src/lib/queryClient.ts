@@ -0,0 +1,22 @@
+import { QueryClient } from '@tanstack/react-query';
+
+/**
+ * アプリケーション全体で共有されるQueryClient。
+ * オフラインキューなど、Reactコンポーネントの外からキャッシュを操作する処理でも使うため、ここで生成する。
+ */
+export const queryClient = new QueryClient({
+    defaultOptions: {
+        queries: {
+            retry: false,
+            refetchOnWindowFocus: false,
+            refetchOnMount: true,
+            refetchOnReconnect: false,
+            staleTime: 1000 * 60 * 5,
+            gcTime: 1000 * 60 * 30,
+        },
+        mutations: {
+            // オフライン中もmutationFnを実行させ、API層で更新リクエストをキューに積めるようにする
+            networkMode: 'always',
+        },
+    },
+});
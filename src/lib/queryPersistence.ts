@@ -0,0 +1,41 @@
+import { QueryClient, dehydrate, hydrate, DehydratedState } from '@tanstack/react-query';
+import { idbGet, idbPut, QUERY_CACHE_STORE } from './offlineDb';
+
+// オフラインでも画面を開けるよう、IndexedDBに保存するクエリのキー（先頭要素）
+const PERSISTED_QUERY_ROOTS = ['user', 'categories', 'boxes', 'patterns', 'todaysReviews', 'items'];
+const SNAPSHOT_KEY = 'snapshot';
+// キャッシュ更新が連続したときに書き込みをまとめる間隔
+const PERSIST_DELAY_MS = 1000;
+
+/**
+ * IndexedDBに保存したキャッシュをQueryClientに復元する。
+ * 描画前に呼び出すことで、オフライン時の再読み込みでも前回のデータを表示できる。
+ */
+export const restoreQueryCache = async (client: QueryClient) => {
+    try {
+        const state = await idbGet<DehydratedState>(QUERY_CACHE_STORE, SNAPSHOT_KEY);
+        if (state) {
+            hydrate(client, state);
+        }
+    } catch (err) {
+        console.error('Failed to restore query cache: ', err);
+    }
+};
+
+/**
+ * キャッシュの変更を購読し、対象のクエリをIndexedDBに保存し続ける。
+ * @returns 購読を解除する関数
+ */
+export const persistQueryCache = (client: QueryClient) => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    return client.getQueryCache().subscribe(() => {
+        clearTimeout(timer);
+        timer = setTimeout(() => {
+            const state = dehydrate(client, {
+                shouldDehydrateQuery: (query) =>
+                    query.state.status === 'success' && PERSISTED_QUERY_ROOTS.includes(String(query.queryKey[0])),
+            });
+            idbPut(QUERY_CACHE_STORE, state, SNAPSHOT_KEY).catch((err) => console.error('Failed to persist query cache: ', err));
+        }, PERSIST_DELAY_MS);
+    });
+};
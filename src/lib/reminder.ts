@@ -0,0 +1,80 @@
+import { DailyCountGroupedByBoxResponse, UnclassifiedDailyDatesCountGroupedByCategoryResponse } from '@/types';
+
+/**
+ * 指定したタイムゾーンでの日付（"yyyy-MM-dd"）と時刻（"HH:mm"）を返す。
+ */
+export const getZonedDateTime = (date: Date, timeZone: string) => {
+    const parts = new Intl.DateTimeFormat('en-CA', {
+        timeZone,
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+        hourCycle: 'h23',
+    }).formatToParts(date);
+    const get = (type: Intl.DateTimeFormatPartTypes) => parts.find((part) => part.type === type)?.value ?? '';
+    return {
+        date: `${get('year')}-${get('month')}-${get('day')}`,
+        time: `${get('hour')}:${get('minute')}`,
+    };
+};
+
+/**
+ * 時刻がおやすみ時間に含まれるかどうか。日をまたぐ範囲（22:00〜07:00など）にも対応する。
+ */
+export const isWithinQuietHours = (time: string, start: string, end: string) => {
+    if (start === end) return false;
+    return start < end ? time >= start && time < end : time >= start || time < end;
+};
+
+/**
+ * 今日の復習の件数から、ミュートしたカテゴリーの件数を除く。
+ * mutedCategoryIdsにはサブカテゴリーまで展開したIDを渡す。
+ */
+export const excludeMutedReviewCount = (
+    total: number,
+    countByBox: DailyCountGroupedByBoxResponse[],
+    unclassifiedCountByCategory: UnclassifiedDailyDatesCountGroupedByCategoryResponse[],
+    mutedCategoryIds: string[],
+) => {
+    const muted = [...countByBox, ...unclassifiedCountByCategory]
+        .filter((count) => mutedCategoryIds.includes(count.category_id))
+        .reduce((sum, count) => sum + count.count, 0);
+    return Math.max(0, total - muted);
+};
+
+/**
+ * 今日の復習のリマインダーを表示する。
+ * Service Workerが登録されていればその通知として表示し、クリック時にService Workerが今日の復習ページを開く。
+ * 登録されていない場合（開発環境など）はページから直接通知する。
+ */
+export const showReviewNotification = async (title: string, body: string) => {
+    const options: NotificationOptions = { body, icon: '/icons/icon-192.png', tag: 'daily-review-reminder', data: { url: '/today' } };
+    const registration = 'serviceWorker' in navigator ? await navigator.serviceWorker.getRegistration() : undefined;
+    if (registration) {
+        await registration.showNotification(title, options);
+        return;
+    }
+    const notification = new Notification(title, options);
+    notification.onclick = () => {
+        window.focus();
+        window.location.assign('/today');
+    };
+};
+
+/**
+ * インストールしたアプリのアイコンに件数のバッジを表示する。App Badging APIに対応していないブラウザでは何もしない。
+ */
+export const setAppBadgeCount = async (count: number) => {
+    if (!('setAppBadge' in navigator)) return;
+    try {
+        if (count > 0) {
+            await navigator.setAppBadge(count);
+        } else {
+            await navigator.clearAppBadge();
+        }
+    } catch {
+        // 許可されていない場合などは無視する
+    }
+};
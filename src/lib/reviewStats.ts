@@ -0,0 +1,189 @@
+import { ItemResponse, ReviewDateResponse } from '@/types';
+import { toDateKey } from './date';
+
+// 1日分の集計
+export type DailyStat = {
+    date: string;
+    // その日に予定されていた復習日の数
+    due: number;
+    // そのうち完了済みの数
+    completed: number;
+    // 完了済みのうち、当初の予定日から変更されていない数
+    onTime: number;
+    // その日の時点で期限切れだった復習日の数（推定）
+    backlog: number;
+};
+
+// ステップ番号ごとの集計
+export type StepStat = {
+    stepNumber: number;
+    total: number;
+    completed: number;
+    overdue: number;
+};
+
+// カテゴリー・ボックスごとの集計
+export type BreakdownStat = {
+    categoryId: string | null;
+    boxId: string | null;
+    items: number;
+    due: number;
+    completed: number;
+    // 予定日が変更された（当初の予定から遅れた）復習日の数
+    delayed: number;
+    overdue: number;
+};
+
+export type StreakStat = {
+    current: number;
+    longest: number;
+};
+
+type ReviewEntry = {
+    item: ItemResponse;
+    reviewDate: ReviewDateResponse;
+    scheduledKey: string;
+    initialKey: string;
+};
+
+const toEntries = (items: ItemResponse[]): ReviewEntry[] =>
+    items.flatMap((item) => (item.review_dates || [])
+        .filter((reviewDate) => !!reviewDate.scheduled_date)
+        .map((reviewDate) => ({
+            item,
+            reviewDate,
+            scheduledKey: toDateKey(reviewDate.scheduled_date),
+            initialKey: toDateKey(reviewDate.initial_scheduled_date || reviewDate.scheduled_date),
+        })));
+
+const isInRange = (key: string, fromKey: string, toKey: string) => key >= fromKey && key <= toKey;
+
+/**
+ * 日別の予定数・完了数・期限切れの推移を集計する。
+ * 完了日時は記録されていないため、期限切れの件数は「当初の予定日を過ぎていて、その日の時点でまだ完了していなかった」ものとして推定する。
+ * 完了済みの復習日は、予定日(scheduled_date)まで残っていたものとみなす。
+ * @param dateKeys - 集計対象の日付(yyyy-MM-dd)。昇順
+ * @param todayKey - 今日の日付。未来の日付の期限切れ件数は集計しない
+ */
+export const buildDailyStats = (items: ItemResponse[], dateKeys: string[], todayKey: string): DailyStat[] => {
+    const entries = toEntries(items);
+    const stats: Record<string, DailyStat> = Object.fromEntries(
+        dateKeys.map((date) => [date, { date, due: 0, completed: 0, onTime: 0, backlog: 0 }]),
+    );
+
+    entries.forEach(({ reviewDate, scheduledKey, initialKey }) => {
+        const day = stats[scheduledKey];
+        if (day) {
+            day.due += 1;
+            if (reviewDate.is_completed) {
+                day.completed += 1;
+                if (scheduledKey === initialKey) day.onTime += 1;
+            }
+        }
+    });
+
+    dateKeys.filter((date) => date <= todayKey).forEach((date) => {
+        stats[date].backlog = entries.filter(({ reviewDate, scheduledKey, initialKey }) =>
+            initialKey < date && (!reviewDate.is_completed || scheduledKey > date),
+        ).length;
+    });
+
+    return dateKeys.map((date) => stats[date]);
+};
+
+/**
+ * 連続達成日数を集計する。予定された復習を全て完了した日を達成日とし、予定の無い日は連続を途切れさせない。
+ * 今日の分がまだ終わっていない場合は、昨日までの連続日数を現在の記録とする。
+ */
+export const buildStreaks = (items: ItemResponse[], todayKey: string): StreakStat => {
+    const days: Record<string, { due: number; completed: number }> = {};
+    toEntries(items).forEach(({ reviewDate, scheduledKey }) => {
+        if (scheduledKey > todayKey) return;
+        if (!days[scheduledKey]) days[scheduledKey] = { due: 0, completed: 0 };
+        days[scheduledKey].due += 1;
+        if (reviewDate.is_completed) days[scheduledKey].completed += 1;
+    });
+
+    const sortedKeys = Object.keys(days).sort();
+    const isAchieved = (key: string) => days[key].completed === days[key].due;
+
+    let longest = 0;
+    let running = 0;
+    sortedKeys.forEach((key) => {
+        if (isAchieved(key)) {
+            running += 1;
+            longest = Math.max(longest, running);
+        } else if (key !== todayKey) {
+            running = 0;
+        }
+    });
+
+    let current = 0;
+    for (let i = sortedKeys.length - 1; i >= 0; i--) {
+        const key = sortedKeys[i];
+        if (isAchieved(key)) {
+            current += 1;
+        } else if (key !== todayKey) {
+            break;
+        }
+    }
+
+    return { current, longest };
+};
+
+/**
+ * 期間内に予定された復習日を、ステップ番号ごとに集計する。
+ */
+export const buildStepStats = (items: ItemResponse[], fromKey: string, toKey: string, todayKey: string): StepStat[] => {
+    const steps: Record<number, StepStat> = {};
+    toEntries(items).forEach(({ reviewDate, scheduledKey }) => {
+        if (!isInRange(scheduledKey, fromKey, toKey)) return;
+        const stepNumber = reviewDate.step_number;
+        if (!steps[stepNumber]) steps[stepNumber] = { stepNumber, total: 0, completed: 0, overdue: 0 };
+        steps[stepNumber].total += 1;
+        if (reviewDate.is_completed) {
+            steps[stepNumber].completed += 1;
+        } else if (scheduledKey < todayKey) {
+            steps[stepNumber].overdue += 1;
+        }
+    });
+    return Object.values(steps).sort((a, b) => a.stepNumber - b.stepNumber);
+};
+
+/**
+ * 期間内に予定された復習日を、カテゴリー・ボックスごとに集計する。
+ * @param groupByBox - trueの場合はボックス単位、falseの場合はカテゴリー単位で集計する
+ */
+export const buildBreakdown = (
+    items: ItemResponse[],
+    fromKey: string,
+    toKey: string,
+    todayKey: string,
+    groupByBox: boolean,
+): BreakdownStat[] => {
+    const groups: Record<string, BreakdownStat & { itemIds: Set<string> }> = {};
+    toEntries(items).forEach(({ item, reviewDate, scheduledKey, initialKey }) => {
+        if (!isInRange(scheduledKey, fromKey, toKey)) return;
+        const boxId = groupByBox ? item.box_id : null;
+        const key = `${item.category_id ?? ''}/${boxId ?? ''}`;
+        if (!groups[key]) {
+            groups[key] = { categoryId: item.category_id, boxId, items: 0, due: 0, completed: 0, delayed: 0, overdue: 0, itemIds: new Set() };
+        }
+        const group = groups[key];
+        group.itemIds.add(item.item_id);
+        group.due += 1;
+        if (scheduledKey !== initialKey) group.delayed += 1;
+        if (reviewDate.is_completed) {
+            group.completed += 1;
+        } else if (scheduledKey < todayKey) {
+            group.overdue += 1;
+        }
+    });
+    return Object.values(groups)
+        .map(({ itemIds, ...group }) => ({ ...group, items: itemIds.size }))
+        .sort((a, b) => b.due - a.due);
+};
+
+// 割合(0〜100)を求める。分母が0の場合はnull
+export const toRate = (numerator: number, denominator: number) =>
+    denominator > 0 ? Math.round((numerator / denominator) * 100) : null;
@@ -0,0 +1,42 @@
+import { PatternResponse, RecallGrade } from '@/types';
+
+export const RECALL_GRADES: RecallGrade[] = ['again', 'hard', 'good', 'easy'];
+
+// SM-2の容易度(ease factor)の初期値と範囲
+export const DEFAULT_EASE_FACTOR = 2.5;
+export const MIN_EASE_FACTOR = 1.3;
+export const MAX_EASE_FACTOR = 5;
+
+export const isAdaptivePattern = (pattern: PatternResponse | undefined | null) => pattern?.kind === 'adaptive';
+
+// 復習物のパターンがadaptiveかどうか
+export const isAdaptiveItem = (item: { pattern_id?: string | null }, patterns: PatternResponse[]) =>
+    isAdaptivePattern(patterns.find((p) => p.id === item.pattern_id));
+
+/**
+ * 評価を選ばずに復習を完了するとき（一括完了やキーボード操作）に送る評価。
+ * adaptiveパターンの復習物は「good」として完了し、fixedパターンの復習物には評価を送らない。
+ */
+export const defaultGradeFor = (item: { pattern_id?: string | null }, patterns: PatternResponse[]): RecallGrade | undefined =>
+    isAdaptiveItem(item, patterns) ? 'good' : undefined;
+
+/**
+ * 毎回「good」と評価した場合の復習日（学習日からの日数）を求める。パターン作成時のプレビューに使う。
+ * ステップの分はパターンどおりとし、以降は直前の間隔×容易度だけ間を空ける（goodでは容易度は変わらない）。
+ * 実際の復習日の計算はサーバーが行う。
+ * @param stepOffsets - パターンのステップのinterval_days（学習日からの日数、昇順）
+ * @param count - 求める回数
+ */
+export const simulateGoodOffsets = (stepOffsets: number[], easeFactor: number, count: number) => {
+    const offsets: number[] = [];
+    for (let i = 0; i < count; i++) {
+        if (i < stepOffsets.length) {
+            offsets.push(stepOffsets[i]);
+        } else {
+            const previous = offsets[i - 1] ?? 0;
+            const gap = previous - (offsets[i - 2] ?? 0);
+            offsets.push(previous + Math.max(1, Math.round(gap * easeFactor)));
+        }
+    }
+    return offsets;
+};
@@ -0,0 +1,16 @@
+/**
+ * タグの前後の空白と先頭の「#」を取り除く。検索で「#interview」のように入力しても同じタグとして扱えるようにする。
+ */
+export const normalizeTag = (tag: string) => tag.trim().replace(/^#+/, '').trim();
+
+/**
+ * 復習物のリストから、使われているタグを重複なく名前順で集める。
+ */
+export const collectTags = (items: { tags?: string[] | null }[]) =>
+    Array.from(new Set(items.flatMap((item) => item.tags ?? []))).sort((a, b) => a.localeCompare(b, 'ja'));
+
+/**
+ * 選択したタグを全て持っているかどうか。タグを選択していない場合は常にtrue。
+ */
+export const hasAllTags = (tags: string[] | null | undefined, selectedTags: string[]) =>
+    selectedTags.every((tag) => tags?.includes(tag));
@@ -0,0 +1,144 @@
+import { UNDO_HISTORY_TTL_MS, UndoableAction, useUndoStore } from '@/store/undoStore';
+
+// 取り消しのトーストを表示しておく時間。削除はこの時間が過ぎてからサーバーに反映する
+export const UNDO_WINDOW_MS = 8000;
+
+export type UndoableActionInput = Pick<UndoableAction, 'label' | 'undo' | 'redo'>;
+
+/**
+ * 実行済みの操作を取り消しの履歴に積む。
+ */
+export const recordAction = (input: UndoableActionInput): UndoableAction => {
+    const action = { ...input, id: crypto.randomUUID(), recordedAt: Date.now() };
+    useUndoStore.getState().push(action);
+    return action;
+};
+
+// 実行中の取り消し・やり直しがあるか。連打で同じ操作が二重に実行されないようにする
+let isRunning = false;
+
+const runFromHistory = async (kind: 'undo' | 'redo', actionId?: string) => {
+    if (isRunning) return null;
+    const state = useUndoStore.getState();
+    const threshold = Date.now() - UNDO_HISTORY_TTL_MS;
+    const actions = (kind === 'undo' ? state.undoStack : state.redoStack).filter((action) => action.recordedAt >= threshold);
+    const action = actionId ? actions.find((a) => a.id === actionId) : actions[actions.length - 1];
+    if (!action) return null;
+
+    isRunning = true;
+    try {
+        if (kind === 'undo') {
+            await action.undo();
+            useUndoStore.getState().markUndone(action.id);
+        } else {
+            await action.redo();
+            useUndoStore.getState().markRedone(action.id);
+        }
+        return action;
+    } finally {
+        isRunning = false;
+    }
+};
+
+/**
+ * 操作を取り消す。actionIdを省略すると直近の操作を取り消す。
+ * @returns 取り消した操作。取り消せる操作がない場合はnull
+ */
+export const undoAction = (actionId?: string) => runFromHistory('undo', actionId);
+
+/**
+ * 取り消した操作をやり直す。actionIdを省略すると直近に取り消した操作をやり直す。
+ * @returns やり直した操作。やり直せる操作がない場合はnull
+ */
+export const redoAction = (actionId?: string) => runFromHistory('redo', actionId);
+
+export type DeletionInput = {
+    // 削除する復習物・ボックス・カテゴリーのID。取り消し期間中は一覧の取得結果から除く
+    targetIds: string[];
+    label: string;
+    // 一覧からすぐに隠す（ストアの更新やキャッシュの無効化）。やり直したときにも呼ばれる
+    hide: () => void;
+    // 取り消した場合や削除に失敗した場合に、指定したIDの表示を戻す
+    restore: (targetIds: string[]) => void;
+    // サーバーから削除する。keepaliveはページを閉じる間際に送る場合にtrueになる
+    commit: (options: { keepalive: boolean }) => Promise<void>;
+    onCommitted?: () => void;
+    onCommitError?: (err: unknown) => void;
+};
+
+/**
+ * 一部の対象だけ削除に失敗したことを表すエラー。失敗した対象だけ表示を戻すために使う。
+ */
+export class PartialDeletionError extends Error {
+    constructor(message: string, public readonly failedIds: string[]) {
+        super(message);
+        this.name = 'PartialDeletionError';
+    }
+}
+
+// 取り消し期間中の削除。キーは操作のID
+const pendingDeletions = new Map<string, { timer: number; finalize: (keepalive: boolean) => Promise<void> }>();
+
+/**
+ * 削除を取り消し期間（UNDO_WINDOW_MS）が過ぎるまで遅らせ、取り消しの履歴に積む。
+ * 期間中は一覧から隠すだけでサーバーには何も送らず、取り消した場合は表示を戻す。
+ * 期間が過ぎて削除を確定すると、その操作は履歴から除かれ取り消せなくなる。
+ */
+export const scheduleDeletion = (input: DeletionInput): UndoableAction => {
+    const { targetIds } = input;
+    const action = recordAction({ label: input.label, undo: async () => cancel(), redo: async () => schedule() });
+
+    const finalize = async (keepalive: boolean) => {
+        pendingDeletions.delete(action.id);
+        useUndoStore.getState().discard(action.id);
+        try {
+            await input.commit({ keepalive });
+            useUndoStore.getState().removePendingDeletions(targetIds);
+            input.onCommitted?.();
+        } catch (err) {
+            useUndoStore.getState().removePendingDeletions(targetIds);
+            input.restore(err instanceof PartialDeletionError ? err.failedIds : targetIds);
+            input.onCommitError?.(err);
+        }
+    };
+
+    const schedule = () => {
+        useUndoStore.getState().addPendingDeletions(targetIds);
+        input.hide();
+        const timer = window.setTimeout(() => finalize(false), UNDO_WINDOW_MS);
+        pendingDeletions.set(action.id, { timer, finalize });
+    };
+
+    const cancel = () => {
+        const pending = pendingDeletions.get(action.id);
+        if (!pending) return;
+        window.clearTimeout(pending.timer);
+        pendingDeletions.delete(action.id);
+        useUndoStore.getState().removePendingDeletions(targetIds);
+        input.restore(targetIds);
+    };
+
+    schedule();
+    return action;
+};
+
+/**
+ * 取り消し期間中の削除をすぐに確定する。ページを閉じるとき（pagehide）に呼び出し、削除が送られないまま失われないようにする。
+ * ページの破棄でXHRは中断されるため、fetchのkeepaliveで送る。
+ * バックフォワードキャッシュに入る場合も確定する。確定した操作は履歴から除かれるため、ページが復元されても表示は食い違わない。
+ */
+export const flushPendingDeletions = () => {
+    pendingDeletions.forEach(({ timer, finalize }) => {
+        window.clearTimeout(timer);
+        finalize(true);
+    });
+};
+
+/**
+ * 取り消し期間中の削除対象を一覧から除く。API層で取得結果に適用し、再取得しても削除した対象が表示されないようにする。
+ */
+export const excludePendingDeletions = <T>(values: T[], getId: (value: T) => string) => {
+    const { pendingDeletionIds } = useUndoStore.getState();
+    if (pendingDeletionIds.length === 0) return values;
+    return values.filter((value) => !pendingDeletionIds.includes(getId(value)));
+};
@@ -1,33 +1,34 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import { BrowserRouter } from 'react-router-dom';
-import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { QueryClientProvider } from '@tanstack/react-query';
 
 import App from './App.tsx';
+import { queryClient } from './lib/queryClient';
+import { persistQueryCache, restoreQueryCache } from './lib/queryPersistence';
 import './i18n';
 import './style.css';
 
-const queryClient = new QueryClient({
-  defaultOptions: {
-    queries: {
-      retry: false,
-      refetchOnWindowFocus: false,
-      refetchOnMount: true,
-      refetchOnReconnect: false,
-      staleTime: 1000 * 60 * 5,
-      gcTime: 1000 * 60 * 30,
-    },
-  },
-});
+// オフラインや回線が遅いときでもアプリを開けるよう、本番ビルドではService Workerでアプリ本体とGETレスポンスをキャッシュする
+if (import.meta.env.PROD && 'serviceWorker' in navigator) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch((err) => console.error('Service worker registration failed: ', err));
+  });
+}
+
+// 前回保存したキャッシュを復元してから描画する
+restoreQueryCache(queryClient).finally(() => {
+  persistQueryCache(queryClient);
 
-ReactDOM.createRoot(document.getElementById('root')!).render(
-  <React.StrictMode>
-    <QueryClientProvider client={queryClient}>
-      <BrowserRouter>
-        <React.Suspense fallback={<div className="flex items-center justify-center min-h-screen">Loading...</div>}>
-          <App />
-        </React.Suspense>
-      </BrowserRouter>
-    </QueryClientProvider>
-  </React.StrictMode>,
-);
+  ReactDOM.createRoot(document.getElementById('root')!).render(
+    <React.StrictMode>
+      <QueryClientProvider client={queryClient}>
+        <BrowserRouter>
+          <React.Suspense fallback={<div className="flex items-center justify-center min-h-screen">Loading...</div>}>
+            <App />
+          </React.Suspense>
+        </BrowserRouter>
+      </QueryClientProvider>
+    </React.StrictMode>,
+  );
+});
@@ -8,6 +8,7 @@ import { fetchCategories } from '@/api/categoryApi';
 import { fetchItemsByBox, fetchUnclassifiedItems, fetchUnclassifiedItemsByCategory } from '@/api/itemApi';
 import { fetchPatterns } from '@/api/patternApi';
 import { UNCLASSIFIED_ID } from '@/constants';
+import { getCategoryAncestors } from '@/lib/categoryTree';
 import { useTranslation } from 'react-i18next';
 
 import Breadcrumbs from '@/components/shared/Breadcrumbs';
@@ -181,6 +182,10 @@ const BoxAndCategoryPage = () => {
     const breadcrumbItems = React.useMemo(() => {
         const items = [{ label: 'Home', href: '/' }];
         if (currentCategory) {
+            // 親カテゴリーをトップレベルから順に並べる
+            getCategoryAncestors(categories, currentCategory.id).forEach(ancestor => {
+                items.push({ label: ancestor.name, href: `/categories/${ancestor.id}` });
+            });
             items.push({ label: currentCategory.name, href: `/categories/${categoryId}` });
         } else if (isUnclassifiedCategoryPage) {
             items.push({
@@ -206,7 +211,7 @@ const BoxAndCategoryPage = () => {
             });
         }
         return items;
-    }, [currentCategory, categoryId, isUnclassifiedCategoryPage, isBoxView, currentBox, boxId]);
+    }, [currentCategory, categories, categoryId, isUnclassifiedCategoryPage, isBoxView, currentBox, boxId]);
 
     const categoryTabsContainerRef = useRef<HTMLDivElement>(null);
     const boxTabsContainerRef = useRef<HTMLDivElement>(null);
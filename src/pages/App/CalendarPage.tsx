@@ -0,0 +1,295 @@
+import * as React from 'react';
+import { useQueries, useQuery } from '@tanstack/react-query';
+import { useTranslation } from 'react-i18next';
+import { addMonths, addWeeks, eachDayOfInterval, endOfMonth, endOfWeek, format, isSameMonth, startOfMonth, startOfWeek } from 'date-fns';
+import { enUS, ja } from 'date-fns/locale';
+import { ChevronLeftIcon, ChevronRightIcon, CheckCircleIcon, DocumentTextIcon } from '@heroicons/react/24/outline';
+import { cn } from '@/lib/utils';
+import { toDateKey } from '@/lib/date';
+
+// API & Store & Types
+import { fetchAllItems } from '@/api/itemApi';
+import { fetchCategories } from '@/api/categoryApi';
+import { fetchBoxes } from '@/api/boxApi';
+import { useCategoryStore } from '@/store';
+import { ItemResponse, ReviewDateResponse } from '@/types';
+import { UNCLASSIFIED_ID } from '@/constants';
+
+// Shared & UI Components
+import Breadcrumbs from '@/components/shared/Breadcrumbs';
+import NameCell from '@/components/shared/NameCell';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ScrollArea, ScrollBar } from '@/components/ui/scroll-area';
+import { ItemDetailModal } from '@/components/modals/ItemDetailModal';
+
+type CalendarView = 'month' | 'week';
+
+// カレンダーの1件分。復習物と、その日に予定されている復習日の組。
+type CalendarEntry = {
+    item: ItemResponse;
+    reviewDate: ReviewDateResponse;
+};
+
+// 日別詳細で使う、カテゴリー → ボックスごとの集計
+type CalendarGroup = {
+    key: string;
+    categoryId: string;
+    boxId: string;
+    entries: CalendarEntry[];
+};
+
+/**
+ * 全ての復習物の復習日を日付ごとに振り分けるヘルパー関数
+ * @param items - 集約済みの復習物リスト
+ * @returns yyyy-MM-ddをキーとした復習日のリスト
+ */
+const groupEntriesByDate = (items: ItemResponse[]): Record<string, CalendarEntry[]> => {
+    const result: Record<string, CalendarEntry[]> = {};
+    items.forEach((item) => {
+        item.review_dates.forEach((reviewDate) => {
+            if (!reviewDate.scheduled_date) return;
+            const key = toDateKey(reviewDate.scheduled_date);
+            if (!result[key]) result[key] = [];
+            result[key].push({ item, reviewDate });
+        });
+    });
+    return result;
+};
+
+/**
+ * 1日分の復習日を、カテゴリー・ボックス単位にまとめるヘルパー関数
+ */
+const groupEntriesByBox = (entries: CalendarEntry[]): CalendarGroup[] => {
+    const groups: Record<string, CalendarGroup> = {};
+    entries.forEach((entry) => {
+        const categoryId = entry.item.category_id || UNCLASSIFIED_ID;
+        const boxId = entry.item.box_id || UNCLASSIFIED_ID;
+        const key = `${categoryId}/${boxId}`;
+        if (!groups[key]) groups[key] = { key, categoryId, boxId, entries: [] };
+        groups[key].entries.push(entry);
+    });
+    return Object.values(groups).sort((a, b) => b.entries.length - a.entries.length);
+};
+
+/**
+ * 復習日カレンダーページ。
+ * 全ての復習物のscheduled_dateから月表示・週表示のカレンダーを組み立て、日ごとの件数と内訳を表示する。
+ */
+const CalendarPage = () => {
+    const { t, i18n } = useTranslation();
+    const { categories, setCategories } = useCategoryStore();
+    const dateLocale = i18n.language === 'ja' ? ja : enUS;
+
+    // 表示状態
+    const [view, setView] = React.useState<CalendarView>('month');
+    const [cursorDate, setCursorDate] = React.useState(() => new Date());
+    const [selectedDate, setSelectedDate] = React.useState<string>(() => format(new Date(), 'yyyy-MM-dd'));
+    const [detailItem, setDetailItem] = React.useState<ItemResponse | null>(null);
+
+    // データ取得
+    // 1. カテゴリー一覧 (内訳の表示名用)
+    const { data: fetchedCategories, isSuccess: catSuccess } = useQuery({
+        queryKey: ['categories'],
+        queryFn: fetchCategories,
+    });
+
+    // 2. 全カテゴリーのボックス一覧 (内訳の表示名用)
+    const boxQueries = useQueries({
+        queries: categories.map((category) => ({
+            queryKey: ['boxes', category.id],
+            queryFn: () => fetchBoxes(category.id),
+        })),
+    });
+
+    // 3. 全ての復習物。他の画面での更新を反映するため、表示のたびに取り直す。
+    const { data: allItems, isLoading } = useQuery({
+        queryKey: ['allItems'],
+        queryFn: fetchAllItems,
+        refetchOnMount: 'always',
+    });
+
+    React.useEffect(() => {
+        if (catSuccess && fetchedCategories) {
+            setCategories(fetchedCategories);
+        }
+    }, [catSuccess, fetchedCategories, setCategories]);
+
+    // データ加工
+    const entriesByDate = React.useMemo(() => groupEntriesByDate(allItems || []), [allItems]);
+
+    const boxNameById: Record<string, string> = {};
+    boxQueries.forEach((query) => query.data?.forEach((box) => { boxNameById[box.id] = box.name; }));
+
+    const getCategoryName = (categoryId: string) =>
+        categoryId === UNCLASSIFIED_ID ? t('common.unclassified') : categories.find((c) => c.id === categoryId)?.name || '-';
+    const getBoxName = (boxId: string) =>
+        boxId === UNCLASSIFIED_ID ? t('common.unclassified') : boxNameById[boxId] || '-';
+
+    // 表示する日付の範囲（週の始まりは日曜日）
+    const days = React.useMemo(() => {
+        const start = view === 'month' ? startOfWeek(startOfMonth(cursorDate)) : startOfWeek(cursorDate);
+        const end = view === 'month' ? endOfWeek(endOfMonth(cursorDate)) : endOfWeek(cursorDate);
+        return eachDayOfInterval({ start, end });
+    }, [view, cursorDate]);
+
+    const selectedEntries = React.useMemo(() => entriesByDate[selectedDate] || [], [entriesByDate, selectedDate]);
+    const selectedGroups = React.useMemo(() => groupEntriesByBox(selectedEntries), [selectedEntries]);
+    const todayKey = format(new Date(), 'yyyy-MM-dd');
+
+    // イベントハンドラ
+    const handleMove = (direction: 1 | -1) => {
+        setCursorDate((prev) => (view === 'month' ? addMonths(prev, direction) : addWeeks(prev, direction)));
+    };
+
+    const handleToday = () => {
+        setCursorDate(new Date());
+        setSelectedDate(todayKey);
+    };
+
+    return (
+        <div className="flex flex-col h-full space-y-4 overflow-hidden">
+            {/* ページのヘッダー部分 */}
+            <div className="flex items-center justify-between flex-shrink-0">
+                <Breadcrumbs items={[{ label: t('sidebar.home'), href: '/' }, { label: t('calendar.title') }]} />
+                <Tabs value={view} onValueChange={(value) => setView(value as CalendarView)}>
+                    <TabsList>
+                        <TabsTrigger value="month">{t('calendar.month')}</TabsTrigger>
+                        <TabsTrigger value="week">{t('calendar.week')}</TabsTrigger>
+                    </TabsList>
+                </Tabs>
+            </div>
+
+            <div className="flex items-center justify-center gap-2 flex-shrink-0">
+                <Button variant="ghost" size="icon" onClick={() => handleMove(-1)} aria-label={t('calendar.prev')}>
+                    <ChevronLeftIcon className="h-5 w-5" />
+                </Button>
+                <h1 className="text-2xl font-bold tracking-tight text-center min-w-[12rem]">
+                    {view === 'month'
+                        ? format(cursorDate, i18n.language === 'ja' ? 'yyyy年M月' : 'MMMM yyyy', { locale: dateLocale })
+                        : `${format(days[0], 'yyyy-MM-dd')} ~ ${format(days[days.length - 1], 'MM-dd')}`}
+                </h1>
+                <Button variant="ghost" size="icon" onClick={() => handleMove(1)} aria-label={t('calendar.next')}>
+                    <ChevronRightIcon className="h-5 w-5" />
+                </Button>
+                <Button variant="outline" size="sm" onClick={handleToday}>
+                    {t('calendar.today')}
+                </Button>
+            </div>
+
+            {/* メインコンテンツ */}
+            <div className="flex flex-col lg:flex-row gap-4 flex-1 min-h-0">
+                {/* カレンダー本体 */}
+                <Card className="flex-1 min-h-0 p-2 gap-1">
+                    <div className="grid grid-cols-7 gap-1 text-xs font-semibold text-center text-muted-foreground">
+                        {days.slice(0, 7).map((day) => (
+                            <div key={day.toISOString()}>{format(day, 'EEE', { locale: dateLocale })}</div>
+                        ))}
+                    </div>
+                    {isLoading ? (
+                        <Skeleton className="flex-1 w-full" />
+                    ) : (
+                        <div className={cn('grid grid-cols-7 gap-1 flex-1 min-h-0', view === 'month' ? 'auto-rows-fr' : 'grid-rows-1')}>
+                            {days.map((day) => {
+                                const key = format(day, 'yyyy-MM-dd');
+                                const entries = entriesByDate[key] || [];
+                                const completedCount = entries.filter((e) => e.reviewDate.is_completed).length;
+                                const groups = groupEntriesByBox(entries);
+                                // 月表示ではセルが狭いため、内訳は上位のみ表示する
+                                const visibleGroups = view === 'month' ? groups.slice(0, 2) : groups;
+
+                                return (
+                                    <button
+                                        key={key}
+                                        type="button"
+                                        onClick={() => setSelectedDate(key)}
+                                        className={cn(
+                                            'flex flex-col items-stretch rounded-md border p-1 text-left text-xs overflow-hidden transition-colors hover:bg-accent/50',
+                                            view === 'month' && !isSameMonth(day, cursorDate) && 'opacity-40',
+                                            key === selectedDate && 'border-blue-600 bg-accent',
+                                        )}
+                                    >
+                                        <div className="flex items-center justify-between">
+                                            <span className={cn('font-semibold', key === todayKey && 'rounded bg-blue-800 px-1 text-gray-200')}>
+                                                {format(day, 'd')}
+                                            </span>
+                                            {entries.length > 0 && (
+                                                <span className="flex items-center gap-0.5 text-muted-foreground">
+                                                    <CheckCircleIcon className="h-3 w-3" />
+                                                    {completedCount}/{entries.length}
+                                                </span>
+                                            )}
+                                        </div>
+                                        {visibleGroups.map((group) => (
+                                            <span key={group.key} className="truncate text-muted-foreground">
+                                                {getCategoryName(group.categoryId)} / {getBoxName(group.boxId)}: {group.entries.length}
+                                            </span>
+                                        ))}
+                                        {groups.length > visibleGroups.length && (
+                                            <span className="text-muted-foreground">+{groups.length - visibleGroups.length}</span>
+                                        )}
+                                    </button>
+                                );
+                            })}
+                        </div>
+                    )}
+                </Card>
+
+                {/* 選択日の復習リスト */}
+                <Card className="lg:w-[22rem] min-h-0 max-h-full flex-shrink-0 gap-2">
+                    <CardHeader>
+                        <CardTitle className="flex items-center justify-between">
+                            <span>{selectedDate}</span>
+                            <span className="text-sm text-muted-foreground">{t('calendar.reviewCount', { count: selectedEntries.length })}</span>
+                        </CardTitle>
+                    </CardHeader>
+                    <CardContent className="flex-1 min-h-0 p-0">
+                        <ScrollArea className="h-full px-4">
+                            {selectedGroups.length === 0 ? (
+                                <p className="text-sm text-muted-foreground text-center py-8">{t('calendar.noReviews')}</p>
+                            ) : (
+                                <div className="flex flex-col gap-4 pb-4">
+                                    {selectedGroups.map((group) => (
+                                        <div key={group.key} className="space-y-1">
+                                            <div className="flex items-center justify-between text-sm font-semibold">
+                                                <span className="truncate">{getCategoryName(group.categoryId)} / {getBoxName(group.boxId)}</span>
+                                                <span className="text-muted-foreground">{group.entries.length}</span>
+                                            </div>
+                                            {group.entries.map(({ item, reviewDate }) => (
+                                                <div key={reviewDate.review_date_id} className="flex items-center gap-2 rounded-md bg-muted px-2 py-1 text-sm">
+                                                    {reviewDate.is_completed
+                                                        ? <CheckCircleIcon className="h-4 w-4 flex-shrink-0 text-green-600" />
+                                                        : <span className="h-4 w-4 flex-shrink-0" />}
+                                                    <div className="flex-1 min-w-0">
+                                                        <NameCell name={item.name} tags={item.tags} />
+                                                    </div>
+                                                    <span className="text-xs text-muted-foreground flex-shrink-0">{t('pattern.step')} {reviewDate.step_number}</span>
+                                                    <Button variant="ghost" size="icon" className="h-6 w-6 flex-shrink-0" onClick={() => setDetailItem(item)}>
+                                                        <DocumentTextIcon className="h-4 w-4" />
+                                                    </Button>
+                                                </div>
+                                            ))}
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                            <ScrollBar orientation="vertical" className="!bg-transparent [&>div]:!bg-gray-600" />
+                        </ScrollArea>
+                    </CardContent>
+                </Card>
+            </div>
+
+            {detailItem && (
+                <ItemDetailModal
+                    isOpen={!!detailItem}
+                    onClose={() => setDetailItem(null)}
+                    item={detailItem}
+                />
+            )}
+        </div>
+    );
+};
+
+export default CalendarPage;
@@ -25,8 +25,10 @@ import { CreateCategoryModal } from '@/components/modals/CreateCategoryModal';
 import { EditCategoryModal } from '@/components/modals/EditCategoryModal';
 import { CreateBoxModal } from '@/components/modals/CreateBoxModal';
 import { UNCLASSIFIED_ID } from '@/constants';
+import { buildCategoryTree, flattenCategoryTree, getCategorySubtreeIds } from '@/lib/categoryTree';
 import { ScrollArea, ScrollBar } from '@/components/ui/scroll-area';
-import { ClockIcon, Cog8ToothIcon, DocumentIcon, InboxIcon, InboxStackIcon, PlusIcon, Squares2X2Icon } from '@heroicons/react/24/outline';
+import { ClockIcon, Cog8ToothIcon, DocumentIcon, FolderPlusIcon, InboxIcon, InboxStackIcon, PlusIcon, Squares2X2Icon } from '@heroicons/react/24/outline';
+import { ChevronDown, ChevronRight } from 'lucide-react';
 import { SortDropdown } from '@/components/shared/SortDropdown';
 
 
@@ -42,6 +44,7 @@ const HomePage = () => {
     const [isCreateCategoryModalOpen, setCreateCategoryModalOpen] = React.useState(false);
     const [editingCategory, setEditingCategory] = React.useState<GetCategoryOutput | null>(null);
     const [creatingBoxInCategory, setCreatingBoxInCategory] = React.useState<GetCategoryOutput | null>(null);
+    const [creatingSubcategoryOf, setCreatingSubcategoryOf] = React.useState<GetCategoryOutput | null>(null);
     const [categorySortOrder, setCategorySortOrder] = React.useState('name_asc');
 
     // useQueriesを使い、ホームページに必要なデータを並列で取得
@@ -90,7 +93,7 @@ const HomePage = () => {
         const unclassifiedItemCount = (unclassifiedItemCountByCategoryQuery.data || []) as UnclassifiedItemCountGroupedByCategoryResponse[];
         const unclassifiedDailyCount = (dailyUnclassifiedReviewCountByCategoryQuery.data || []) as UnclassifiedDailyDatesCountGroupedByCategoryResponse[];
 
-        return categoriesQuery.data.map(category => {
+        const ownStats = categoriesQuery.data.map(category => {
             // カテゴリーに属するボックスの総復習物数を計算
             const totalItems = itemCountByBox
                 .filter(c => c.category_id === category.id)
@@ -109,6 +112,17 @@ const HomePage = () => {
                 dailyReviewCount: dailyReviews + unclassifiedDailyReviews,
             };
         });
+
+        // サブカテゴリーの件数を親カテゴリーに合算する
+        return ownStats.map(category => {
+            const subtreeIds = getCategorySubtreeIds(ownStats, category.id);
+            const subtree = ownStats.filter(c => subtreeIds.includes(c.id));
+            return {
+                ...category,
+                totalItemCount: subtree.reduce((sum, c) => sum + c.totalItemCount, 0),
+                dailyReviewCount: subtree.reduce((sum, c) => sum + c.dailyReviewCount, 0),
+            };
+        });
     }, [categoriesQuery.data, itemCountByBoxQuery.data, dailyReviewCountByBoxQuery.data, unclassifiedItemCountByCategoryQuery.data, dailyUnclassifiedReviewCountByCategoryQuery.data]);
 
     // カテゴリー並び順に応じてcategoriesWithStatsをソート
@@ -133,6 +147,16 @@ const HomePage = () => {
         }
     }, [categoriesWithStats, categorySortOrder]);
 
+    // 並び替えたカテゴリーをツリーにし、折りたたまれていないものを表示順に並べる
+    const [collapsedCategoryIds, setCollapsedCategoryIds] = React.useState<string[]>([]);
+    const visibleCategoryNodes = React.useMemo(
+        () => flattenCategoryTree(buildCategoryTree(sortedCategoriesWithStats), collapsedCategoryIds),
+        [sortedCategoriesWithStats, collapsedCategoryIds]
+    );
+    const toggleCategoryCollapsed = (categoryId: string) => {
+        setCollapsedCategoryIds(prev => prev.includes(categoryId) ? prev.filter(id => id !== categoryId) : [...prev, categoryId]);
+    };
+
     // パターン一覧取得
     const { data: patterns, isLoading: isPatternLoading } = useQuery({
         queryKey: ['patterns'],
@@ -213,11 +237,22 @@ const HomePage = () => {
                                     {isLoading ? (
                                         Array.from({ length: 3 }).map((_, i) => <Skeleton key={i} className="h-12 w-full" />)
                                     ) : (
-                                        sortedCategoriesWithStats.map(category => (
+                                        visibleCategoryNodes.map(category => (
                                             <div
                                                 key={category.id}
                                                 className="flex flex-col sm:flex-row sm:items-center p-2 rounded-md hover:bg-muted gap-2"
+                                                style={{ paddingLeft: 8 + category.depth * 20 }}
                                             >
+                                                {/* サブカテゴリーの開閉 */}
+                                                <Button
+                                                    variant="ghost"
+                                                    size="icon"
+                                                    className={`h-6 w-6 shrink-0 ${category.children.length === 0 ? 'invisible' : ''}`}
+                                                    onClick={() => toggleCategoryCollapsed(category.id)}
+                                                    aria-label={collapsedCategoryIds.includes(category.id) ? t('category.expand') : t('category.collapse')}
+                                                >
+                                                    {collapsedCategoryIds.includes(category.id) ? <ChevronRight className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                                                </Button>
                                                 <Link
                                                     to={`/categories/${category.id}`}
                                                     className="flex-grow grid grid-cols-1 sm:grid-cols-3 items-center gap-1"
@@ -242,6 +277,15 @@ const HomePage = () => {
                                                     </div>
                                                 </Link>
                                                 <div className="flex items-center justify-end">
+                                                    <Button
+                                                        variant="ghost"
+                                                        size="icon"
+                                                        className="h-8 w-8 transition-colors hover:bg-gray-200 hover:brightness-150"
+                                                        title={t('category.createSubcategory')}
+                                                        onClick={() => setCreatingSubcategoryOf(category)}
+                                                    >
+                                                        <FolderPlusIcon className="h-4 w-4" />
+                                                    </Button>
                                                     <Button
                                                         variant="ghost"
                                                         size="icon"
@@ -263,6 +307,7 @@ const HomePage = () => {
 
                 {/* モーダル群 */}
                 <CreateCategoryModal isOpen={isCreateCategoryModalOpen} onClose={() => setCreateCategoryModalOpen(false)} />
+                <CreateCategoryModal isOpen={!!creatingSubcategoryOf} onClose={() => setCreatingSubcategoryOf(null)} parentId={creatingSubcategoryOf?.id} />
                 {editingCategory && <EditCategoryModal isOpen={!!editingCategory} onClose={() => setEditingCategory(null)} category={editingCategory} />}
                 {creatingBoxInCategory && <CreateBoxModal isOpen={!!creatingBoxInCategory} onClose={() => setCreatingBoxInCategory(null)} categoryId={creatingBoxInCategory.id} categoryName={creatingBoxInCategory.name} />}
             </div>
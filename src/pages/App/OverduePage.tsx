@@ -0,0 +1,431 @@
+import * as React from 'react';
+import { useQueries, useQuery, useQueryClient } from '@tanstack/react-query';
+import { ColumnDef, RowSelectionState } from '@tanstack/react-table';
+import axios from 'axios';
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { useTranslation } from 'react-i18next';
+import { CheckCircleIcon, CalendarDaysIcon, DocumentTextIcon, PencilIcon } from '@heroicons/react/24/outline';
+
+// API & Store & Types
+import { fetchAllItems, completeReviewDate, updateReviewDate } from '@/api/itemApi';
+import { fetchCategories } from '@/api/categoryApi';
+import { fetchBoxes } from '@/api/boxApi';
+import { useCategoryStore, usePatternStore } from '@/store';
+import { useReviewUndo } from '@/hooks/useReviewUndo';
+import { defaultGradeFor } from '@/lib/sm2';
+import { toDateKey } from '@/lib/date';
+import { ItemResponse, ReviewDateResponse } from '@/types';
+
+// Shared & UI Components
+import Breadcrumbs from '@/components/shared/Breadcrumbs';
+import NameCell from '@/components/shared/NameCell';
+import { DataTable } from '@/components/shared/DataTable/DataTable';
+import { createSelectColumn } from '@/components/shared/DataTable/DataTableSelectColumn';
+import { TableSkeleton } from '@/components/shared/SkeletonLoader';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ScrollArea, ScrollBar } from '@/components/ui/scroll-area';
+import { ItemDetailModal } from '@/components/modals/ItemDetailModal';
+import { EditReviewDateModal } from '@/components/modals/EditReviewDateModal';
+
+// 期限切れの復習日1件分
+type OverdueRow = {
+    item: ItemResponse;
+    reviewDate: ReviewDateResponse;
+    scheduledKey: string;
+    daysOverdue: number;
+};
+
+type TriageAction = 'complete' | 'reschedule';
+
+type TriageReport = {
+    action: TriageAction;
+    succeeded: number;
+    // 同じ復習物の後続ステップとして、先のステップの変更に合わせて再計算されるためスキップした件数
+    skipped: number;
+    failures: { row: OverdueRow; message: string }[];
+};
+
+type RescheduleOptions = {
+    mode: 'today' | 'spread';
+    // 分散させる日数（今日を1日目とする）
+    days: number;
+    isMarkOverdueAsCompleted: boolean;
+};
+
+/**
+ * 全ての復習物から、今日より前に予定されていて未完了の復習日を抜き出すヘルパー関数
+ */
+const collectOverdueRows = (items: ItemResponse[], todayKey: string): OverdueRow[] => {
+    const today = parseISO(todayKey);
+    return items.flatMap((item) => item.review_dates
+        .filter((rd) => !rd.is_completed && !!rd.scheduled_date && toDateKey(rd.scheduled_date) < todayKey)
+        .map((reviewDate) => {
+            const scheduledKey = toDateKey(reviewDate.scheduled_date);
+            return { item, reviewDate, scheduledKey, daysOverdue: differenceInCalendarDays(today, parseISO(scheduledKey)) };
+        }))
+        .sort((a, b) => a.scheduledKey.localeCompare(b.scheduledKey) || a.reviewDate.step_number - b.reviewDate.step_number);
+};
+
+/**
+ * 復習日の変更対象を、復習物ごとに最も早いステップだけに絞る。
+ * 復習日を変更すると後続のステップはパターンに従って再計算されるため、後続のステップは個別に変更しない。
+ */
+const pickEarliestStepPerItem = (rows: OverdueRow[]) => {
+    const earliest = new Map<string, OverdueRow>();
+    rows.forEach((row) => {
+        const current = earliest.get(row.item.item_id);
+        if (!current || row.reviewDate.step_number < current.reviewDate.step_number) {
+            earliest.set(row.item.item_id, row);
+        }
+    });
+    return [...earliest.values()].sort((a, b) => a.scheduledKey.localeCompare(b.scheduledKey));
+};
+
+/**
+ * 期限切れの復習を整理するページ。
+ * 今日より前に予定されていて未完了の復習日を一覧し、まとめて完了・今日へ変更・今後N日間への分散を行う。
+ */
+const OverduePage = () => {
+    const { t } = useTranslation();
+    const queryClient = useQueryClient();
+    const { patterns } = usePatternStore();
+    const { recordCompleted } = useReviewUndo();
+    const { categories, setCategories } = useCategoryStore();
+    const todayKey = format(new Date(), 'yyyy-MM-dd');
+
+    // 表示状態
+    const [rowSelection, setRowSelection] = React.useState<RowSelectionState>({});
+    const [detailItem, setDetailItem] = React.useState<ItemResponse | null>(null);
+    const [editingReviewDate, setEditingReviewDate] = React.useState<{ item: ItemResponse; reviewDate: ReviewDateResponse } | null>(null);
+    const [isRescheduleOpen, setRescheduleOpen] = React.useState(false);
+    const [rescheduleOptions, setRescheduleOptions] = React.useState<RescheduleOptions>({ mode: 'today', days: 7, isMarkOverdueAsCompleted: true });
+    const [progress, setProgress] = React.useState<{ action: TriageAction; done: number; total: number } | null>(null);
+    const [report, setReport] = React.useState<TriageReport | null>(null);
+
+    // データ取得
+    // 1. カテゴリー一覧 (場所の表示名用)
+    const { data: fetchedCategories, isSuccess: catSuccess } = useQuery({
+        queryKey: ['categories'],
+        queryFn: fetchCategories,
+    });
+
+    // 2. 全カテゴリーのボックス一覧 (場所の表示名用)
+    const boxQueries = useQueries({
+        queries: categories.map((category) => ({
+            queryKey: ['boxes', category.id],
+            queryFn: () => fetchBoxes(category.id),
+        })),
+    });
+
+    // 3. 全ての復習物。他の画面での更新を反映するため、表示のたびに取り直す。
+    const { data: allItems, isLoading } = useQuery({
+        queryKey: ['allItems'],
+        queryFn: fetchAllItems,
+        refetchOnMount: 'always',
+    });
+
+    React.useEffect(() => {
+        if (catSuccess && fetchedCategories) {
+            setCategories(fetchedCategories);
+        }
+    }, [catSuccess, fetchedCategories, setCategories]);
+
+    // データ加工
+    const rows = React.useMemo(() => collectOverdueRows(allItems || [], todayKey), [allItems, todayKey]);
+    const selectedRows = React.useMemo(() => rows.filter((row) => rowSelection[row.reviewDate.review_date_id]), [rows, rowSelection]);
+    // 選択が無い場合は一覧の全件を対象にする
+    const targetRows = selectedRows.length > 0 ? selectedRows : rows;
+
+    const boxNameById: Record<string, string> = {};
+    boxQueries.forEach((query) => query.data?.forEach((box) => { boxNameById[box.id] = box.name; }));
+    const getLocation = (item: ItemResponse) => [
+        item.category_id ? categories.find((c) => c.id === item.category_id)?.name || '-' : t('common.unclassified'),
+        item.box_id ? boxNameById[item.box_id] || '-' : t('common.unclassified'),
+    ].join(' / ');
+
+    /**
+     * 対象の復習日に順番に処理を実行し、最後にまとめて報告する。
+     * @returns 処理に成功した復習日
+     */
+    const runTriage = async (action: TriageAction, targets: OverdueRow[], run: (row: OverdueRow, index: number) => Promise<unknown>, skipped = 0) => {
+        const failures: TriageReport['failures'] = [];
+        const succeededRows: OverdueRow[] = [];
+        setProgress({ action, done: 0, total: targets.length });
+
+        for (const [index, row] of targets.entries()) {
+            try {
+                await run(row, index);
+                succeededRows.push(row);
+            } catch (err) {
+                const message = axios.isAxiosError(err) ? err.response?.data?.error || err.message : String(err);
+                failures.push({ row, message });
+            }
+            setProgress({ action, done: index + 1, total: targets.length });
+        }
+
+        setProgress(null);
+        setReport({ action, succeeded: succeededRows.length, skipped, failures });
+        setRowSelection(Object.fromEntries(failures.map((f) => [f.row.reviewDate.review_date_id, true])));
+
+        queryClient.invalidateQueries({ queryKey: ['items'] });
+        queryClient.invalidateQueries({ queryKey: ['todaysReviews'] });
+        queryClient.invalidateQueries({ queryKey: ['summary'] });
+        queryClient.invalidateQueries({ queryKey: ['finishedItems'] });
+        queryClient.invalidateQueries({ queryKey: ['allItems'] });
+        return succeededRows;
+    };
+
+    const handleCompleteAll = async () => {
+        // 同じ復習物はステップ順に完了させる
+        const targets = [...targetRows].sort((a, b) =>
+            a.item.item_id.localeCompare(b.item.item_id) || a.reviewDate.step_number - b.reviewDate.step_number);
+        const completedRows = await runTriage('complete', targets, ({ item, reviewDate }) =>
+            completeReviewDate({ itemId: item.item_id, reviewDateId: reviewDate.review_date_id, data: { step_number: reviewDate.step_number, grade: defaultGradeFor(item, patterns) } }));
+        recordCompleted(
+            completedRows.map(({ item, reviewDate }) => ({ itemId: item.item_id, reviewDateId: reviewDate.review_date_id, stepNumber: reviewDate.step_number, grade: defaultGradeFor(item, patterns) })),
+            t('undo.reviewsCompleted', { count: completedRows.length }),
+        );
+    };
+
+    const handleReschedule = () => {
+        setRescheduleOpen(false);
+        const { mode, days, isMarkOverdueAsCompleted } = rescheduleOptions;
+        const targets = pickEarliestStepPerItem(targetRows);
+        const today = parseISO(todayKey);
+
+        runTriage('reschedule', targets, ({ item, reviewDate }, index) => {
+            if (!item.pattern_id) throw new Error(t('error.patternNotFound'));
+            // 分散させる場合は、予定日の古い順に今日からN日間へ均等に割り振る
+            const offset = mode === 'spread' ? Math.floor((index * days) / targets.length) : 0;
+            return updateReviewDate({
+                itemId: item.item_id,
+                reviewDateId: reviewDate.review_date_id,
+                data: {
+                    request_scheduled_date: format(addDays(today, offset), 'yyyy-MM-dd'),
+                    is_mark_overdue_as_completed: isMarkOverdueAsCompleted,
+                    today: todayKey,
+                    pattern_id: item.pattern_id,
+                    learned_date: item.learned_date,
+                    initial_scheduled_date: reviewDate.initial_scheduled_date,
+                    step_number: reviewDate.step_number,
+                    category_id: item.category_id,
+                    box_id: item.box_id,
+                },
+            });
+        }, targetRows.length - targets.length);
+    };
+
+    // テーブルの列定義
+    const columns: ColumnDef<OverdueRow>[] = [
+        createSelectColumn<OverdueRow>({ selectAll: t('batch.selectAll'), selectRow: t('batch.selectRow') }),
+        {
+            id: 'name',
+            header: t('item.name'),
+            cell: ({ row }) => <NameCell name={row.original.item.name} maxWidth={320} tags={row.original.item.tags} />,
+        },
+        {
+            id: 'location',
+            header: t('overdue.location'),
+            cell: ({ row }) => <span className="text-muted-foreground">{getLocation(row.original.item)}</span>,
+        },
+        {
+            id: 'step',
+            header: t('pattern.step'),
+            cell: ({ row }) => row.original.reviewDate.step_number,
+        },
+        {
+            accessorKey: 'scheduledKey',
+            header: t('overdue.scheduledDate'),
+        },
+        {
+            accessorKey: 'daysOverdue',
+            header: t('overdue.daysOverdue'),
+            cell: ({ row }) => <span className="text-red-500">{t('overdue.daysLate', { count: row.original.daysOverdue })}</span>,
+        },
+        {
+            id: 'actions',
+            header: '',
+            cell: ({ row }) => (
+                <div className="flex gap-1">
+                    <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setDetailItem(row.original.item)}>
+                        <DocumentTextIcon className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setEditingReviewDate({ item: row.original.item, reviewDate: row.original.reviewDate })}>
+                        <PencilIcon className="h-4 w-4" />
+                    </Button>
+                </div>
+            ),
+        },
+    ];
+
+    const rescheduleTargetCount = pickEarliestStepPerItem(targetRows).length;
+
+    return (
+        <div className="flex flex-col h-full space-y-4 overflow-hidden">
+            {/* ページのヘッダー部分 */}
+            <div className="flex items-center justify-between flex-shrink-0">
+                <Breadcrumbs items={[{ label: t('sidebar.home'), href: '/' }, { label: t('overdue.title') }]} />
+            </div>
+
+            {/* 一括操作 */}
+            <div className="flex flex-wrap items-center gap-2 rounded-md border bg-muted/40 px-3 py-2 text-sm flex-shrink-0">
+                {progress ? (
+                    <div className="flex flex-1 items-center gap-3">
+                        <span>{t(`overdue.running.${progress.action}`)}</span>
+                        <div className="h-2 flex-1 max-w-64 overflow-hidden rounded bg-muted">
+                            <div className="h-full bg-primary transition-all" style={{ width: `${(progress.done / Math.max(progress.total, 1)) * 100}%` }} />
+                        </div>
+                        <span className="tabular-nums text-muted-foreground">{progress.done} / {progress.total}</span>
+                    </div>
+                ) : (
+                    <>
+                        <span className="font-medium">
+                            {selectedRows.length > 0
+                                ? t('batch.selected', { count: selectedRows.length })
+                                : t('overdue.count', { count: rows.length })}
+                        </span>
+                        <div className="flex flex-1 flex-wrap items-center gap-2">
+                            <Button variant="outline" size="sm" onClick={handleCompleteAll} disabled={targetRows.length === 0}>
+                                <CheckCircleIcon className="h-4 w-4" />
+                                {t('overdue.completeAll', { count: targetRows.length })}
+                            </Button>
+                            <Button variant="outline" size="sm" onClick={() => setRescheduleOpen(true)} disabled={targetRows.length === 0}>
+                                <CalendarDaysIcon className="h-4 w-4" />
+                                {t('overdue.reschedule')}
+                            </Button>
+                        </div>
+                        {selectedRows.length > 0 && (
+                            <Button variant="ghost" size="sm" onClick={() => setRowSelection({})}>
+                                {t('batch.clearSelection')}
+                            </Button>
+                        )}
+                    </>
+                )}
+            </div>
+
+            {/* 一覧 */}
+            <Card className="flex-1 min-h-0 p-0 py-0">
+                <CardContent className="p-0 h-full">
+                    <ScrollArea className="w-full h-full max-h-[calc(100vh-220px)] rounded-xl whitespace-nowrap pr-3 pb-4">
+                        {isLoading ? (
+                            <TableSkeleton />
+                        ) : rows.length === 0 ? (
+                            <p className="py-12 text-center text-sm text-muted-foreground">{t('overdue.empty')}</p>
+                        ) : (
+                            <DataTable
+                                columns={columns}
+                                data={rows}
+                                enablePagination={false}
+                                maxHeight="100%"
+                                rowSelection={rowSelection}
+                                onRowSelectionChange={setRowSelection}
+                                getRowId={(row) => row.reviewDate.review_date_id}
+                            />
+                        )}
+                        <ScrollBar orientation="vertical" className="!bg-transparent [&>div]:!bg-gray-600" />
+                        <ScrollBar orientation="horizontal" className="!bg-transparent ml-2 [&>div]:!bg-gray-600 !h-1.5" />
+                    </ScrollArea>
+                </CardContent>
+            </Card>
+
+            {/* 復習日の一括変更 */}
+            <Dialog open={isRescheduleOpen} onOpenChange={setRescheduleOpen}>
+                <DialogContent className="sm:max-w-md">
+                    <DialogHeader>
+                        <DialogTitle>{t('overdue.rescheduleTitle')}</DialogTitle>
+                        <DialogDescription>{t('overdue.rescheduleDescription', { count: rescheduleTargetCount })}</DialogDescription>
+                    </DialogHeader>
+                    <div className="space-y-4">
+                        <div className="space-y-2">
+                            <Label>{t('overdue.rescheduleMode')}</Label>
+                            <Select value={rescheduleOptions.mode} onValueChange={(value) => setRescheduleOptions((prev) => ({ ...prev, mode: value as RescheduleOptions['mode'] }))}>
+                                <SelectTrigger className="w-full"><SelectValue /></SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="today">{t('overdue.modeToday')}</SelectItem>
+                                    <SelectItem value="spread">{t('overdue.modeSpread')}</SelectItem>
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        {rescheduleOptions.mode === 'spread' && (
+                            <div className="space-y-2">
+                                <Label>{t('overdue.spreadDays')}</Label>
+                                <Input
+                                    type="number"
+                                    min={1}
+                                    value={rescheduleOptions.days}
+                                    onChange={(e) => {
+                                        const value = Number(e.target.value);
+                                        if (value >= 1) setRescheduleOptions((prev) => ({ ...prev, days: value }));
+                                    }}
+                                />
+                                <p className="text-xs text-muted-foreground">
+                                    {t('overdue.spreadPreview', { perDay: Math.ceil(rescheduleTargetCount / rescheduleOptions.days) })}
+                                </p>
+                            </div>
+                        )}
+                        <div className="space-y-2">
+                            <Label>{t('review.overdueHandling')}</Label>
+                            <Select
+                                value={String(rescheduleOptions.isMarkOverdueAsCompleted)}
+                                onValueChange={(value) => setRescheduleOptions((prev) => ({ ...prev, isMarkOverdueAsCompleted: value === 'true' }))}
+                            >
+                                <SelectTrigger className="w-full"><SelectValue /></SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="true">{t('review.overdueComplete')}</SelectItem>
+                                    <SelectItem value="false">{t('review.overdueToday')}</SelectItem>
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <p className="text-xs text-muted-foreground">{t('overdue.laterStepsNote')}</p>
+                    </div>
+                    <DialogFooter>
+                        <Button type="button" variant="secondary" onClick={() => setRescheduleOpen(false)}>{t('common.cancel')}</Button>
+                        <Button type="button" onClick={handleReschedule}>{t('overdue.reschedule')}</Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+
+            {/* 一括操作の結果報告 */}
+            <Dialog open={!!report} onOpenChange={() => setReport(null)}>
+                <DialogContent className="sm:max-w-md">
+                    <DialogHeader>
+                        <DialogTitle>{report && t(`overdue.reportTitle.${report.action}`)}</DialogTitle>
+                        <DialogDescription>
+                            {report && t('batch.reportSummary', { succeeded: report.succeeded, failed: report.failures.length })}
+                            {report && report.skipped > 0 && ` ${t('overdue.reportSkipped', { count: report.skipped })}`}
+                        </DialogDescription>
+                    </DialogHeader>
+                    {report && report.failures.length > 0 && (
+                        <div className="space-y-2">
+                            <p className="text-sm text-red-500">{t('batch.failuresStillSelected')}</p>
+                            <ScrollArea className="max-h-60 rounded-md border">
+                                <ul className="divide-y text-sm">
+                                    {report.failures.map(({ row, message }) => (
+                                        <li key={row.reviewDate.review_date_id} className="p-2">
+                                            <p className="truncate font-medium" title={row.item.name}>{row.item.name}</p>
+                                            {message && <p className="break-words text-xs text-muted-foreground">{message}</p>}
+                                        </li>
+                                    ))}
+                                </ul>
+                                <ScrollBar orientation="vertical" className="!bg-transparent [&>div]:!bg-gray-600" />
+                            </ScrollArea>
+                        </div>
+                    )}
+                    <DialogFooter>
+                        <Button type="button" variant="secondary" onClick={() => setReport(null)}>{t('common.close')}</Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+
+            {detailItem && <ItemDetailModal isOpen={!!detailItem} onClose={() => setDetailItem(null)} item={detailItem} />}
+            {editingReviewDate && <EditReviewDateModal isOpen={!!editingReviewDate} onClose={() => setEditingReviewDate(null)} data={editingReviewDate} />}
+        </div>
+    );
+};
+
+export default OverduePage;
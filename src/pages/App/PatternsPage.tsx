@@ -4,13 +4,14 @@ import { useTranslation } from 'react-i18next';
 
 import { fetchPatterns } from '@/api/patternApi';
 import { usePatternStore } from '@/store';
-import { PatternResponse } from '@/types';
+import { CreatePatternRequest, PatternResponse } from '@/types';
 
 import { CardListSkeleton } from '@/components/shared/SkeletonLoader';
 import Breadcrumbs from '@/components/shared/Breadcrumbs';
 import { SortDropdown } from '@/components/shared/SortDropdown';
 
 import { EditPatternModal } from '@/components/modals/EditPatternModal';
+import { CreatePatternModal } from '@/components/modals/CreatePatternModal';
 import { ScrollArea, ScrollBar } from '@/components/ui/scroll-area';
 
 
@@ -24,6 +25,8 @@ const PatternsPage = () => {
 
     // 編集モーダルを開くために、どのパターンを編集中か管理するstate
     const [editingPattern, setEditingPattern] = React.useState<PatternResponse | null>(null);
+    // 複製ボタンが押されたときに、作成モーダルへ事前入力する値
+    const [duplicateValues, setDuplicateValues] = React.useState<CreatePatternRequest | null>(null);
     // リストの並び順を管理するstate
     const [sortOrder, setSortOrder] = React.useState('name_asc');
 
@@ -50,6 +53,19 @@ const PatternsPage = () => {
         setEditingPattern(pattern);
     };
 
+    // 複製ボタンが押されたときに、既存パターンの内容を作成モーダルに読み込んで開く
+    const handleDuplicate = (pattern: PatternResponse) => {
+        setDuplicateValues({
+            name: t('pattern.copyName', { name: pattern.name }),
+            target_weight: pattern.target_weight,
+            kind: pattern.kind,
+            initial_ease_factor: pattern.initial_ease_factor ?? undefined,
+            steps: [...pattern.steps]
+                .sort((a, b) => a.step_number - b.step_number)
+                .map((step) => ({ step_number: step.step_number, interval_days: step.interval_days })),
+        });
+    };
+
     // 並び順の選択肢を拡張
     const sortOptions = [
         { value: 'name_asc', label: t('sort.nameAsc') },
@@ -137,7 +153,13 @@ const PatternsPage = () => {
                                                 <span className="break-all">{pattern.steps.map(s => s.interval_days).join(' | ')}</span>
                                             </div>
                                         </div>
-                                        <div className="mt-2 md:mt-0 md:ml-4 flex-shrink-0 flex items-center">
+                                        <div className="mt-2 md:mt-0 md:ml-4 flex-shrink-0 flex items-center gap-2">
+                                            <button
+                                                className="rounded-md border px-4 py-2 text-sm font-semibold hover:bg-primary/20 transition-colors"
+                                                onClick={() => handleDuplicate(pattern)}
+                                            >
+                                                {t('pattern.duplicate')}
+                                            </button>
                                             <button
                                                 className="rounded-md bg-gray-700 text-white px-4 py-2 text-sm font-semibold hover:bg-primary/80 transition-colors"
                                                 onClick={() => handleEdit(pattern)}
@@ -162,6 +184,13 @@ const PatternsPage = () => {
                     pattern={editingPattern}
                 />
             )}
+
+            {/* 複製用の作成モーダル */}
+            <CreatePatternModal
+                isOpen={!!duplicateValues}
+                onClose={() => setDuplicateValues(null)}
+                initialValues={duplicateValues ?? undefined}
+            />
         </div>
     );
 };
@@ -0,0 +1,350 @@
+import * as React from 'react';
+import { useQueries, useQuery } from '@tanstack/react-query';
+import { useTranslation } from 'react-i18next';
+import { eachDayOfInterval, format, parseISO, subDays } from 'date-fns';
+import { cn } from '@/lib/utils';
+import { toDateKey } from '@/lib/date';
+
+// API & Store & Types
+import { fetchAllFinishedItems, fetchAllItems } from '@/api/itemApi';
+import { fetchCategories } from '@/api/categoryApi';
+import { fetchBoxes } from '@/api/boxApi';
+import { useCategoryStore } from '@/store';
+import { buildBreakdown, buildDailyStats, buildStepStats, buildStreaks, toRate } from '@/lib/reviewStats';
+
+// Shared & UI Components
+import Breadcrumbs from '@/components/shared/Breadcrumbs';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ScrollArea, ScrollBar } from '@/components/ui/scroll-area';
+
+// 期間の選択肢（今日から遡る日数）
+const RANGE_PRESETS = [7, 30, 90, 365] as const;
+type RangePreset = `${typeof RANGE_PRESETS[number]}` | 'custom';
+
+type BarSegment = {
+    value: number;
+    className: string;
+};
+
+type BarChartProps = {
+    bars: { key: string; title: string; segments: BarSegment[] }[];
+    // 棒グラフ下部に表示する左端・右端のラベル
+    startLabel: string;
+    endLabel: string;
+};
+
+/**
+ * 積み上げ棒グラフ。下から順にsegmentsを積み上げる。
+ */
+const BarChart = ({ bars, startLabel, endLabel }: BarChartProps) => {
+    const maxValue = Math.max(1, ...bars.map((bar) => bar.segments.reduce((sum, s) => sum + s.value, 0)));
+    return (
+        <div className="space-y-1">
+            <div className="flex h-32 items-end gap-px">
+                {bars.map((bar) => (
+                    <div key={bar.key} className="flex h-full flex-1 flex-col-reverse" title={bar.title}>
+                        {bar.segments.map((segment, i) => segment.value > 0 && (
+                            <div key={i} className={cn('w-full', segment.className)} style={{ height: `${(segment.value / maxValue) * 100}%` }} />
+                        ))}
+                    </div>
+                ))}
+            </div>
+            <div className="flex justify-between text-xs text-muted-foreground">
+                <span>{startLabel}</span>
+                <span>{endLabel}</span>
+            </div>
+        </div>
+    );
+};
+
+type SummaryCardProps = {
+    label: string;
+    value: string;
+    sub?: string;
+    className?: string;
+};
+
+const SummaryCard = ({ label, value, sub, className }: SummaryCardProps) => (
+    <Card className="gap-1 p-4">
+        <span className="text-xs text-muted-foreground">{label}</span>
+        <span className={cn('text-2xl font-bold tabular-nums', className)}>{value}</span>
+        {sub && <span className="text-xs text-muted-foreground">{sub}</span>}
+    </Card>
+);
+
+/**
+ * 統計ページ。
+ * 全ての復習物（完了済みを含む）のreview_datesから、連続達成日数・日別の完了率・期限切れの推移・ステップ別の分布・
+ * カテゴリー/ボックス別の内訳を集計して表示する。
+ */
+const StatsPage = () => {
+    const { t } = useTranslation();
+    const { categories, setCategories } = useCategoryStore();
+    const todayKey = format(new Date(), 'yyyy-MM-dd');
+
+    // 表示状態
+    const [preset, setPreset] = React.useState<RangePreset>('30');
+    const [fromKey, setFromKey] = React.useState(() => format(subDays(new Date(), 29), 'yyyy-MM-dd'));
+    const [toKey, setToKey] = React.useState(todayKey);
+    const [breakdownUnit, setBreakdownUnit] = React.useState<'category' | 'box'>('category');
+
+    // データ取得
+    // 1. カテゴリー一覧 (内訳の表示名用)
+    const { data: fetchedCategories, isSuccess: catSuccess } = useQuery({
+        queryKey: ['categories'],
+        queryFn: fetchCategories,
+    });
+
+    // 2. 全カテゴリーのボックス一覧 (内訳の表示名用)
+    const boxQueries = useQueries({
+        queries: categories.map((category) => ({
+            queryKey: ['boxes', category.id],
+            queryFn: () => fetchBoxes(category.id),
+        })),
+    });
+
+    // 3. 全ての復習物と完了済みの復習物。他の画面での更新を反映するため、表示のたびに取り直す。
+    const { data: allItems, isLoading: isItemsLoading } = useQuery({
+        queryKey: ['allItems'],
+        queryFn: fetchAllItems,
+        refetchOnMount: 'always',
+    });
+    const { data: finishedItems, isLoading: isFinishedLoading } = useQuery({
+        queryKey: ['finishedItems', 'all'],
+        queryFn: fetchAllFinishedItems,
+        refetchOnMount: 'always',
+    });
+    const isLoading = isItemsLoading || isFinishedLoading;
+
+    React.useEffect(() => {
+        if (catSuccess && fetchedCategories) {
+            setCategories(fetchedCategories);
+        }
+    }, [catSuccess, fetchedCategories, setCategories]);
+
+    // データ加工
+    const items = React.useMemo(() => [...(allItems || []), ...(finishedItems || [])], [allItems, finishedItems]);
+
+    const dateKeys = React.useMemo(() => {
+        if (fromKey > toKey) return [];
+        return eachDayOfInterval({ start: parseISO(fromKey), end: parseISO(toKey) }).map((day) => format(day, 'yyyy-MM-dd'));
+    }, [fromKey, toKey]);
+
+    const dailyStats = React.useMemo(() => buildDailyStats(items, dateKeys, todayKey), [items, dateKeys, todayKey]);
+    const streaks = React.useMemo(() => buildStreaks(items, todayKey), [items, todayKey]);
+    const stepStats = React.useMemo(() => buildStepStats(items, fromKey, toKey, todayKey), [items, fromKey, toKey, todayKey]);
+    const breakdown = React.useMemo(
+        () => buildBreakdown(items, fromKey, toKey, todayKey, breakdownUnit === 'box'),
+        [items, fromKey, toKey, todayKey, breakdownUnit],
+    );
+
+    // 期間全体の集計（今日までに予定されていたものだけを完了率の対象にする）
+    const pastStats = dailyStats.filter((day) => day.date <= todayKey);
+    const totalDue = pastStats.reduce((sum, day) => sum + day.due, 0);
+    const totalCompleted = pastStats.reduce((sum, day) => sum + day.completed, 0);
+    const totalOnTime = pastStats.reduce((sum, day) => sum + day.onTime, 0);
+    const completionRate = toRate(totalCompleted, totalDue);
+    const onTimeRate = toRate(totalOnTime, totalCompleted);
+    const currentBacklog = items.reduce((sum, item) => sum + item.review_dates.filter((rd) =>
+        !rd.is_completed && !!rd.scheduled_date && toDateKey(rd.scheduled_date) < todayKey).length, 0);
+    const maxStepTotal = Math.max(1, ...stepStats.map((step) => step.total));
+
+    const boxNameById: Record<string, string> = {};
+    boxQueries.forEach((query) => query.data?.forEach((box) => { boxNameById[box.id] = box.name; }));
+    const getCategoryName = (categoryId: string | null) =>
+        categoryId ? categories.find((c) => c.id === categoryId)?.name || '-' : t('common.unclassified');
+    const getBoxName = (boxId: string | null) => (boxId ? boxNameById[boxId] || '-' : t('common.unclassified'));
+
+    const formatRate = (rate: number | null) => (rate === null ? '-' : `${rate}%`);
+
+    // イベントハンドラ
+    const handlePresetChange = (value: string) => {
+        setPreset(value as RangePreset);
+        if (value === 'custom') return;
+        setFromKey(format(subDays(new Date(), Number(value) - 1), 'yyyy-MM-dd'));
+        setToKey(todayKey);
+    };
+
+    return (
+        <div className="flex flex-col h-full space-y-4 overflow-hidden">
+            {/* ページのヘッダー部分 */}
+            <div className="flex flex-wrap items-center justify-between gap-2 flex-shrink-0">
+                <Breadcrumbs items={[{ label: t('sidebar.home'), href: '/' }, { label: t('stats.title') }]} />
+                <div className="flex flex-wrap items-center gap-2">
+                    <Tabs value={preset} onValueChange={handlePresetChange}>
+                        <TabsList>
+                            {RANGE_PRESETS.map((days) => (
+                                <TabsTrigger key={days} value={String(days)}>{t('stats.lastDays', { count: days })}</TabsTrigger>
+                            ))}
+                            <TabsTrigger value="custom">{t('stats.custom')}</TabsTrigger>
+                        </TabsList>
+                    </Tabs>
+                    {preset === 'custom' && (
+                        <div className="flex items-center gap-1 text-sm">
+                            <Input type="date" value={fromKey} max={toKey} onChange={(e) => e.target.value && setFromKey(e.target.value)} className="h-8 w-[9.5rem]" />
+                            <span>~</span>
+                            <Input type="date" value={toKey} min={fromKey} onChange={(e) => e.target.value && setToKey(e.target.value)} className="h-8 w-[9.5rem]" />
+                        </div>
+                    )}
+                </div>
+            </div>
+
+            <ScrollArea className="flex-1 min-h-0">
+                {isLoading ? (
+                    <div className="space-y-4 pr-3">
+                        <Skeleton className="h-24 w-full" />
+                        <Skeleton className="h-48 w-full" />
+                        <Skeleton className="h-48 w-full" />
+                    </div>
+                ) : (
+                    <div className="space-y-4 pr-3 pb-4">
+                        {/* 概要 */}
+                        <div className="grid grid-cols-2 gap-4 md:grid-cols-5">
+                            <SummaryCard label={t('stats.currentStreak')} value={t('stats.days', { count: streaks.current })} />
+                            <SummaryCard label={t('stats.longestStreak')} value={t('stats.days', { count: streaks.longest })} />
+                            <SummaryCard
+                                label={t('stats.completionRate')}
+                                value={formatRate(completionRate)}
+                                sub={t('stats.completedOfDue', { completed: totalCompleted, due: totalDue })}
+                            />
+                            <SummaryCard label={t('stats.onTimeRate')} value={formatRate(onTimeRate)} sub={t('stats.onTimeDescription')} />
+                            <SummaryCard
+                                label={t('stats.overdueNow')}
+                                value={String(currentBacklog)}
+                                className={currentBacklog > 0 ? 'text-red-500' : undefined}
+                            />
+                        </div>
+
+                        {/* 日別の完了状況 */}
+                        <Card className="gap-2">
+                            <CardHeader>
+                                <CardTitle className="flex flex-wrap items-center justify-between gap-2 text-base">
+                                    <span>{t('stats.dailyCompletion')}</span>
+                                    <span className="flex items-center gap-2 text-xs font-normal text-muted-foreground">
+                                        <span className="inline-block h-2 w-2 bg-green-600" />{t('stats.completed')}
+                                        <span className="inline-block h-2 w-2 bg-neutral-400 dark:bg-neutral-600" />{t('stats.notCompleted')}
+                                    </span>
+                                </CardTitle>
+                            </CardHeader>
+                            <CardContent>
+                                <BarChart
+                                    startLabel={fromKey}
+                                    endLabel={toKey}
+                                    bars={dailyStats.map((day) => ({
+                                        key: day.date,
+                                        title: `${day.date}: ${day.completed}/${day.due} (${formatRate(toRate(day.completed, day.due))})`,
+                                        segments: [
+                                            { value: day.completed, className: 'bg-green-600' },
+                                            { value: day.due - day.completed, className: day.date < todayKey ? 'bg-red-400/60' : 'bg-neutral-400 dark:bg-neutral-600' },
+                                        ],
+                                    }))}
+                                />
+                            </CardContent>
+                        </Card>
+
+                        {/* 期限切れの推移 */}
+                        <Card className="gap-2">
+                            <CardHeader>
+                                <CardTitle className="text-base">{t('stats.backlogTrend')}</CardTitle>
+                            </CardHeader>
+                            <CardContent className="space-y-1">
+                                <BarChart
+                                    startLabel={fromKey}
+                                    endLabel={toKey}
+                                    bars={dailyStats.map((day) => ({
+                                        key: day.date,
+                                        title: `${day.date}: ${day.backlog}`,
+                                        segments: [{ value: day.backlog, className: 'bg-red-500/80' }],
+                                    }))}
+                                />
+                                <p className="text-xs text-muted-foreground">{t('stats.backlogNote')}</p>
+                            </CardContent>
+                        </Card>
+
+                        <div className="grid gap-4 lg:grid-cols-2">
+                            {/* ステップ別の分布 */}
+                            <Card className="gap-2">
+                                <CardHeader>
+                                    <CardTitle className="text-base">{t('stats.byStep')}</CardTitle>
+                                </CardHeader>
+                                <CardContent className="space-y-2">
+                                    {stepStats.length === 0 ? (
+                                        <p className="py-4 text-center text-sm text-muted-foreground">{t('stats.noData')}</p>
+                                    ) : stepStats.map((step) => (
+                                        <div key={step.stepNumber} className="flex items-center gap-2 text-sm">
+                                            <span className="w-16 flex-shrink-0 text-muted-foreground">{t('pattern.step')} {step.stepNumber}</span>
+                                            <div className="flex h-4 flex-1 overflow-hidden rounded bg-muted" title={`${step.completed}/${step.total}`}>
+                                                <div className="h-full bg-green-600" style={{ width: `${(step.completed / maxStepTotal) * 100}%` }} />
+                                                <div className="h-full bg-red-400/60" style={{ width: `${(step.overdue / maxStepTotal) * 100}%` }} />
+                                                <div className="h-full bg-neutral-400 dark:bg-neutral-600" style={{ width: `${((step.total - step.completed - step.overdue) / maxStepTotal) * 100}%` }} />
+                                            </div>
+                                            <span className="w-24 flex-shrink-0 text-right tabular-nums text-muted-foreground">
+                                                {step.completed}/{step.total} ({formatRate(toRate(step.completed, step.total))})
+                                            </span>
+                                        </div>
+                                    ))}
+                                </CardContent>
+                            </Card>
+
+                            {/* カテゴリー・ボックス別の内訳 */}
+                            <Card className="gap-2">
+                                <CardHeader>
+                                    <CardTitle className="flex items-center justify-between text-base">
+                                        <span>{t('stats.breakdown')}</span>
+                                        <Tabs value={breakdownUnit} onValueChange={(value) => setBreakdownUnit(value as 'category' | 'box')}>
+                                            <TabsList>
+                                                <TabsTrigger value="category">{t('category.label')}</TabsTrigger>
+                                                <TabsTrigger value="box">{t('box.label')}</TabsTrigger>
+                                            </TabsList>
+                                        </Tabs>
+                                    </CardTitle>
+                                </CardHeader>
+                                <CardContent>
+                                    {breakdown.length === 0 ? (
+                                        <p className="py-4 text-center text-sm text-muted-foreground">{t('stats.noData')}</p>
+                                    ) : (
+                                        <Table>
+                                            <TableHeader>
+                                                <TableRow>
+                                                    <TableHead>{breakdownUnit === 'box' ? `${t('category.label')} / ${t('box.label')}` : t('category.label')}</TableHead>
+                                                    <TableHead className="text-right">{t('stats.items')}</TableHead>
+                                                    <TableHead className="text-right">{t('stats.reviews')}</TableHead>
+                                                    <TableHead className="text-right">{t('stats.completionRate')}</TableHead>
+                                                    <TableHead className="text-right">{t('stats.delayed')}</TableHead>
+                                                    <TableHead className="text-right">{t('stats.overdue')}</TableHead>
+                                                </TableRow>
+                                            </TableHeader>
+                                            <TableBody>
+                                                {breakdown.map((row) => (
+                                                    <TableRow key={`${row.categoryId}/${row.boxId}`}>
+                                                        <TableCell className="max-w-48 truncate">
+                                                            {breakdownUnit === 'box'
+                                                                ? `${getCategoryName(row.categoryId)} / ${getBoxName(row.boxId)}`
+                                                                : getCategoryName(row.categoryId)}
+                                                        </TableCell>
+                                                        <TableCell className="text-right tabular-nums">{row.items}</TableCell>
+                                                        <TableCell className="text-right tabular-nums">{row.due}</TableCell>
+                                                        <TableCell className="text-right tabular-nums">{formatRate(toRate(row.completed, row.due))}</TableCell>
+                                                        <TableCell className="text-right tabular-nums">{row.delayed}</TableCell>
+                                                        <TableCell className={cn('text-right tabular-nums', row.overdue > 0 && 'text-red-500')}>{row.overdue}</TableCell>
+                                                    </TableRow>
+                                                ))}
+                                            </TableBody>
+                                        </Table>
+                                    )}
+                                </CardContent>
+                            </Card>
+                        </div>
+                    </div>
+                )}
+                <ScrollBar orientation="vertical" className="!bg-transparent [&>div]:!bg-gray-600" />
+            </ScrollArea>
+        </div>
+    );
+};
+
+export default StatsPage;
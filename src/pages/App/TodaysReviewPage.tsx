@@ -3,7 +3,7 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useNavigate, useSearchParams } from 'react-router-dom';
 import { ColumnDef } from '@tanstack/react-table';
 import { toast } from 'sonner';
-import { ArrowRightEndOnRectangleIcon, CheckCircleIcon, XCircleIcon, DocumentTextIcon, ChevronDoubleLeftIcon } from '@heroicons/react/24/outline';
+import { ArrowRightEndOnRectangleIcon, CheckCircleIcon, XCircleIcon, DocumentTextIcon, ChevronDoubleLeftIcon, PlayIcon, CalendarDaysIcon } from '@heroicons/react/24/outline';
 import { MoreHorizontal } from 'lucide-react';
 import { useRef, useEffect, useState } from 'react';
 import { useTranslation } from 'react-i18next';
@@ -21,12 +21,15 @@ import { fetchCategories } from '@/api/categoryApi';
 import { fetchBoxes } from '@/api/boxApi'; // ボックス取得APIをインポート
 import { useItemStore, useCategoryStore, useBoxStore, usePatternStore } from '@/store';
 import { useModal } from '@/contexts/ModalContext';
-import { DailyReviewDate, GetDailyReviewDatesResponse, ItemResponse, ReviewDateResponse } from '@/types';
+import { useReviewUndo } from '@/hooks/useReviewUndo';
+import { DailyReviewDate, GetDailyReviewDatesResponse, ItemResponse, RecallGrade, ReviewDateResponse } from '@/types';
 import { UNCLASSIFIED_ID } from '@/constants';
+import { isAdaptivePattern } from '@/lib/sm2';
+import { collectTags, hasAllTags } from '@/lib/tags';
 
 // Shared & UI Components
 import Breadcrumbs from '@/components/shared/Breadcrumbs';
-import { DataTable } from '@/components/shared/DataTable/DataTable';
+import { DataTable, DataTableKeyboardShortcuts } from '@/components/shared/DataTable/DataTable';
 import { TableSkeleton } from '@/components/shared/SkeletonLoader';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -37,8 +40,12 @@ import { SelectCategoryModal } from '@/components/modals/SelectCategoryModal';
 import { SelectBoxModal } from '@/components/modals/SelectBoxModal';
 import { ItemDetailModal } from '@/components/modals/ItemDetailModal';
 import { EditReviewDateModal } from '@/components/modals/EditReviewDateModal';
+import { ExportCalendarModal } from '@/components/modals/ExportCalendarModal';
 import NameCell from '@/components/shared/NameCell';
 import { ScrollArea, ScrollBar } from '@/components/ui/scroll-area';
+import { ReviewSession } from '@/components/feature/ReviewSession';
+import { RecallGradePicker } from '@/components/shared/RecallGradePicker';
+import { TagFilter } from '@/components/shared/TagFilter';
 
 /**
  * APIから取得したネストされた今日の復習データを、テーブルで表示しやすいようにフラットな配列に変換するヘルパー関数
@@ -91,6 +98,7 @@ const flattenTodaysReviews = (data: GetDailyReviewDatesResponse | undefined, box
 const TodaysReviewPage = () => {
 
     const queryClient = useQueryClient();
+    const { recordCompleted, recordIncompleted } = useReviewUndo();
     const navigate = useNavigate();
     const [searchParams, setSearchParams] = useSearchParams();
     const { t } = useTranslation();
@@ -112,6 +120,7 @@ const TodaysReviewPage = () => {
     // モーダルの状態管理
     const [isSelectCategoryModalOpen, setSelectCategoryModalOpen] = React.useState(false);
     const [isSelectBoxModalOpen, setSelectBoxModalOpen] = React.useState(false);
+    const [isExportCalendarModalOpen, setExportCalendarModalOpen] = React.useState(false);
 
     // タブのレスポンシブ表示制御
     const categoryTabsContainerRef = useRef<HTMLDivElement>(null);
@@ -119,6 +128,9 @@ const TodaysReviewPage = () => {
     const [maxCategoryTabs, setMaxCategoryTabs] = useState<number>(7);
     const [maxBoxTabs, setMaxBoxTabs] = useState<number>(7);
 
+    // 復習セッション（フラッシュカード形式）の表示状態
+    const [isSessionActive, setSessionActive] = React.useState(false);
+
     // 詳細用の状態
     const [detailItem, setDetailItem] = React.useState<DailyReviewDate | null>(null);
 
@@ -201,15 +213,22 @@ const TodaysReviewPage = () => {
         }
     }, [reviewItems, setTodaysReviews]);
 
+    // タグでの絞り込み
+    const [selectedTags, setSelectedTags] = React.useState<string[]>([]);
+
     // データ加工
     // APIから取得したデータをフラット化してテーブルに渡す
-    const flattenedAndFilteredReviews = React.useMemo(() => {
-        if (!reviewItems) return [];
-
-        const flattened = flattenTodaysReviews(reviewItems, boxesByCategoryId);
+    const flattenedReviews = React.useMemo(
+        () => flattenTodaysReviews(reviewItems, boxesByCategoryId),
+        [reviewItems, boxesByCategoryId],
+    );
+    const availableTags = React.useMemo(() => collectTags(flattenedReviews), [flattenedReviews]);
 
+    const flattenedAndFilteredReviews = React.useMemo(() => {
         // クライアントサイドでの最終フィルタリング
-        return flattened.filter(item => {
+        return flattenedReviews.filter(item => {
+            if (!hasAllTags(item.tags, selectedTags)) return false;
+
             const categoryMatch = selectedCategoryId === 'all' ||
                 (selectedCategoryId === UNCLASSIFIED_ID ? item.category_id === null : item.category_id === selectedCategoryId);
 
@@ -223,13 +242,19 @@ const TodaysReviewPage = () => {
 
             return categoryMatch && boxMatch;
         });
-    }, [reviewItems, selectedCategoryId, selectedBoxId]);
+    }, [flattenedReviews, selectedCategoryId, selectedBoxId, selectedTags]);
 
 
     // データ操作 (Mutation)
-    const createMutationOptions = (_: boolean) => ({
-        onSuccess: (_: any, _vars: any) => {
-            toast.success(t('notification.reviewDateStatusUpdated'));
+    const createMutationOptions = (isComplete: boolean) => ({
+        onSuccess: (_: any, { itemId, reviewDateId, data }: { itemId: string; reviewDateId: string; data: { step_number: number; grade?: RecallGrade } }) => {
+            // トーストの「元に戻す」で反対の操作に戻せるようにする
+            const refs = [{ itemId, reviewDateId, stepNumber: data.step_number, grade: data.grade }];
+            if (isComplete) {
+                recordCompleted(refs, t('notification.reviewCompleted'));
+            } else {
+                recordIncompleted(refs, t('notification.reviewMarkedIncomplete'));
+            }
             queryClient.invalidateQueries({ queryKey: ['todaysReviews', selectedCategoryId, selectedBoxId] });
             queryClient.invalidateQueries({ queryKey: ['summary'] });
         },
@@ -239,6 +264,18 @@ const TodaysReviewPage = () => {
     const completeMutation = useMutation({ mutationFn: completeReviewDate, ...createMutationOptions(true) });
     const incompleteMutation = useMutation({ mutationFn: incompleteReviewDate, ...createMutationOptions(false) });
 
+    // 復習日のパターンがadaptiveかどうか。未分類アイテムは事前に取得したマッピングからpattern_idを引く
+    const isAdaptiveReview = React.useCallback((review: DailyReviewDate & { pattern_id?: string | null }) => {
+        const patternId = review.pattern_id || unclassifiedItemsMap[review.item_id] || null;
+        return isAdaptivePattern(patterns.find((p) => p.id === patternId));
+    }, [patterns, unclassifiedItemsMap]);
+
+    // 復習セッションのカードから復習を完了させる
+    const handleSessionComplete = (review: DailyReviewDate, grade?: RecallGrade) => {
+        const { item_id, review_date_id, step_number } = review;
+        return completeMutation.mutateAsync({ itemId: item_id, reviewDateId: review_date_id, data: { step_number, grade } });
+    };
+
     // リサイズ機能
     const handleResizeStart = (e: React.MouseEvent) => {
         e.preventDefault();
@@ -284,6 +321,44 @@ const TodaysReviewPage = () => {
         };
     }, [isResizing, handleResizeMove, handleResizeEnd]);
 
+    // 復習日の編集モーダルに渡すデータを作る
+    const toEditReviewDateData = React.useCallback((review: DailyReviewDate) => {
+        let patternId = (review as any).pattern_id || null;
+
+        // 未分類アイテムの場合、事前に取得したマッピングからpattern_idを取得
+        if (!patternId && (!review.category_id || !review.box_id)) {
+            patternId = unclassifiedItemsMap[review.item_id] || null;
+        }
+
+        return {
+            item: {
+                item_id: review.item_id,
+                user_id: '',
+                name: review.item_name,
+                detail: review.detail || null,
+                category_id: review.category_id || null,
+                box_id: review.box_id || null,
+                pattern_id: patternId,
+                learned_date: review.learned_date || '',
+                is_finished: false,
+                registered_at: '',
+                edited_at: '',
+                review_dates: []
+            } as ItemResponse,
+            reviewDate: {
+                review_date_id: review.review_date_id,
+                user_id: '',
+                category_id: review.category_id || null,
+                box_id: review.box_id || null,
+                item_id: review.item_id,
+                step_number: review.step_number,
+                initial_scheduled_date: review.initial_scheduled_date,
+                scheduled_date: review.scheduled_date,
+                is_completed: review.is_completed
+            } as ReviewDateResponse
+        };
+    }, [unclassifiedItemsMap]);
+
     // テーブルの列定義
     const columns = React.useMemo<ColumnDef<DailyReviewDate>[]>(() => [
         {
@@ -310,6 +385,17 @@ const TodaysReviewPage = () => {
                             {t('common.reviewCansel')}
                         </Button>
                     </div>
+                ) : isAdaptiveReview(row.original) ? (
+                    // adaptiveパターンでは評価を選んでから完了させる
+                    <div className="flex items-center justify-center">
+                        <RecallGradePicker
+                            onSelect={(grade) => {
+                                const { item_id, review_date_id, step_number } = row.original;
+                                completeMutation.mutate({ itemId: item_id, reviewDateId: review_date_id, data: { step_number, grade } });
+                            }}
+                            disabled={completeMutation.isPending}
+                        />
+                    </div>
                 ) : (
                     <div className="flex items-center justify-center">
                         <Button
@@ -347,7 +433,7 @@ const TodaysReviewPage = () => {
                 </div>
             ),
             size: nameColumnWidth,
-            cell: ({ row }) => <NameCell name={row.original.item_name} />,
+            cell: ({ row }) => <NameCell name={row.original.item_name} tags={row.original.tags} />,
         },
         {
             id: 'detail',
@@ -441,45 +527,7 @@ const TodaysReviewPage = () => {
                                 !isToday && row.original.is_completed && 'bg-green-700 text-white',
                                 !isClickable && 'cursor-not-allowed opacity-50',
                             )}
-                            onClick={isClickable ? () => {
-
-                                let patternId = (row.original as any).pattern_id || null;
-
-                                // 未分類アイテムの場合、事前に取得したマッピングからpattern_idを取得
-                                if (!patternId && (!row.original.category_id || !row.original.box_id)) {
-                                    patternId = unclassifiedItemsMap[row.original.item_id] || null;
-                                }
-
-                                const editData = {
-                                    item: {
-                                        item_id: row.original.item_id,
-                                        user_id: '',
-                                        name: row.original.item_name,
-                                        detail: row.original.detail || null,
-                                        category_id: row.original.category_id || null,
-                                        box_id: row.original.box_id || null,
-                                        pattern_id: patternId,
-                                        learned_date: row.original.learned_date || '',
-                                        is_finished: false,
-                                        registered_at: '',
-                                        edited_at: '',
-                                        review_dates: []
-                                    } as ItemResponse,
-                                    reviewDate: {
-                                        review_date_id: row.original.review_date_id,
-                                        user_id: '',
-                                        category_id: row.original.category_id || null,
-                                        box_id: row.original.box_id || null,
-                                        item_id: row.original.item_id,
-                                        step_number: row.original.step_number,
-                                        initial_scheduled_date: row.original.initial_scheduled_date,
-                                        scheduled_date: row.original.scheduled_date,
-                                        is_completed: row.original.is_completed
-                                    } as ReviewDateResponse
-                                };
-
-                                seteditingReviewDate(editData);
-                            } : undefined}
+                            onClick={isClickable ? () => seteditingReviewDate(toEditReviewDateData(row.original)) : undefined}
                             disabled={!isClickable}
                         >
                             {(() => {
@@ -513,7 +561,33 @@ const TodaysReviewPage = () => {
             size: 100,
 
         },
-    ], [completeMutation, incompleteMutation, patterns]);
+    ], [completeMutation, incompleteMutation, patterns, isAdaptiveReview, toEditReviewDateData]);
+
+    // 一覧のキーボード操作。ボタンと同じく、実行中の更新がある間は受け付けない
+    const keyboardShortcuts: DataTableKeyboardShortcuts<DailyReviewDate> = {
+        // adaptiveパターンは評価を「good」として完了する
+        onComplete: (review) => {
+            if (review.is_completed || completeMutation.isPending) return;
+            const { item_id, review_date_id, step_number } = review;
+            completeMutation.mutate({ itemId: item_id, reviewDateId: review_date_id, data: { step_number, grade: isAdaptiveReview(review) ? 'good' : undefined } });
+        },
+        onGrade: (review, grade) => {
+            if (review.is_completed || completeMutation.isPending || !isAdaptiveReview(review)) return;
+            const { item_id, review_date_id, step_number } = review;
+            completeMutation.mutate({ itemId: item_id, reviewDateId: review_date_id, data: { step_number, grade } });
+        },
+        onUndo: (review) => {
+            if (!review.is_completed || incompleteMutation.isPending) return;
+            const { item_id, review_date_id, step_number } = review;
+            incompleteMutation.mutate({ itemId: item_id, reviewDateId: review_date_id, data: { step_number } });
+        },
+        onOpenDetail: setDetailItem,
+        // 予定日を編集できるのは今日の未完了の復習日だけ（一覧のボタンと同じ条件）
+        onEdit: (review) => {
+            if (review.is_completed || format(new Date(review.scheduled_date), 'yyyy-MM-dd') !== format(new Date(), 'yyyy-MM-dd')) return;
+            seteditingReviewDate(toEditReviewDateData(review));
+        },
+    };
 
     // テーブル全体の幅を動的に計算
     const tableWidth = React.useMemo(() => {
@@ -551,6 +625,7 @@ const TodaysReviewPage = () => {
     const handleCategoryChange = (newCategoryId: string) => {
         setSelectedCategoryId(newCategoryId);
         setSelectedBoxId('all'); // カテゴリー変更時はボックス選択をリセット
+        setSessionActive(false); // 対象が変わるため復習セッションは終了する
 
         // URLパラメータを更新
         if (newCategoryId === 'all') {
@@ -565,6 +640,7 @@ const TodaysReviewPage = () => {
 
     const handleBoxChange = (newBoxId: string) => {
         setSelectedBoxId(newBoxId);
+        setSessionActive(false);
 
         // URLパラメータを更新
         if (selectedCategoryId === 'all' && newBoxId === 'all') {
@@ -731,6 +807,18 @@ const TodaysReviewPage = () => {
 
             <div className="flex-1 flex flex-col overflow-hidden p-0">
                 <div className="flex items-center justify-end p-3 gap-2">
+                    <TagFilter tags={availableTags} selected={selectedTags} onChange={setSelectedTags} className="max-w-[200px]" />
+                    <Button variant="outline" onClick={() => setExportCalendarModalOpen(true)}>
+                        <CalendarDaysIcon className="h-5 w-5 mr-2" />
+                        {t('calendarExport.open')}
+                    </Button>
+                    <Button
+                        onClick={() => setSessionActive(true)}
+                        disabled={isSessionActive || !flattenedAndFilteredReviews.some(r => !r.is_completed)}
+                    >
+                        <PlayIcon className="h-5 w-5 mr-2" />
+                        {t('session.start')}
+                    </Button>
                     <Button onClick={handleNavigate} variant="secondary">
                         <ArrowRightEndOnRectangleIcon className="h-5 w-5 mr-2" />
                         {t('common.moveToBox')}
@@ -756,29 +844,39 @@ const TodaysReviewPage = () => {
                 <Card className="flex-1 min-h-0 p-0 py-0">
 
                     <CardContent className="p-0 h-full">
-                        <ScrollArea className="w-full h-full rounded-xl pb-3 pr-3">
-                            {isLoading && !flattenedAndFilteredReviews.length ? (
-                                <TableSkeleton />
-                            ) : (
-                                <DataTable
-                                    columns={columns}
-                                    data={flattenedAndFilteredReviews}
-                                    fixedColumns={4}
-                                    maxHeight="100%"
-                                    enablePagination={false}
-                                    tableWidth={tableWidth}
-                                    resizableColumn={{
-                                        index: 1, // 復習物名列（0: 状態, 1: 復習物名）
-                                        onResizeStart: handleResizeStart,
-                                        isResizing: isResizing,
-                                        isHovering: isHovering,
-                                        onHover: setIsHovering
-                                    }}
-                                />
-                            )}
-                            <ScrollBar orientation="vertical" className="!bg-transparent [&>div]:!bg-gray-600" />
-                            <ScrollBar orientation="horizontal" className="!bg-transparent ml-2 [&>div]:!bg-gray-600 !h-1.5" />
-                        </ScrollArea>
+                        {isSessionActive ? (
+                            <ReviewSession
+                                reviews={flattenedAndFilteredReviews}
+                                onComplete={handleSessionComplete}
+                                isAdaptive={isAdaptiveReview}
+                                onExit={() => setSessionActive(false)}
+                            />
+                        ) : (
+                            <ScrollArea className="w-full h-full rounded-xl pb-3 pr-3">
+                                {isLoading && !flattenedAndFilteredReviews.length ? (
+                                    <TableSkeleton />
+                                ) : (
+                                    <DataTable
+                                        columns={columns}
+                                        data={flattenedAndFilteredReviews}
+                                        fixedColumns={4}
+                                        maxHeight="100%"
+                                        enablePagination={false}
+                                        tableWidth={tableWidth}
+                                        keyboardShortcuts={keyboardShortcuts}
+                                        resizableColumn={{
+                                            index: 1, // 復習物名列（0: 状態, 1: 復習物名）
+                                            onResizeStart: handleResizeStart,
+                                            isResizing: isResizing,
+                                            isHovering: isHovering,
+                                            onHover: setIsHovering
+                                        }}
+                                    />
+                                )}
+                                <ScrollBar orientation="vertical" className="!bg-transparent [&>div]:!bg-gray-600" />
+                                <ScrollBar orientation="horizontal" className="!bg-transparent ml-2 [&>div]:!bg-gray-600 !h-1.5" />
+                            </ScrollArea>
+                        )}
                     </CardContent>
 
                 </Card>
@@ -819,6 +917,12 @@ const TodaysReviewPage = () => {
                     onSelect={(box) => { handleBoxChange(box.id); setSelectBoxModalOpen(false); }}
                     categoryId={selectedCategoryId !== 'all' ? selectedCategoryId : undefined}
                 />
+                <ExportCalendarModal
+                    isOpen={isExportCalendarModalOpen}
+                    onClose={() => setExportCalendarModalOpen(false)}
+                    defaultCategoryId={selectedCategoryId}
+                    defaultBoxId={selectedBoxId}
+                />
             </div>
         </div>
     );
@@ -0,0 +1,30 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+
+/**
+ * 負荷予測（パターン選択時の今後の復習件数の見通し）の表示設定
+ * 端末ごとの好みとして扱い、localStorageに永続化する
+ */
+interface ForecastState {
+    // 予測する日数
+    days: number;
+    // 1日あたりの復習件数の上限。これを超える日は過負荷として強調表示する
+    dailyCap: number;
+    setDays: (days: number) => void;
+    setDailyCap: (dailyCap: number) => void;
+}
+
+export const useForecastStore = create<ForecastState>()(
+    persist(
+        (set) => ({
+            days: 30,
+            dailyCap: 20,
+            setDays: (days) => set({ days }),
+            setDailyCap: (dailyCap) => set({ dailyCap }),
+        }),
+        {
+            name: 'review-setter-forecast-storage',
+            storage: createJSONStorage(() => localStorage),
+        }
+    )
+);
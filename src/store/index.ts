@@ -2,4 +2,8 @@ export * from './userStore';
 export * from './categoryStore';
 export * from './boxStore';
 export * from './patternStore';
-export * from './itemStore';
\ No newline at end of file
+export * from './itemStore';
+export * from './forecastStore';
+export * from './offlineStore';
+export * from './reminderStore';
+export * from './undoStore';
@@ -6,6 +6,16 @@ import { ItemResponse, GetDailyReviewDatesResponse } from '@/types';
 // box_idをキーとして、復習物の配列を保持する
 type ItemStoreData = Record<string, ItemResponse[]>;
 
+/**
+ * 復習物が属するボックスのストア上のキー。未分類の復習物はカテゴリーごと（カテゴリーもなければ全体）の未分類をキーにする
+ */
+export const getStoreBoxId = (boxId: string | null, categoryId: string | null) => {
+    if (!boxId) {
+        return categoryId ? `unclassified-${categoryId}` : 'unclassified';
+    }
+    return boxId;
+};
+
 interface ItemState {
     itemsByBoxId: ItemStoreData;
     todaysReviews: GetDailyReviewDatesResponse | null;
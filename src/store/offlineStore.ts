@@ -0,0 +1,43 @@
+import { create } from 'zustand';
+
+// オフライン中にキューに積まれた更新リクエストの種類
+export type QueuedMutationKind = 'completeReviewDate' | 'incompleteReviewDate' | 'createItem';
+
+/**
+ * pending: 送信待ち
+ * conflict: サーバー側の状態と食い違い、4xxで拒否された（例: 既に完了済み、削除済み）
+ * failed: サーバーエラーなど、conflict以外の理由で失敗した
+ */
+export type QueuedMutationStatus = 'pending' | 'conflict' | 'failed';
+
+export interface QueuedMutation {
+    id: string;
+    kind: QueuedMutationKind;
+    method: 'post' | 'patch';
+    url: string;
+    data: unknown;
+    // UI表示用のラベル（復習物名など）
+    label?: string;
+    createdAt: string;
+    status: QueuedMutationStatus;
+    error?: string;
+}
+
+interface OfflineState {
+    isOnline: boolean;
+    isSyncing: boolean;
+    // IndexedDBに保存されているキューの写し。作成順に並ぶ。
+    queue: QueuedMutation[];
+    setOnline: (isOnline: boolean) => void;
+    setSyncing: (isSyncing: boolean) => void;
+    setQueue: (queue: QueuedMutation[]) => void;
+}
+
+export const useOfflineStore = create<OfflineState>((set) => ({
+    isOnline: typeof navigator === 'undefined' ? true : navigator.onLine,
+    isSyncing: false,
+    queue: [],
+    setOnline: (isOnline) => set({ isOnline }),
+    setSyncing: (isSyncing) => set({ isSyncing }),
+    setQueue: (queue) => set({ queue }),
+}));
@@ -0,0 +1,57 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+
+/**
+ * 今日の復習のリマインダー（ブラウザ通知）の設定
+ * 通知の許可はブラウザごとのため、端末ごとの設定として扱い、localStorageに永続化する
+ * 時刻はすべてユーザー設定のタイムゾーンでの "HH:mm"
+ */
+interface ReminderState {
+    enabled: boolean;
+    // 通知する時刻
+    time: string;
+    // おやすみ時間。この間は通知せず、終了後に通知する
+    quietHoursEnabled: boolean;
+    quietStart: string;
+    quietEnd: string;
+    // 通知の件数に含めないカテゴリー（サブカテゴリーも含めて除外する）
+    mutedCategoryIds: string[];
+    // 最後に通知した日付（"yyyy-MM-dd"）。1日に1回だけ通知するために使う
+    lastNotifiedDate: string | null;
+    setEnabled: (enabled: boolean) => void;
+    setTime: (time: string) => void;
+    setQuietHours: (quietHours: { enabled?: boolean; start?: string; end?: string }) => void;
+    toggleMutedCategory: (categoryId: string) => void;
+    setLastNotifiedDate: (date: string) => void;
+}
+
+export const useReminderStore = create<ReminderState>()(
+    persist(
+        (set) => ({
+            enabled: false,
+            time: '08:00',
+            quietHoursEnabled: false,
+            quietStart: '22:00',
+            quietEnd: '07:00',
+            mutedCategoryIds: [],
+            lastNotifiedDate: null,
+            setEnabled: (enabled) => set({ enabled }),
+            setTime: (time) => set({ time }),
+            setQuietHours: ({ enabled, start, end }) => set((state) => ({
+                quietHoursEnabled: enabled ?? state.quietHoursEnabled,
+                quietStart: start ?? state.quietStart,
+                quietEnd: end ?? state.quietEnd,
+            })),
+            toggleMutedCategory: (categoryId) => set((state) => ({
+                mutedCategoryIds: state.mutedCategoryIds.includes(categoryId)
+                    ? state.mutedCategoryIds.filter((id) => id !== categoryId)
+                    : [...state.mutedCategoryIds, categoryId],
+            })),
+            setLastNotifiedDate: (date) => set({ lastNotifiedDate: date }),
+        }),
+        {
+            name: 'review-setter-reminder-storage',
+            storage: createJSONStorage(() => localStorage),
+        }
+    )
+);
@@ -0,0 +1,74 @@
+import { create } from 'zustand';
+
+/**
+ * 取り消し・やり直しできる操作。
+ * undo/redoはサーバーへの反映まで行い、失敗した場合はエラーを投げる。
+ */
+export interface UndoableAction {
+    id: string;
+    // トーストに表示する説明（翻訳済み）
+    label: string;
+    undo: () => Promise<void>;
+    redo: () => Promise<void>;
+    // 履歴に積んだ（やり直した）時刻。古くなった操作は取り消せなくする
+    recordedAt: number;
+}
+
+// 履歴に残す件数と期間
+const HISTORY_LIMIT = 20;
+export const UNDO_HISTORY_TTL_MS = 10 * 60 * 1000;
+
+const prune = (actions: UndoableAction[]) => {
+    const threshold = Date.now() - UNDO_HISTORY_TTL_MS;
+    return actions.filter((action) => action.recordedAt >= threshold).slice(-HISTORY_LIMIT);
+};
+
+/**
+ * 直近の操作の履歴（このタブの中だけで、永続化しない）
+ */
+interface UndoState {
+    // 古い順に並ぶ。末尾が直近の操作
+    undoStack: UndoableAction[];
+    redoStack: UndoableAction[];
+    // 取り消し期間中で、まだサーバーから削除していない復習物・ボックス・カテゴリーのID
+    pendingDeletionIds: string[];
+    // 新しい操作を積む。やり直しの履歴は破棄する
+    push: (action: UndoableAction) => void;
+    // 取り消した操作をやり直しの履歴へ移す
+    markUndone: (actionId: string) => void;
+    // やり直した操作を取り消しの履歴へ戻す
+    markRedone: (actionId: string) => void;
+    // 取り消せなくなった操作（削除の確定など）を履歴から除く
+    discard: (actionId: string) => void;
+    addPendingDeletions: (ids: string[]) => void;
+    removePendingDeletions: (ids: string[]) => void;
+}
+
+export const useUndoStore = create<UndoState>((set) => ({
+    undoStack: [],
+    redoStack: [],
+    pendingDeletionIds: [],
+    push: (action) => set((state) => ({ undoStack: prune([...state.undoStack, action]), redoStack: [] })),
+    markUndone: (actionId) => set((state) => {
+        const action = state.undoStack.find((a) => a.id === actionId);
+        if (!action) return state;
+        return {
+            undoStack: state.undoStack.filter((a) => a.id !== actionId),
+            redoStack: prune([...state.redoStack, { ...action, recordedAt: Date.now() }]),
+        };
+    }),
+    markRedone: (actionId) => set((state) => {
+        const action = state.redoStack.find((a) => a.id === actionId);
+        if (!action) return state;
+        return {
+            redoStack: state.redoStack.filter((a) => a.id !== actionId),
+            undoStack: prune([...state.undoStack, { ...action, recordedAt: Date.now() }]),
+        };
+    }),
+    discard: (actionId) => set((state) => ({
+        undoStack: state.undoStack.filter((a) => a.id !== actionId),
+        redoStack: state.redoStack.filter((a) => a.id !== actionId),
+    })),
+    addPendingDeletions: (ids) => set((state) => ({ pendingDeletionIds: [...state.pendingDeletionIds, ...ids] })),
+    removePendingDeletions: (ids) => set((state) => ({ pendingDeletionIds: state.pendingDeletionIds.filter((id) => !ids.includes(id)) })),
+}));
@@ -64,6 +64,8 @@ export interface ResetPasswordConfirmRequest {
 
 export interface CreateCategoryInput {
     name: string;
+    // 親カテゴリー。nullまたは省略でトップレベルのカテゴリーになる
+    parent_id?: UUID | null;
 }
 
 export interface UpdateCategoryInput extends CreateCategoryInput { }
@@ -72,6 +74,7 @@ export interface GetCategoryOutput {
     id: UUID;
     user_id: UUID;
     name: string;
+    parent_id?: UUID | null;
     registered_at: string;
     edited_at: string;
 }
@@ -95,6 +98,12 @@ export interface GetBoxOutput {
 
 export type TargetWeight = "heavy" | "normal" | "light" | "unset";
 
+// fixed: ステップの間隔どおりに復習する / adaptive: 復習完了時の想起の評価から次の間隔を決める(SM-2方式)
+export type PatternKind = "fixed" | "adaptive";
+
+// 復習完了時の想起の評価（adaptiveパターンのみ）
+export type RecallGrade = "again" | "hard" | "good" | "easy";
+
 export interface CreatePatternStepField {
     step_number: number;
     interval_days: number;
@@ -103,7 +112,10 @@ export interface CreatePatternStepField {
 export interface CreatePatternRequest {
     name: string;
     target_weight: TargetWeight;
+    // adaptiveの場合、stepsは最初の数回の間隔として使われ、以降は容易度(ease factor)から間隔を計算する
     steps: CreatePatternStepField[];
+    kind?: PatternKind;
+    initial_ease_factor?: number;
 }
 
 export interface PatternStepResponse {
@@ -122,6 +134,9 @@ export interface PatternResponse {
     registered_at: string;
     edited_at: string;
     steps: PatternStepResponse[];
+    // 未対応のサーバーから返らない場合はfixedとして扱う
+    kind?: PatternKind;
+    initial_ease_factor?: number | null;
 }
 
 export interface UpdatePatternStepField {
@@ -134,6 +149,8 @@ export interface UpdatePatternRequest {
     name: string;
     target_weight: TargetWeight;
     steps: UpdatePatternStepField[];
+    kind?: PatternKind;
+    initial_ease_factor?: number;
 }
 
 export interface CreateItemRequest {
@@ -142,6 +159,8 @@ export interface CreateItemRequest {
     pattern_id?: UUID | null;
     name: string;
     detail?: string | null;
+    // 自由入力のタグ。カテゴリー・ボックスをまたいで絞り込むのに使う
+    tags?: string[];
     learned_date: string;
     is_mark_overdue_as_completed: boolean;
     today: string;
@@ -169,6 +188,7 @@ export interface ItemResponse {
     pattern_id: UUID | null;
     name: string;
     detail: string | null;
+    tags?: string[];
     learned_date: string;
     is_finished: boolean;
     registered_at: string;
@@ -176,6 +196,16 @@ export interface ItemResponse {
     review_dates: ReviewDateResponse[];
 }
 
+// 復習物の詳細(Markdown)から参照する添付ファイル。urlを画像やリンクとして埋め込む
+export interface AttachmentResponse {
+    attachment_id: UUID;
+    item_id: UUID | null;
+    file_name: string;
+    content_type: string;
+    size: number;
+    url: string;
+}
+
 export interface UpdateItemAsUnFinishedForceRequest {
     category_id?: UUID | null;
     box_id?: UUID | null;
@@ -186,6 +216,8 @@ export interface UpdateItemAsUnFinishedForceRequest {
 
 export interface UpdateReviewDateAsCompletedRequest {
     step_number: number;
+    // adaptiveパターンの復習物のみ指定する
+    grade?: RecallGrade;
 }
 
 export interface UpdateReviewDateAsInCompletedRequest {
@@ -217,6 +249,7 @@ export interface DailyReviewDate {
     is_completed: boolean;
     item_name: string;
     detail: string;
+    tags?: string[];
     learned_date: string;
     target_weight?: TargetWeight;
 }
@@ -241,6 +274,7 @@ export interface UnclassifiedDailyReviewDate {
     is_completed: boolean;
     item_name: string;
     detail: string;
+    tags?: string[];
     learned_date: string;
 }
 
@@ -262,6 +296,7 @@ export interface UnclassifiedUserDailyReview {
     is_completed: boolean;
     item_name: string;
     detail: string;
+    tags?: string[];
     learned_date: string;
 }
 
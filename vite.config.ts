@@ -2,8 +2,10 @@ import path from "path";
 import tailwindcss from "@tailwindcss/vite";
 import react from "@vitejs/plugin-react";
 import { defineConfig } from 'vite';
+import { mockAttachmentServer } from "./mock/attachmentServer";
+import { precacheManifest } from "./plugins/precacheManifest";
 export default defineConfig({
-    plugins: [react(), tailwindcss()],
+    plugins: [react(), tailwindcss(), mockAttachmentServer(), precacheManifest()],
     resolve: {
         alias: {
             "@": path.resolve(__dirname, "./src"),